@@ -0,0 +1,160 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Client-side search over the search index written by pandoc-spec. The search box is the element with ID "_search";
+// its "data-index" attribute is the URL of the search index, relative to the page.
+document.addEventListener("DOMContentLoaded", async () => {
+    // Maximum number of results shown.
+    const MAXIMUM_RESULTS = 20;
+
+    // Number of characters of context on either side of the first match in a result's text.
+    const CONTEXT_LENGTH = 60;
+
+    const searchElement = document.getElementById("_search");
+
+    if (searchElement === null) {
+        return;
+    }
+
+    const inputElement = searchElement.querySelector("input");
+    const resultsElement = searchElement.querySelector(".search-results");
+
+    let entries;
+
+    try {
+        const response = await fetch(searchElement.dataset.index);
+
+        if (!response.ok) {
+            throw new Error(`${response.status} ${response.statusText}`);
+        }
+
+        entries = (await response.json()).entries.map(entry => ({
+            ...entry,
+            normalizedTitle: entry.title.toLowerCase(),
+            normalizedText: entry.text.toLowerCase()
+        }));
+    } catch (e) {
+        // Search index can't be fetched from the file system by some browsers; search is unavailable.
+        console.warn(`Search index not loaded: ${e}`);
+        searchElement.hidden = true;
+
+        return;
+    }
+
+    // Score an entry against the query terms: zero if any term is missing, title matches outweighing text matches.
+    function score(entry, terms) {
+        let total = 0;
+
+        for (const term of terms) {
+            const titleIndex = entry.normalizedTitle.indexOf(term);
+            const textIndex = entry.normalizedText.indexOf(term);
+
+            if (titleIndex === -1 && textIndex === -1) {
+                return 0;
+            }
+
+            total += titleIndex === 0 ? 10 : titleIndex !== -1 ? 5 : 1;
+        }
+
+        // Defined terms matching the query exactly come first.
+        return entry.kind === "term" && entry.normalizedTitle === terms.join(" ") ? total * 2 : total;
+    }
+
+    // Get the text around the first match of a term.
+    function snippet(entry, terms) {
+        const index = Math.min(...terms.map(term => entry.normalizedText.indexOf(term)).filter(index => index !== -1));
+
+        if (!Number.isFinite(index)) {
+            return entry.text.substring(0, 2 * CONTEXT_LENGTH);
+        }
+
+        const start = Math.max(index - CONTEXT_LENGTH, 0);
+        const end = Math.min(index + CONTEXT_LENGTH, entry.text.length);
+
+        return `${start !== 0 ? "…" : ""}${entry.text.substring(start, end)}${end !== entry.text.length ? "…" : ""}`;
+    }
+
+    function search() {
+        const terms = inputElement.value.toLowerCase().split(/\s+/).filter(term => term !== "");
+
+        resultsElement.replaceChildren();
+
+        if (terms.length !== 0) {
+            const results = entries.map(entry => ({
+                entry,
+                score: score(entry, terms)
+            })).filter(result => result.score !== 0).sort((result1, result2) => result2.score - result1.score).slice(0, MAXIMUM_RESULTS);
+
+            for (const { entry } of results) {
+                const itemElement = document.createElement("li");
+                const linkElement = document.createElement("a");
+
+                // Link is relative to the search index, which is in the same directory as the page.
+                linkElement.href = entry.href;
+
+                const titleElement = document.createElement("span");
+
+                titleElement.className = `search-result-title search-result-${entry.kind}`;
+                titleElement.textContent = entry.kind === "section" && entry.number !== undefined ? `${entry.number} ${entry.title}` : entry.title;
+
+                const textElement = document.createElement("span");
+
+                textElement.className = "search-result-text";
+                textElement.textContent = snippet(entry, terms);
+
+                linkElement.append(titleElement, textElement);
+                itemElement.append(linkElement);
+                resultsElement.append(itemElement);
+            }
+
+            if (results.length === 0) {
+                const itemElement = document.createElement("li");
+
+                itemElement.className = "search-no-results";
+                itemElement.textContent = "No results";
+
+                resultsElement.append(itemElement);
+            }
+        }
+
+        resultsElement.hidden = terms.length === 0;
+    }
+
+    inputElement.addEventListener("input", search);
+
+    inputElement.addEventListener("keydown", (e) => {
+        if (e.key === "Enter") {
+            // Enter follows the best result.
+            const linkElement = resultsElement.querySelector("a");
+
+            if (linkElement !== null) {
+                linkElement.click();
+            }
+        } else if (e.key === "Escape") {
+            inputElement.value = "";
+            search();
+        }
+    });
+
+    // Selecting a result closes the results.
+    resultsElement.addEventListener("click", (e) => {
+        if (e.target.closest("a") !== null) {
+            resultsElement.hidden = true;
+        }
+    });
+
+    searchElement.hidden = false;
+});
@@ -0,0 +1,319 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { isNonNullObject } from "./utility.js";
+
+/**
+ * Index of the attributes in the content of each element type that has them.
+ */
+const ATTRIBUTES_INDEXES: Readonly<Record<string, number>> = {
+    Header: 1,
+    Div: 0,
+    Span: 0,
+    CodeBlock: 0,
+    Code: 0,
+    Table: 0,
+    Figure: 0,
+    Image: 0,
+    Link: 0
+};
+
+/**
+ * Pandoc AST element (block, inline, or metadata value), identified by its type tag.
+ */
+export interface Element {
+    /**
+     * Type tag.
+     */
+    t: string;
+
+    /**
+     * Content, if any.
+     */
+    c?: unknown;
+}
+
+/**
+ * Pandoc attributes: identifier, classes, and key-value pairs.
+ */
+export type Attributes = [identifier: string, classes: string[], keyValuePairs: Array<[string, string]>];
+
+/**
+ * Pandoc document as serialized in JSON.
+ */
+export interface Document {
+    /**
+     * Pandoc API version.
+     */
+    "pandoc-api-version": number[];
+
+    /**
+     * Metadata.
+     */
+    meta: Record<string, Element>;
+
+    /**
+     * Blocks.
+     */
+    blocks: Element[];
+}
+
+/**
+ * Determine if value is a Pandoc AST element.
+ *
+ * @param value
+ * Value.
+ *
+ * @returns
+ * True if value is a Pandoc AST element.
+ */
+export function isElement(value: unknown): value is Element {
+    return isNonNullObject(value) && "t" in value && typeof value.t === "string";
+}
+
+/**
+ * Parse a Pandoc document from its JSON serialization.
+ *
+ * @param data
+ * JSON serialization.
+ *
+ * @returns
+ * Document.
+ */
+export function parseDocument(data: Buffer | string): Document {
+    const document: unknown = JSON.parse(data.toString());
+
+    if (!isNonNullObject(document) || !("pandoc-api-version" in document) || !("meta" in document) || !("blocks" in document) || !Array.isArray(document.blocks)) {
+        throw new Error("Invalid Pandoc JSON AST");
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Structure is validated to the extent required.
+    return document as Document;
+}
+
+/**
+ * Serialize a Pandoc document to JSON.
+ *
+ * @param document
+ * Document.
+ *
+ * @returns
+ * JSON serialization.
+ */
+export function serializeDocument(document: Document): Buffer {
+    return Buffer.from(JSON.stringify(document));
+}
+
+/**
+ * Map elements in a value. Arrays and objects are traversed depth first; elements for which the mapper returns a
+ * replacement are replaced and not traversed further.
+ *
+ * @param value
+ * Value.
+ *
+ * @param mapper
+ * Mapper, returning a replacement element or undefined to leave the element in place.
+ *
+ * @returns
+ * Mapped value.
+ */
+export function mapElements<T>(value: T, mapper: (element: Element) => Element | undefined): T {
+    let result: unknown;
+
+    if (Array.isArray(value)) {
+        result = value.map(item => mapElements<unknown>(item, mapper));
+    } else if (isNonNullObject(value)) {
+        const replacement = isElement(value) ? mapper(value) : undefined;
+
+        result = replacement ?? Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapElements<unknown>(item, mapper)]));
+    } else {
+        result = value;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Mapping preserves structure.
+    return result as T;
+}
+
+/**
+ * Visit elements in a value depth first, in document order.
+ *
+ * @param value
+ * Value.
+ *
+ * @param visitor
+ * Visitor, called for each element before its content is visited.
+ */
+export function visitElements(value: unknown, visitor: (element: Element) => void): void {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            visitElements(item, visitor);
+        }
+    } else if (isNonNullObject(value)) {
+        if (isElement(value)) {
+            visitor(value);
+        }
+
+        for (const item of Object.values(value)) {
+            visitElements(item, visitor);
+        }
+    }
+}
+
+/**
+ * Convert inline elements to plain text. Notes are omitted.
+ *
+ * @param inlines
+ * Inline elements.
+ *
+ * @returns
+ * Plain text.
+ */
+export function stringify(inlines: unknown): string {
+    let text = "";
+
+    if (Array.isArray(inlines)) {
+        text = inlines.map(inline => stringify(inline)).join("");
+    } else if (isElement(inlines)) {
+        const content = inlines.c;
+
+        switch (inlines.t) {
+            case "Str":
+                text = typeof content === "string" ? content : "";
+                break;
+
+            case "Space":
+            case "SoftBreak":
+            case "LineBreak":
+                text = " ";
+                break;
+
+            case "Code":
+            case "Math":
+            case "RawInline":
+                // Text is the last item of the content.
+                text = Array.isArray(content) && typeof content[1] === "string" ? content[1] : "";
+                break;
+
+            case "Note":
+                break;
+
+            default:
+                if (Array.isArray(content)) {
+                    const isInlines = (value: unknown): boolean => Array.isArray(value) && (value.length === 0 || isElement(value[0]));
+
+                    // Containers hold their inlines as the content or as the last inlines array in the content.
+                    text = stringify(isInlines(content) ? content : content.filter(isInlines).at(-1));
+                }
+                break;
+        }
+    }
+
+    return text;
+}
+
+/**
+ * Get the classes of a code block.
+ *
+ * @param codeBlock
+ * Code block.
+ *
+ * @returns
+ * Classes.
+ */
+export function codeBlockClasses(codeBlock: Element): string[] {
+    // Code block content is [[identifier, classes, attributes], text].
+    const content = codeBlock.c;
+
+    return Array.isArray(content) && Array.isArray(content[0]) && Array.isArray(content[0][1]) ? content[0][1].filter(className => typeof className === "string") : [];
+}
+
+/**
+ * Get the text of a code block.
+ *
+ * @param codeBlock
+ * Code block.
+ *
+ * @returns
+ * Text.
+ */
+export function codeBlockText(codeBlock: Element): string {
+    // Code block content is [[identifier, classes, attributes], text].
+    const content = codeBlock.c;
+
+    return Array.isArray(content) && typeof content[1] === "string" ? content[1] : "";
+}
+
+/**
+ * Get the attributes of an element.
+ *
+ * @param element
+ * Element.
+ *
+ * @returns
+ * Attributes as [identifier, classes, key-value pairs], or undefined if the element has none.
+ */
+export function elementAttributes(element: Element): Attributes | undefined {
+    const attributesIndex = ATTRIBUTES_INDEXES[element.t] as number | undefined;
+    const attributes: unknown = attributesIndex !== undefined && Array.isArray(element.c) ? element.c[attributesIndex] : undefined;
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Structure is validated to the extent required.
+    return Array.isArray(attributes) && typeof attributes[0] === "string" && Array.isArray(attributes[1]) ? attributes as Attributes : undefined;
+}
+
+/**
+ * Value convertible to a Pandoc metadata value.
+ */
+export type MetaSource = string | boolean | MetaSource[] | {
+    [key: string]: MetaSource | undefined;
+};
+
+/**
+ * Convert a value to a Pandoc metadata value. Strings become MetaString, booleans MetaBool, arrays MetaList, and
+ * objects MetaMap; undefined object properties are omitted.
+ *
+ * @param value
+ * Value.
+ *
+ * @returns
+ * Metadata value.
+ */
+export function metaValue(value: MetaSource): Element {
+    let element: Element;
+
+    if (typeof value === "string") {
+        element = {
+            t: "MetaString",
+            c: value
+        };
+    } else if (typeof value === "boolean") {
+        element = {
+            t: "MetaBool",
+            c: value
+        };
+    } else if (Array.isArray(value)) {
+        element = {
+            t: "MetaList",
+            c: value.map(item => metaValue(item))
+        };
+    } else {
+        element = {
+            t: "MetaMap",
+            c: Object.fromEntries(Object.entries(value).flatMap(([key, item]) => item !== undefined ? [[key, metaValue(item)]] : []))
+        };
+    }
+
+    return element;
+}
@@ -0,0 +1,162 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Build stage. Without the cache, the reader and the filters up to the first filter run in the builder process (a
+ * diagram filter or a module filter) run as a single pipeline, timed as the "read" stage; diagram rendering is timed as
+ * the "diagrams" stage and the remaining filters as the "filter" stage.
+ */
+export type BuildStage = "read" | "diagrams" | "filter" | "metadata" | "index" | "references" | "write" | "search" | "diff" | "pdf" | "copy" | "check";
+
+/**
+ * Warning reported by a command or by the link checker.
+ */
+export interface BuildWarning {
+    /**
+     * Command that reported the warning, or "link-check" for the link checker.
+     */
+    command: string;
+
+    /**
+     * Message, without the "[WARNING]" prefix; may span multiple lines.
+     */
+    message: string;
+}
+
+/**
+ * Build result.
+ */
+export interface BuildResult {
+    /**
+     * Exit status; 0 if the build succeeded, otherwise the status of the command that failed or 1 if the failure was
+     * not a command failure.
+     */
+    status: number;
+
+    /**
+     * Error, if the build failed.
+     */
+    error?: Error;
+
+    /**
+     * Absolute paths of output files written. Empty if the build failed.
+     */
+    outputFiles: string[];
+
+    /**
+     * Absolute paths of resource files copied to the output directory. Empty if the build failed.
+     */
+    resourceFiles: string[];
+
+    /**
+     * Warnings reported by the commands.
+     */
+    warnings: BuildWarning[];
+
+    /**
+     * Duration of each stage run, in milliseconds.
+     */
+    durations: Partial<Record<BuildStage, number>>;
+}
+
+/**
+ * Build that has completed its read phase, up to and including the registration of its anchor index, and is pending
+ * its write phase.
+ */
+export interface PendingBuild {
+    /**
+     * Complete the build. Build failures, including any in the read phase, are reported in the result rather than
+     * thrown.
+     */
+    complete: () => Promise<BuildResult>;
+}
+
+/**
+ * Events emitted by the builder, by name, with their arguments.
+ */
+export interface BuildEvents {
+    /**
+     * Stage has started.
+     */
+    stageStart: [stage: BuildStage];
+
+    /**
+     * Stage has ended, successfully or not.
+     */
+    stageEnd: [stage: BuildStage, duration: number];
+
+    /**
+     * Command has reported a warning.
+     */
+    warning: [warning: BuildWarning];
+
+    /**
+     * Build has been rerun in watch mode.
+     */
+    rebuild: [result: BuildResult];
+}
+
+/**
+ * Standard error output parsed into warnings and other lines.
+ */
+export interface ParsedStandardError {
+    /**
+     * Warning messages.
+     */
+    warnings: string[];
+
+    /**
+     * Lines that are not part of a warning.
+     */
+    otherLines: string[];
+}
+
+/**
+ * Parse standard error output. Pandoc reports each warning on a line starting with "[WARNING]", followed by any
+ * continuation lines indented with spaces.
+ *
+ * @param stderr
+ * Standard error output.
+ *
+ * @returns
+ * Parsed standard error output.
+ */
+export function parseStandardError(stderr: string): ParsedStandardError {
+    const warnings: string[] = [];
+    const otherLines: string[] = [];
+
+    let inWarning = false;
+
+    for (const line of stderr.split(/\r?\n/)) {
+        if (line.startsWith("[WARNING]")) {
+            warnings.push(line.substring("[WARNING]".length).trim());
+            inWarning = true;
+        } else if (inWarning && line.startsWith(" ")) {
+            warnings[warnings.length - 1] += `\n${line.trim()}`;
+        } else {
+            inWarning = false;
+
+            if (line !== "") {
+                otherLines.push(line);
+            }
+        }
+    }
+
+    return {
+        warnings,
+        otherLines
+    };
+}
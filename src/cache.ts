@@ -0,0 +1,157 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * Default cache directory, relative to the starting directory.
+ */
+export const DEFAULT_CACHE_DIRECTORY = ".pandoc-spec-cache";
+
+/**
+ * Content-hash cache. Entries are stored as files named by the hash of their key components.
+ */
+export class Cache {
+    /**
+     * Cache directory.
+     */
+    private readonly _directory: string;
+
+    /**
+     * Keys used since the last prune.
+     */
+    private readonly _usedKeys = new Set<string>();
+
+    /**
+     * Constructor.
+     *
+     * @param directory
+     * Cache directory, created if it doesn't exist.
+     */
+    constructor(directory: string) {
+        this._directory = directory;
+
+        if (!fs.existsSync(directory)) {
+            fs.mkdirSync(directory, {
+                recursive: true
+            });
+        }
+    }
+
+    /**
+     * Get the cache directory.
+     */
+    get directory(): string {
+        return this._directory;
+    }
+
+    /**
+     * Build a key from its components.
+     *
+     * @param components
+     * Components; any change to any component results in a different key.
+     *
+     * @returns
+     * Key.
+     */
+    static key(...components: ReadonlyArray<string | Buffer>): string {
+        const hash = crypto.createHash("sha256");
+
+        for (const component of components) {
+            // Length prefix prevents ambiguity between adjacent components.
+            hash.update(`${component.length}:`);
+            hash.update(component);
+        }
+
+        return hash.digest("hex");
+    }
+
+    /**
+     * Get the path of an entry.
+     *
+     * @param key
+     * Key.
+     *
+     * @returns
+     * Path.
+     */
+    private entryPath(key: string): string {
+        return path.resolve(this._directory, key);
+    }
+
+    /**
+     * Get an entry.
+     *
+     * @param key
+     * Key.
+     *
+     * @returns
+     * Entry data or undefined if not cached.
+     */
+    get(key: string): Buffer | undefined {
+        let data: Buffer | undefined;
+
+        try {
+            data = fs.readFileSync(this.entryPath(key));
+
+            this._usedKeys.add(key);
+        } catch (e: unknown) {
+            // Entry is read without checking for it first, as it may be deleted in between; a missing entry is a miss.
+            if (!(e instanceof Error) || !("code" in e) || e.code !== "ENOENT") {
+                throw e;
+            }
+
+            data = undefined;
+        }
+
+        return data;
+    }
+
+    /**
+     * Set an entry.
+     *
+     * @param key
+     * Key.
+     *
+     * @param data
+     * Entry data.
+     */
+    set(key: string, data: Buffer | string): void {
+        fs.writeFileSync(this.entryPath(key), data);
+
+        this._usedKeys.add(key);
+    }
+
+    /**
+     * Delete all entries not used since the last prune, so that the cache holds only what the last build required.
+     */
+    prune(): void {
+        // Subdirectories, such as those of projects in a workspace, aren't entries.
+        for (const key of fs.readdirSync(this._directory, {
+            withFileTypes: true
+        }).filter(entry => entry.isFile()).map(entry => entry.name)) {
+            if (!this._usedKeys.has(key)) {
+                fs.rmSync(this.entryPath(key), {
+                    force: true
+                });
+            }
+        }
+
+        this._usedKeys.clear();
+    }
+}
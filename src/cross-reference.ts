@@ -0,0 +1,342 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { type Document, type Element, elementAttributes, mapElements, stringify, visitElements } from "./ast.js";
+import { isNonNullObject } from "./utility.js";
+
+/**
+ * Cross-document reference link target, `spec:name#id` or `spec:name` for the specification as a whole.
+ */
+const SPEC_REFERENCE_REGEX = /^spec:([^#]+)(?:#(.+))?$/;
+
+/**
+ * Anchor in a specification.
+ */
+export interface Anchor {
+    /**
+     * URL, relative to the directory of the anchor index.
+     */
+    href: string;
+
+    /**
+     * Section number of the heading or, for any other anchor, of the enclosing heading; undefined if unnumbered.
+     */
+    number?: string;
+
+    /**
+     * Title of the heading or, for any other anchor, of the enclosing heading.
+     */
+    title: string;
+}
+
+/**
+ * Index of the anchors in a specification.
+ */
+export interface AnchorIndex {
+    /**
+     * Specification name.
+     */
+    name: string;
+
+    /**
+     * Specification title, if any.
+     */
+    title?: string;
+
+    /**
+     * URL of the specification, relative to the directory of the anchor index.
+     */
+    href: string;
+
+    /**
+     * Anchors by identifier.
+     */
+    anchors: Record<string, Anchor>;
+}
+
+/**
+ * Anchor index with the absolute directory against which its URLs are resolved.
+ */
+export interface RegisteredAnchorIndex {
+    /**
+     * Anchor index.
+     */
+    index: AnchorIndex;
+
+    /**
+     * Absolute directory against which the URLs in the anchor index are resolved.
+     */
+    directory: string;
+}
+
+/**
+ * Convert plain text to inline elements.
+ *
+ * @param text
+ * Plain text.
+ *
+ * @returns
+ * Inline elements.
+ */
+function inlines(text: string): Element[] {
+    const str = (word: string): Element => ({
+        t: "Str",
+        c: word
+    });
+
+    return text.split(" ").filter(word => word !== "").flatMap((word, index) => index === 0 ?
+        [str(word)] :
+        [{
+            t: "Space"
+        }, str(word)]);
+}
+
+/**
+ * Build the anchor index of a document. Section numbers follow Pandoc's numbering, skipping headings with the
+ * "unnumbered" class.
+ *
+ * @param document
+ * Document.
+ *
+ * @param name
+ * Specification name.
+ *
+ * @param href
+ * URL of the output to which anchors refer, relative to the directory of the anchor index.
+ *
+ * @param numberSections
+ * If true, section numbers are included.
+ *
+ * @returns
+ * Anchor index.
+ */
+export function buildAnchorIndex(document: Document, name: string, href: string, numberSections: boolean): AnchorIndex {
+    // Identifiers such as "__proto__" can't be assigned safely to a plain object.
+    const anchors = new Map<string, Anchor>();
+
+    const counters: number[] = [];
+
+    let section: Omit<Anchor, "href"> = {
+        title: ""
+    };
+
+    visitElements(document.blocks, (element) => {
+        const attributes = elementAttributes(element);
+
+        if (element.t === "Header" && Array.isArray(element.c) && typeof element.c[0] === "number") {
+            const level = element.c[0];
+
+            let number: string | undefined = undefined;
+
+            if (numberSections && attributes?.[1].includes("unnumbered") !== true && level >= 1) {
+                counters.splice(level);
+
+                while (counters.length < level) {
+                    counters.push(0);
+                }
+
+                counters[level - 1]++;
+
+                number = counters.join(".");
+            }
+
+            section = {
+                ...number !== undefined ?
+                    {
+                        number
+                    } :
+                    {},
+                title: stringify(element.c[2])
+            };
+        }
+
+        if (attributes !== undefined && attributes[0] !== "" && !anchors.has(attributes[0])) {
+            anchors.set(attributes[0], {
+                href: `${href}#${attributes[0]}`,
+                ...section
+            });
+        }
+    });
+
+    const titleMeta = document.meta["title"] as Element | undefined;
+
+    const title = titleMeta !== undefined ? titleMeta.t === "MetaString" && typeof titleMeta.c === "string" ? titleMeta.c : stringify(titleMeta.c) : undefined;
+
+    return {
+        name,
+        ...title !== undefined && title !== "" ?
+            {
+                title
+            } :
+            {},
+        href,
+        anchors: Object.fromEntries(anchors)
+    };
+}
+
+/**
+ * Get an anchor from an anchor index. Only the anchors themselves are looked up, so that identifiers such as
+ * "constructor" don't resolve to properties inherited by the index.
+ *
+ * @param anchorIndex
+ * Anchor index.
+ *
+ * @param id
+ * Anchor identifier.
+ *
+ * @returns
+ * Anchor or undefined if none with the identifier.
+ */
+export function anchorOf(anchorIndex: AnchorIndex, id: string): Anchor | undefined {
+    return Object.hasOwn(anchorIndex.anchors, id) ? anchorIndex.anchors[id] : undefined;
+}
+
+/**
+ * Read an anchor index file.
+ *
+ * @param indexFile
+ * Anchor index file.
+ *
+ * @returns
+ * Anchor index.
+ */
+export function readAnchorIndex(indexFile: string): AnchorIndex {
+    if (!fs.existsSync(indexFile)) {
+        throw new Error(`Anchor index file ${indexFile} not found`);
+    }
+
+    const index: unknown = JSON.parse(fs.readFileSync(indexFile).toString());
+
+    if (!isNonNullObject(index) || !("name" in index) || typeof index.name !== "string" || !("href" in index) || typeof index.href !== "string" || !("anchors" in index) || !isNonNullObject(index.anchors)) {
+        throw new Error(`${indexFile} is not a valid anchor index`);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Structure is validated to the extent required.
+    return index as AnchorIndex;
+}
+
+/**
+ * Registry of anchor indexes in memory, by specification name, shared by builders that reference each other.
+ */
+export class AnchorRegistry {
+    private readonly _indexes = new Map<string, RegisteredAnchorIndex>();
+
+    /**
+     * Register an anchor index, replacing any registered under the same name.
+     *
+     * @param index
+     * Anchor index.
+     *
+     * @param directory
+     * Absolute directory against which the URLs in the anchor index are resolved.
+     */
+    register(index: AnchorIndex, directory: string): void {
+        this._indexes.set(index.name, {
+            index,
+            directory
+        });
+    }
+
+    /**
+     * Get a registered anchor index.
+     *
+     * @param name
+     * Specification name.
+     *
+     * @returns
+     * Registered anchor index or undefined if none registered under the name.
+     */
+    get(name: string): RegisteredAnchorIndex | undefined {
+        return this._indexes.get(name);
+    }
+}
+
+/**
+ * Resolve cross-document references, i.e., links with targets of the form `spec:name#id`, into relative URLs. Links
+ * with no content are given the section number and title of the target; all are given the "spec-reference" class.
+ *
+ * @param document
+ * Document.
+ *
+ * @param outputDirectory
+ * Absolute output directory, to which the URLs are made relative.
+ *
+ * @param lookup
+ * Function to look up an anchor index by specification name.
+ *
+ * @returns
+ * Document with cross-document references resolved.
+ *
+ * @throws Error
+ * If any cross-document reference can't be resolved.
+ */
+export function resolveReferences(document: Document, outputDirectory: string, lookup: (name: string) => RegisteredAnchorIndex | undefined): Document {
+    const unresolvedReferences: string[] = [];
+
+    const blocks = mapElements(document.blocks, (element) => {
+        let replacement: Element | undefined = undefined;
+
+        // Link content is [attributes, inlines, [url, title]].
+        const content = element.c;
+
+        if (element.t === "Link" && Array.isArray(content) && Array.isArray(content[2]) && typeof content[2][0] === "string") {
+            const url = content[2][0];
+            const match = SPEC_REFERENCE_REGEX.exec(url);
+
+            if (match !== null) {
+                const [, name, id] = match;
+
+                const registeredIndex = lookup(name);
+                const anchor = registeredIndex !== undefined && id !== undefined ? anchorOf(registeredIndex.index, id) : undefined;
+
+                if (registeredIndex === undefined || (id !== undefined && anchor === undefined)) {
+                    unresolvedReferences.push(url);
+                } else {
+                    const index = registeredIndex.index;
+
+                    const directoryHref = path.relative(outputDirectory, registeredIndex.directory).split(path.sep).join("/");
+                    const href = anchor?.href ?? index.href;
+
+                    const attributes = elementAttributes(element) ?? ["", [], []];
+
+                    const text = anchor !== undefined ? `${anchor.number !== undefined ? `§${anchor.number} ` : ""}${anchor.title}` : index.title ?? index.name;
+
+                    replacement = {
+                        t: "Link",
+                        c: [
+                            [attributes[0], [...attributes[1], "spec-reference"], attributes[2]],
+                            stringify(content[1]).trim() !== "" ? content[1] : inlines(text),
+                            [directoryHref !== "" ? `${directoryHref}/${href}` : href, typeof content[2][1] === "string" && content[2][1] !== "" ? content[2][1] : index.title ?? index.name]
+                        ]
+                    };
+                }
+            }
+        }
+
+        return replacement;
+    });
+
+    if (unresolvedReferences.length !== 0) {
+        throw new Error(`Unresolved cross-document references: ${[...new Set(unresolvedReferences)].join(", ")}`);
+    }
+
+    return {
+        ...document,
+        blocks
+    };
+}
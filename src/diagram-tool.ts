@@ -0,0 +1,197 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import child_process from "node:child_process";
+import { codeBlockText, type Element } from "./ast.js";
+import { diagramBlock, type DiagramErrorHandler } from "./diagram.js";
+import type { DiagramTool } from "./options.js";
+
+/**
+ * Default diagram tools.
+ */
+const DEFAULT_DIAGRAM_TOOLS: readonly DiagramTool[] = [
+    {
+        language: "plantuml",
+        command: "plantuml",
+        args: ["-tsvg", "-pipe", "-charset", "UTF-8"]
+    },
+    {
+        language: "dot",
+        command: "dot",
+        args: ["-Tsvg"]
+    }
+];
+
+/**
+ * Result of running a diagram tool.
+ */
+interface ToolResult {
+    /**
+     * Exit status or null if terminated by a signal.
+     */
+    status: number | null;
+
+    /**
+     * Standard output.
+     */
+    stdout: Buffer;
+
+    /**
+     * Standard error.
+     */
+    stderr: string;
+}
+
+/**
+ * Get the diagram tools, with configured tools replacing the default tools for the same language.
+ *
+ * @param configuredDiagramTools
+ * Configured diagram tools.
+ *
+ * @returns
+ * Diagram tools.
+ */
+export function diagramTools(configuredDiagramTools: readonly DiagramTool[]): DiagramTool[] {
+    const languages = new Set(configuredDiagramTools.map(diagramTool => diagramTool.language));
+
+    return [...DEFAULT_DIAGRAM_TOOLS.filter(diagramTool => !languages.has(diagramTool.language)), ...configuredDiagramTools];
+}
+
+/**
+ * Run a diagram tool on a diagram.
+ *
+ * @param diagramTool
+ * Diagram tool.
+ *
+ * @param text
+ * Diagram text, written to standard input.
+ *
+ * @param cwd
+ * Working directory.
+ *
+ * @returns
+ * Result.
+ *
+ * @throws Error
+ * If the tool isn't installed or can't be run.
+ */
+async function runTool(diagramTool: DiagramTool, text: string, cwd: string): Promise<ToolResult> {
+    // eslint-disable-next-line promise/avoid-new -- Promise required to wait for process to complete.
+    return new Promise((resolve, reject) => {
+        const childProcess = child_process.spawn(diagramTool.command, diagramTool.args ?? [], {
+            cwd,
+            stdio: ["pipe", "pipe", "pipe"]
+        });
+
+        const stdoutChunks: Buffer[] = [];
+        const stderrChunks: Buffer[] = [];
+
+        childProcess.stdout.on("data", (chunk: Buffer) => {
+            stdoutChunks.push(chunk);
+        });
+
+        childProcess.stderr.on("data", (chunk: Buffer) => {
+            stderrChunks.push(chunk);
+        });
+
+        childProcess.on("error", (e: NodeJS.ErrnoException) => {
+            reject(new Error(e.code === "ENOENT" ?
+                `Diagram tool ${diagramTool.command} for ${diagramTool.language} diagrams not found; install it or configure its command through diagramTools` :
+                `Diagram tool ${diagramTool.command} for ${diagramTool.language} diagrams can't be run: ${e.message}`));
+        });
+
+        childProcess.on("close", (status) => {
+            resolve({
+                status,
+                stdout: Buffer.concat(stdoutChunks),
+                stderr: Buffer.concat(stderrChunks).toString()
+            });
+        });
+
+        // Tool may exit on an error before reading all of its input; the error is reported through its exit status.
+        childProcess.stdin.on("error", () => {
+            // Ignore.
+        });
+
+        childProcess.stdin.end(text);
+    });
+}
+
+/**
+ * Render diagrams to SVG with a locally installed tool. Diagrams are rendered one at a time, as some tools (e.g.,
+ * PlantUML) are memory-intensive. Each diagram is replaced by an image embedded as a data URI. PlantUML diagrams
+ * without "@start" and "@end" lines are wrapped in "@startuml" and "@enduml".
+ *
+ * @param codeBlocks
+ * Code blocks of the diagrams.
+ *
+ * @param diagramTool
+ * Diagram tool.
+ *
+ * @param cwd
+ * Working directory of the tool, against which any files referenced by the diagrams are resolved.
+ *
+ * @param errorHandler
+ * Handler for diagrams that fail to render, such as those with syntax errors.
+ *
+ * @returns
+ * Blocks replacing the code blocks, one for one and in the same order, or undefined for those that failed to render.
+ *
+ * @throws Error
+ * If the tool isn't installed or can't be run.
+ */
+export async function renderToolDiagrams(codeBlocks: readonly Element[], diagramTool: DiagramTool, cwd: string, errorHandler: DiagramErrorHandler): Promise<Array<Element | undefined>> {
+    const blocks: Array<Element | undefined> = [];
+
+    for (const codeBlock of codeBlocks) {
+        const text = codeBlockText(codeBlock);
+
+        const wrapped = diagramTool.language === "plantuml" && !text.trimStart().startsWith("@start");
+
+        const result = await runTool(diagramTool, wrapped ? `@startuml\n${text}\n@enduml\n` : text, cwd);
+
+        const svg = result.stdout.toString();
+
+        // PlantUML writes an image of the error to standard output, so the error on standard error is also checked.
+        if (result.status === 0 && svg.includes("<svg") && !result.stderr.startsWith("ERROR")) {
+            blocks.push(diagramBlock(codeBlock, diagramTool.language, `data:image/svg+xml;base64,${result.stdout.toString("base64")}`));
+        } else {
+            const messageLines = result.stderr.split("\n").map(messageLine => messageLine.trim()).filter(messageLine => messageLine !== "");
+
+            let message: string;
+            let line: number | undefined;
+
+            if (messageLines[0] === "ERROR" && messageLines.length > 1 && /^\d+$/.test(messageLines[1])) {
+                // PlantUML reports "ERROR", the line (starting at 0 with the "@startuml" line), and the message on separate lines.
+                message = messageLines.slice(2).join(" ");
+                line = Number(messageLines[1]) + (wrapped ? 0 : 1);
+            } else {
+                message = messageLines.join(" ");
+
+                // Graphviz identifies the line, e.g., "syntax error in line 3".
+                const lineMatch = /\bline (\d+)/.exec(message);
+
+                line = lineMatch !== null ? Number(lineMatch[1]) : undefined;
+            }
+
+            errorHandler(codeBlock, message !== "" ? message : `${diagramTool.command} exited with status ${result.status ?? "null"}`, line);
+
+            blocks.push(undefined);
+        }
+    }
+
+    return blocks;
+}
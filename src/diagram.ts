@@ -0,0 +1,223 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { codeBlockClasses, type Document, type Element, elementAttributes, mapElements } from "./ast.js";
+import { Cache } from "./cache.js";
+
+/**
+ * Diagram renderer. Renders code blocks into the blocks that replace them, one for one and in the same order; a code
+ * block that fails to render is left in place by returning undefined for it.
+ */
+export type DiagramRenderer = (codeBlocks: Element[]) => Promise<Array<Element | undefined>>;
+
+/**
+ * Diagram error handler.
+ *
+ * @param codeBlock
+ * Code block of the diagram.
+ *
+ * @param message
+ * Error message.
+ *
+ * @param line
+ * Line within the diagram, starting at 1, or undefined if not known.
+ */
+export type DiagramErrorHandler = (codeBlock: Element, message: string, line: number | undefined) => void;
+
+/**
+ * Location of a diagram in an input file.
+ */
+export interface DiagramLocation {
+    /**
+     * Input file, relative to the input directory.
+     */
+    file: string;
+
+    /**
+     * Line of the first line of the diagram, starting at 1.
+     */
+    line: number;
+}
+
+/**
+ * Locate a diagram in the input files, for error reporting. The JSON AST doesn't record source positions, so the
+ * diagram text is searched for; a diagram in an included file isn't found.
+ *
+ * @param text
+ * Diagram text.
+ *
+ * @param inputFiles
+ * Input files, relative to the input directory.
+ *
+ * @param inputDirectory
+ * Input directory.
+ *
+ * @returns
+ * Location of the first occurrence of the diagram or undefined if not found.
+ */
+export function locateDiagram(text: string, inputFiles: readonly string[], inputDirectory: string): DiagramLocation | undefined {
+    let location: DiagramLocation | undefined = undefined;
+
+    if (text !== "") {
+        for (const file of inputFiles) {
+            const absoluteFile = path.resolve(inputDirectory, file);
+
+            // Pandoc normalizes line endings.
+            const content = fs.existsSync(absoluteFile) ? fs.readFileSync(absoluteFile).toString().replace(/\r\n?/g, "\n") : "";
+            const index = content.indexOf(text);
+
+            if (index !== -1) {
+                location = {
+                    file,
+                    line: content.substring(0, index).split("\n").length
+                };
+                break;
+            }
+        }
+    }
+
+    return location;
+}
+
+/**
+ * Convert plain text to inlines.
+ *
+ * @param text
+ * Text.
+ *
+ * @returns
+ * Inlines.
+ */
+function textInlines(text: string): Element[] {
+    return text.split(/\s+/).filter(word => word !== "").flatMap((word, index) => [
+        ...index !== 0 ?
+            [{
+                t: "Space"
+            }] :
+            [],
+        {
+            t: "Str",
+            c: word
+        }
+    ]);
+}
+
+/**
+ * Build the block that replaces a rendered diagram: a paragraph with an image that keeps the identifier, the classes
+ * other than the diagram class, and the attributes of the code block; a "caption" attribute becomes the alternative
+ * text.
+ *
+ * @param codeBlock
+ * Code block of the diagram.
+ *
+ * @param className
+ * Class name identifying diagram code blocks.
+ *
+ * @param url
+ * Image URL, typically a data URI.
+ *
+ * @returns
+ * Block.
+ */
+export function diagramBlock(codeBlock: Element, className: string, url: string): Element {
+    const [identifier, classes, keyValuePairs] = elementAttributes(codeBlock) ?? ["", [], []];
+
+    const caption = keyValuePairs.find(([key]) => key === "caption")?.[1] ?? "";
+
+    return {
+        t: "Para",
+        c: [{
+            t: "Image",
+            c: [
+                [identifier, classes.filter(classValue => classValue !== className), keyValuePairs.filter(([key]) => key !== "caption")],
+                textInlines(caption),
+                [url, ""]
+            ]
+        }]
+    };
+}
+
+/**
+ * Render the diagrams in a document, reusing cached renderings of diagrams that haven't changed. Diagrams that fail to
+ * render aren't cached, so that they're rendered, and their failures reported, again.
+ *
+ * @param document
+ * Document.
+ *
+ * @param className
+ * Class name identifying diagram code blocks.
+ *
+ * @param cache
+ * Cache or undefined if not caching.
+ *
+ * @param cacheKeyComponents
+ * Additional cache key components, e.g., rendering options.
+ *
+ * @param renderer
+ * Renderer, called once with all diagrams not found in the cache, if any.
+ *
+ * @returns
+ * Document with diagrams rendered.
+ */
+export async function renderDiagrams(document: Document, className: string, cache: Cache | undefined, cacheKeyComponents: readonly string[], renderer: DiagramRenderer): Promise<Document> {
+    const renderedBlocks = new Map<string, Element>();
+    const uncachedCodeBlocks = new Map<string, Element>();
+
+    mapElements(document.blocks, (element) => {
+        if (element.t === "CodeBlock" && codeBlockClasses(element).includes(className)) {
+            const key = Cache.key(className, ...cacheKeyComponents, JSON.stringify(element));
+
+            if (!renderedBlocks.has(key) && !uncachedCodeBlocks.has(key)) {
+                const data = cache?.get(key);
+
+                if (data !== undefined) {
+                    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Cached data is a serialized element.
+                    renderedBlocks.set(key, JSON.parse(data.toString()) as Element);
+                } else {
+                    uncachedCodeBlocks.set(key, element);
+                }
+            }
+        }
+
+        return undefined;
+    });
+
+    if (uncachedCodeBlocks.size !== 0) {
+        const blocks = await renderer([...uncachedCodeBlocks.values()]);
+
+        if (blocks.length !== uncachedCodeBlocks.size) {
+            throw new Error(`Diagram renderer returned ${blocks.length} blocks for ${uncachedCodeBlocks.size} ${className} diagrams`);
+        }
+
+        [...uncachedCodeBlocks.keys()].forEach((key, index) => {
+            const block = blocks[index];
+
+            if (block !== undefined) {
+                cache?.set(key, JSON.stringify(block));
+                renderedBlocks.set(key, block);
+            }
+        });
+    }
+
+    return renderedBlocks.size === 0 ?
+        document :
+        {
+            ...document,
+            blocks: mapElements(document.blocks, element => element.t === "CodeBlock" && codeBlockClasses(element).includes(className) ? renderedBlocks.get(Cache.key(className, ...cacheKeyComponents, JSON.stringify(element))) : undefined)
+        };
+}
@@ -0,0 +1,612 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type Document, type Element, elementAttributes, mapElements, stringify } from "./ast.js";
+import { anchorOf, buildAnchorIndex } from "./cross-reference.js";
+
+/**
+ * Class of inserted content.
+ */
+const INSERTED_CLASS = "diff-inserted";
+
+/**
+ * Class of deleted content.
+ */
+const DELETED_CLASS = "diff-deleted";
+
+/**
+ * Class of the summary of changed sections.
+ */
+const SUMMARY_CLASS = "diff-summary";
+
+/**
+ * Block types whose content is inline elements, as the content or as the last item of the content, and which are
+ * therefore compared word by word.
+ */
+const INLINE_BLOCK_TYPES = ["Para", "Plain", "Header"];
+
+/**
+ * Edit in a sequence diff.
+ */
+type Edit = {
+    /**
+     * Item is in both sequences.
+     */
+    type: "equal";
+
+    /**
+     * Index in the new sequence.
+     */
+    newIndex: number;
+} | {
+    /**
+     * Item is only in the old sequence.
+     */
+    type: "delete";
+
+    /**
+     * Index in the old sequence.
+     */
+    oldIndex: number;
+} | {
+    /**
+     * Item is only in the new sequence.
+     */
+    type: "insert";
+
+    /**
+     * Index in the new sequence.
+     */
+    newIndex: number;
+};
+
+/**
+ * Section in which changes were found.
+ */
+interface ChangedSection {
+    /**
+     * Heading identifier or undefined if the changes precede the first heading or the section was deleted.
+     */
+    id: string | undefined;
+
+    /**
+     * Heading text.
+     */
+    title: string;
+
+    /**
+     * If true, the section heading was deleted.
+     */
+    deleted: boolean;
+}
+
+/**
+ * Diff two sequences by their keys, as the edits that transform the old sequence into the new one. Deletions precede
+ * insertions within each run of changes.
+ *
+ * @param oldKeys
+ * Keys of the old sequence.
+ *
+ * @param newKeys
+ * Keys of the new sequence.
+ *
+ * @returns
+ * Edits.
+ */
+function diffSequences(oldKeys: readonly string[], newKeys: readonly string[]): Edit[] {
+    // Common prefix and suffix are trimmed so that the longest common subsequence table covers only the changes.
+    let prefixLength = 0;
+
+    while (prefixLength < oldKeys.length && prefixLength < newKeys.length && oldKeys[prefixLength] === newKeys[prefixLength]) {
+        prefixLength++;
+    }
+
+    let suffixLength = 0;
+
+    while (suffixLength < oldKeys.length - prefixLength && suffixLength < newKeys.length - prefixLength && oldKeys[oldKeys.length - 1 - suffixLength] === newKeys[newKeys.length - 1 - suffixLength]) {
+        suffixLength++;
+    }
+
+    const oldLength = oldKeys.length - prefixLength - suffixLength;
+    const newLength = newKeys.length - prefixLength - suffixLength;
+
+    // Length of the longest common subsequence of the old and new items from each position onward.
+    const lengths = new Uint32Array((oldLength + 1) * (newLength + 1));
+    const lengthIndex = (oldIndex: number, newIndex: number): number => oldIndex * (newLength + 1) + newIndex;
+
+    for (let oldIndex = oldLength - 1; oldIndex >= 0; oldIndex--) {
+        for (let newIndex = newLength - 1; newIndex >= 0; newIndex--) {
+            lengths[lengthIndex(oldIndex, newIndex)] = oldKeys[prefixLength + oldIndex] === newKeys[prefixLength + newIndex] ?
+                lengths[lengthIndex(oldIndex + 1, newIndex + 1)] + 1 :
+                Math.max(lengths[lengthIndex(oldIndex + 1, newIndex)], lengths[lengthIndex(oldIndex, newIndex + 1)]);
+        }
+    }
+
+    const edits: Edit[] = [];
+
+    for (let index = 0; index < prefixLength; index++) {
+        edits.push({
+            type: "equal",
+            newIndex: index
+        });
+    }
+
+    const deletes: Edit[] = [];
+    const inserts: Edit[] = [];
+
+    // Deletions and insertions are held until the next equal item so that they're grouped.
+    const flush = (): void => {
+        edits.push(...deletes, ...inserts);
+        deletes.length = 0;
+        inserts.length = 0;
+    };
+
+    let oldIndex = 0;
+    let newIndex = 0;
+
+    while (oldIndex < oldLength || newIndex < newLength) {
+        if (oldIndex < oldLength && newIndex < newLength && oldKeys[prefixLength + oldIndex] === newKeys[prefixLength + newIndex]) {
+            flush();
+
+            edits.push({
+                type: "equal",
+                newIndex: prefixLength + newIndex
+            });
+
+            oldIndex++;
+            newIndex++;
+        } else if (newIndex === newLength || (oldIndex < oldLength && lengths[lengthIndex(oldIndex + 1, newIndex)] >= lengths[lengthIndex(oldIndex, newIndex + 1)])) {
+            deletes.push({
+                type: "delete",
+                oldIndex: prefixLength + oldIndex
+            });
+
+            oldIndex++;
+        } else {
+            inserts.push({
+                type: "insert",
+                newIndex: prefixLength + newIndex
+            });
+
+            newIndex++;
+        }
+    }
+
+    flush();
+
+    for (let index = newKeys.length - suffixLength; index < newKeys.length; index++) {
+        edits.push({
+            type: "equal",
+            newIndex: index
+        });
+    }
+
+    return edits;
+}
+
+/**
+ * Get a key by which to compare elements.
+ *
+ * @param value
+ * Element or other value.
+ *
+ * @returns
+ * Key.
+ */
+function elementKey(value: unknown): string {
+    return JSON.stringify(value);
+}
+
+/**
+ * Wrap inline elements in a span with a class.
+ *
+ * @param inlines
+ * Inline elements.
+ *
+ * @param className
+ * Class name.
+ *
+ * @returns
+ * Span.
+ */
+function classSpan(inlines: readonly Element[], className: string): Element {
+    return {
+        t: "Span",
+        c: [["", [className], []], inlines]
+    };
+}
+
+/**
+ * Add classes to the attributes of an element that has them.
+ *
+ * @param element
+ * Element.
+ *
+ * @param classNames
+ * Class names.
+ *
+ * @param removeIdentifier
+ * If true, the identifier is removed.
+ *
+ * @returns
+ * Element with the classes added.
+ */
+function withClasses(element: Element, classNames: readonly string[], removeIdentifier: boolean): Element {
+    const attributes = elementAttributes(element);
+    const content = element.c;
+
+    let result = element;
+
+    if (attributes !== undefined && Array.isArray(content)) {
+        const [identifier, classes, keyValuePairs] = attributes;
+
+        result = {
+            t: element.t,
+            c: content.map((item: unknown) => item === attributes ? [removeIdentifier ? "" : identifier, [...classes, ...classNames.filter(className => !classes.includes(className))], keyValuePairs] : item)
+        };
+    }
+
+    return result;
+}
+
+/**
+ * Get the inline elements of a block whose content is inline elements.
+ *
+ * @param block
+ * Block.
+ *
+ * @returns
+ * Inline elements.
+ */
+function blockInlines(block: Element): Element[] {
+    const content = block.c;
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Inline block content is known.
+    return (block.t === "Header" && Array.isArray(content) ? content[2] : content) as Element[];
+}
+
+/**
+ * Determine if an old block can be shown as changed into a new block word by word.
+ *
+ * @param oldBlock
+ * Old block.
+ *
+ * @param newBlock
+ * New block.
+ *
+ * @returns
+ * True if the blocks are of the same type with inline content and, for headings, of the same level.
+ */
+function isComparable(oldBlock: Element, newBlock: Element): boolean {
+    return oldBlock.t === newBlock.t && INLINE_BLOCK_TYPES.includes(newBlock.t) && (newBlock.t !== "Header" || (Array.isArray(oldBlock.c) && Array.isArray(newBlock.c) && oldBlock.c[0] === newBlock.c[0]));
+}
+
+/**
+ * Mark the word by word changes from an old block to a new block of the same type.
+ *
+ * @param oldBlock
+ * Old block.
+ *
+ * @param newBlock
+ * New block.
+ *
+ * @returns
+ * New block with deleted inline elements restored in deleted spans and inserted inline elements in inserted spans.
+ */
+function diffInlineBlock(oldBlock: Element, newBlock: Element): Element {
+    const oldInlines = blockInlines(oldBlock);
+    const newInlines = blockInlines(newBlock);
+
+    const inlines: Element[] = [];
+
+    let deleted: Element[] = [];
+    let inserted: Element[] = [];
+
+    // Runs of deleted and inserted inline elements are wrapped as a whole.
+    const flush = (): void => {
+        if (deleted.length !== 0) {
+            inlines.push(classSpan(removeIdentifiers(deleted), DELETED_CLASS));
+            deleted = [];
+        }
+
+        if (inserted.length !== 0) {
+            inlines.push(classSpan(inserted, INSERTED_CLASS));
+            inserted = [];
+        }
+    };
+
+    for (const edit of diffSequences(oldInlines.map(elementKey), newInlines.map(elementKey))) {
+        switch (edit.type) {
+            case "equal":
+                flush();
+                inlines.push(newInlines[edit.newIndex]);
+                break;
+
+            case "delete":
+                deleted.push(oldInlines[edit.oldIndex]);
+                break;
+
+            case "insert":
+                inserted.push(newInlines[edit.newIndex]);
+                break;
+        }
+    }
+
+    flush();
+
+    return {
+        t: newBlock.t,
+        c: newBlock.t === "Header" && Array.isArray(newBlock.c) ? [newBlock.c[0], newBlock.c[1], inlines] : inlines
+    };
+}
+
+/**
+ * Remove identifiers from deleted content, so that they don't duplicate those of the new content.
+ *
+ * @param value
+ * Value.
+ *
+ * @returns
+ * Value without identifiers.
+ */
+function removeIdentifiers<T>(value: T): T {
+    return mapElements(value, (element) => {
+        const attributes = elementAttributes(element);
+
+        let replacement: Element | undefined = undefined;
+
+        if (attributes !== undefined && attributes[0] !== "") {
+            const withoutIdentifier = withClasses(element, [], true);
+
+            // Replacement isn't traversed by the mapper, so its content is handled here.
+            replacement = {
+                t: withoutIdentifier.t,
+                c: removeIdentifiers(withoutIdentifier.c)
+            };
+        }
+
+        return replacement;
+    });
+}
+
+/**
+ * Mark a block as deleted. Headings are marked in place and neither numbered nor listed; other blocks are wrapped in
+ * a deleted div.
+ *
+ * @param block
+ * Block.
+ *
+ * @returns
+ * Deleted block.
+ */
+function deletedBlock(block: Element): Element {
+    return block.t === "Header" && Array.isArray(block.c) ?
+        withClasses({
+            t: "Header",
+            c: [block.c[0], block.c[1], [classSpan(removeIdentifiers(blockInlines(block)), DELETED_CLASS)]]
+        }, [DELETED_CLASS, "unnumbered", "unlisted"], true) :
+        {
+            t: "Div",
+            c: [["", [DELETED_CLASS], []], [removeIdentifiers(block)]]
+        };
+}
+
+/**
+ * Mark a block as inserted. Headings are marked in place, so that they remain in the table of contents; other blocks
+ * are wrapped in an inserted div.
+ *
+ * @param block
+ * Block.
+ *
+ * @returns
+ * Inserted block.
+ */
+function insertedBlock(block: Element): Element {
+    return block.t === "Header" ?
+        withClasses(block, [INSERTED_CLASS], false) :
+        {
+            t: "Div",
+            c: [["", [INSERTED_CLASS], []], [block]]
+        };
+}
+
+/**
+ * Build the summary of changed sections.
+ *
+ * @param changedSections
+ * Changed sections.
+ *
+ * @param document
+ * Marked document, for the section numbers.
+ *
+ * @param baseLabel
+ * Label of the base version.
+ *
+ * @returns
+ * Summary div.
+ */
+function summary(changedSections: readonly ChangedSection[], document: Document, baseLabel: string): Element {
+    const anchorIndex = buildAnchorIndex(document, "", "", true);
+
+    const str = (text: string): Element => ({
+        t: "Str",
+        c: text
+    });
+
+    return {
+        t: "Div",
+        c: [["", [SUMMARY_CLASS], []], [{
+            t: "Para",
+            c: [{
+                t: "Strong",
+                c: [str(`Changes from ${baseLabel}`)]
+            }]
+        }, changedSections.length !== 0 ?
+            {
+                t: "BulletList",
+                c: changedSections.map((changedSection) => {
+                    const anchor = changedSection.id !== undefined ? anchorOf(anchorIndex, changedSection.id) : undefined;
+                    const title = [str(`${anchor?.number !== undefined ? `${anchor.number} ` : ""}${changedSection.title}`)];
+
+                    return [{
+                        t: "Plain",
+                        c: changedSection.id !== undefined ?
+                            [{
+                                t: "Link",
+                                c: [["", [], []], title, [`#${changedSection.id}`, ""]]
+                            }] :
+                            [changedSection.deleted ? classSpan(title, DELETED_CLASS) : title[0]]
+                    }];
+                })
+            } :
+            {
+                t: "Para",
+                c: [str("No changes.")]
+            }]]
+    };
+}
+
+/**
+ * Mark the changes from an old document to a new document: inserted and deleted blocks are wrapped in divs with the
+ * "diff-inserted" and "diff-deleted" classes, and blocks of the same type with inline content that changed are shown
+ * word by word, with inserted and deleted inline elements wrapped in spans with the same classes. Deleted content
+ * loses its identifiers and deleted headings are neither numbered nor listed. A summary of the changed sections, in a
+ * div with the "diff-summary" class, precedes the content.
+ *
+ * @param oldDocument
+ * Old document.
+ *
+ * @param newDocument
+ * New document, whose metadata is kept.
+ *
+ * @param baseLabel
+ * Label of the old document's version, for the summary.
+ *
+ * @returns
+ * Marked document.
+ */
+export function diffDocuments(oldDocument: Document, newDocument: Document, baseLabel: string): Document {
+    const oldBlocks = oldDocument.blocks;
+    const newBlocks = newDocument.blocks;
+
+    const blocks: Element[] = [];
+    const changedSections: ChangedSection[] = [];
+
+    let section: ChangedSection = {
+        id: undefined,
+        title: "Content before the first section",
+        deleted: false
+    };
+
+    let isSectionChanged = false;
+
+    // Title of a heading changed word by word is taken from the new heading, without the deleted words.
+    const add = (block: Element, isChanged: boolean, isDeleted: boolean, titleBlock: Element = block): void => {
+        if (block.t === "Header") {
+            const attributes = elementAttributes(block);
+
+            section = {
+                id: !isDeleted && attributes !== undefined && attributes[0] !== "" ? attributes[0] : undefined,
+                title: stringify(blockInlines(titleBlock)),
+                deleted: isDeleted
+            };
+
+            isSectionChanged = false;
+        }
+
+        if (isChanged && !isSectionChanged) {
+            changedSections.push(section);
+            isSectionChanged = true;
+        }
+
+        blocks.push(block);
+    };
+
+    let deletes: Element[] = [];
+    let inserts: Element[] = [];
+
+    // Deleted and inserted blocks in the same run of changes are paired in order where comparable; blocks between
+    // pairs are added with deletions first, so that deleted sections and their content stay together.
+    const flush = (): void => {
+        let deletedBlocks: Element[] = [];
+        let insertedBlocks: Element[] = [];
+
+        const flushUnpaired = (): void => {
+            for (const oldBlock of deletedBlocks) {
+                add(deletedBlock(oldBlock), true, true);
+            }
+
+            for (const newBlock of insertedBlocks) {
+                add(insertedBlock(newBlock), true, false);
+            }
+
+            deletedBlocks = [];
+            insertedBlocks = [];
+        };
+
+        for (let index = 0; index < Math.max(deletes.length, inserts.length); index++) {
+            const oldBlock = index < deletes.length ? deletes[index] : undefined;
+            const newBlock = index < inserts.length ? inserts[index] : undefined;
+
+            if (oldBlock !== undefined && newBlock !== undefined && isComparable(oldBlock, newBlock)) {
+                flushUnpaired();
+                add(diffInlineBlock(oldBlock, newBlock), true, false, newBlock);
+            } else {
+                if (oldBlock !== undefined) {
+                    deletedBlocks.push(oldBlock);
+                }
+
+                if (newBlock !== undefined) {
+                    insertedBlocks.push(newBlock);
+                }
+            }
+        }
+
+        flushUnpaired();
+
+        deletes = [];
+        inserts = [];
+    };
+
+    for (const edit of diffSequences(oldBlocks.map(elementKey), newBlocks.map(elementKey))) {
+        switch (edit.type) {
+            case "equal":
+                flush();
+                add(newBlocks[edit.newIndex], false, false);
+                break;
+
+            case "delete":
+                deletes.push(oldBlocks[edit.oldIndex]);
+                break;
+
+            case "insert":
+                inserts.push(newBlocks[edit.newIndex]);
+                break;
+        }
+    }
+
+    flush();
+
+    const document: Document = {
+        ...newDocument,
+        blocks
+    };
+
+    return {
+        ...document,
+        blocks: [summary(changedSections, document, baseLabel), ...blocks]
+    };
+}
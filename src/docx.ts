@@ -0,0 +1,103 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type Document, type Element, mapElements } from "./ast.js";
+import type { Style } from "./options.js";
+
+/**
+ * Attribute from which Pandoc's DOCX writer takes the custom style of a div (paragraph style) or span (character
+ * style).
+ */
+const CUSTOM_STYLE_ATTRIBUTE = "custom-style";
+
+/**
+ * Template components that enclose the document content, innermost first. The document content takes the Word custom
+ * style of the innermost component that has a style.
+ */
+const CONTENT_COMPONENTS = ["content", "body", "container"];
+
+/**
+ * Get the Word custom style of a class name. Word style names may contain spaces, so multiple class names are joined
+ * as is.
+ *
+ * @param className
+ * Class name.
+ *
+ * @returns
+ * Word custom style.
+ */
+function customStyle(className: string): string {
+    return className.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Map styles onto Word custom styles. The document content takes the custom style of the "content", "body", or
+ * "container" style, in that order of precedence, and divs and spans with a class matching a style name take the
+ * custom style of that style, unless they already have one. Styles not defined in the reference document are defined
+ * by Pandoc as based on the default style.
+ *
+ * @param document
+ * Document.
+ *
+ * @param styles
+ * Styles.
+ *
+ * @returns
+ * Document with Word custom styles.
+ */
+export function applyWordStyles(document: Document, styles: readonly Style[]): Document {
+    const customStyles = new Map(styles.map(style => [style.name, customStyle(style.className)]));
+
+    const mapper = (element: Element): Element | undefined => {
+        let replacement: Element | undefined = undefined;
+
+        // Div and span content is [attributes, content].
+        const content = element.c;
+
+        if ((element.t === "Div" || element.t === "Span") && Array.isArray(content) && Array.isArray(content[0])) {
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Pandoc attributes format is known.
+            const [identifier, classes, keyValuePairs] = content[0] as [string, string[], Array<[string, string]>];
+
+            const className = !keyValuePairs.some(([key]) => key === CUSTOM_STYLE_ATTRIBUTE) ? classes.find(className => customStyles.has(className)) : undefined;
+
+            if (className !== undefined) {
+                replacement = {
+                    t: element.t,
+                    c: [
+                        [identifier, classes, [...keyValuePairs, [CUSTOM_STYLE_ATTRIBUTE, customStyles.get(className)]]],
+                        mapElements<unknown>(content[1], mapper)
+                    ]
+                };
+            }
+        }
+
+        return replacement;
+    };
+
+    const blocks = mapElements(document.blocks, mapper);
+
+    const contentStyle = CONTENT_COMPONENTS.map(component => customStyles.get(component)).find(style => style !== undefined);
+
+    return {
+        ...document,
+        blocks: contentStyle !== undefined ?
+            [{
+                t: "Div",
+                c: [["", [], [[CUSTOM_STYLE_ATTRIBUTE, contentStyle]]], blocks]
+            }] :
+            blocks
+    };
+}
@@ -18,8 +18,9 @@
 
 import decamelize from "decamelize";
 import meow, { type Flag, type FlagType } from "meow";
-import type { AdditionalOption, Filter, Options, Style, Variable } from "./options.js";
-import { PandocSpec } from "./pandoc-spec.js";
+import type { AdditionalOption, DiagramTool, Diff, Filter, Mermaid, Options, Output, PDF, Serve, SpecReference, Style, Variable } from "./options.js";
+import { pandocSpec } from "./pandoc-spec.js";
+import { pandocSpecWorkspace } from "./workspace.js";
 
 /**
  * Extended CLI flag.
@@ -75,12 +76,21 @@ function filterParseMapper(components: string[]): Filter {
 
         case 2:
             filter = {
-                // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Let Pandoc handle invalid type.
-                type: components[0] as "lua" | "json",
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Filter type is validated against the options schema.
+                type: components[0] as NonNullable<Filter["type"]>,
                 path: components[1]
             };
             break;
 
+        case 3:
+            filter = {
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Filter type is validated against the options schema.
+                type: components[0] as NonNullable<Filter["type"]>,
+                path: components[1],
+                formats: components[2].split(",").filter(format => format !== "")
+            };
+            break;
+
         default: {
             throw new Error(`Invalid filter: ${components.join(":")}`);
         }
@@ -89,6 +99,78 @@ function filterParseMapper(components: string[]): Filter {
     return filter;
 }
 
+/**
+ * Mermaid parse mapper.
+ *
+ * @param components
+ * Components.
+ *
+ * @returns
+ * Mermaid diagram rendering.
+ */
+function mermaidParseMapper(components: string[]): Mermaid {
+    let mermaid: Mermaid;
+
+    switch (components.length) {
+        case 1:
+            mermaid = {
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Format is validated against the options schema.
+                format: components[0] as NonNullable<Mermaid["format"]>
+            };
+            break;
+
+        case 2:
+            mermaid = {
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Format is validated against the options schema.
+                format: components[0] as NonNullable<Mermaid["format"]>,
+                theme: components[1]
+            };
+            break;
+
+        default: {
+            throw new Error(`Invalid Mermaid diagram rendering: ${components.join(":")}`);
+        }
+    }
+
+    return mermaid;
+}
+
+/**
+ * Diagram tool parse mapper.
+ *
+ * @param components
+ * Components.
+ *
+ * @returns
+ * Diagram tool.
+ */
+function diagramToolParseMapper(components: string[]): DiagramTool {
+    let diagramTool: DiagramTool;
+
+    switch (components.length) {
+        case 2:
+            diagramTool = {
+                language: components[0],
+                command: components[1]
+            };
+            break;
+
+        case 3:
+            diagramTool = {
+                language: components[0],
+                command: components[1],
+                args: components[2].split(",").filter(arg => arg !== "")
+            };
+            break;
+
+        default: {
+            throw new Error(`Invalid diagram tool: ${components.join(":")}`);
+        }
+    }
+
+    return diagramTool;
+}
+
 /**
  * Variable parse mapper.
  *
@@ -151,6 +233,165 @@ function styleParseMapper(components: string[]): Style {
     return style;
 }
 
+/**
+ * Specification reference parse mapper.
+ *
+ * @param components
+ * Components.
+ *
+ * @returns
+ * Specification reference.
+ */
+function specReferenceParseMapper(components: string[]): SpecReference {
+    if (components.length < 2) {
+        throw new Error(`Invalid specification reference: ${components.join(":")}`);
+    }
+
+    // Path may contain ':' (e.g., a Windows drive letter).
+    return {
+        name: components[0],
+        indexFile: components.slice(1).join(":")
+    };
+}
+
+/**
+ * Diff parse mapper.
+ *
+ * @param components
+ * Components.
+ *
+ * @returns
+ * Diff.
+ */
+function diffParseMapper(components: string[]): Diff {
+    let diff: Diff;
+
+    if (components.length === 1) {
+        diff = {
+            baseRef: components[0]
+        };
+    } else if (components.length === 2 && components[0] === "ref") {
+        diff = {
+            baseRef: components[1]
+        };
+    } else if (components[0] === "file") {
+        // Path may contain ':' (e.g., a Windows drive letter).
+        diff = {
+            baseFile: components.slice(1).join(":")
+        };
+    } else {
+        throw new Error(`Invalid diff: ${components.join(":")}`);
+    }
+
+    return diff;
+}
+
+/**
+ * PDF parse mapper.
+ *
+ * @param components
+ * Components.
+ *
+ * @returns
+ * PDF page layout.
+ */
+function pdfParseMapper(components: string[]): PDF {
+    let pdf: PDF;
+
+    switch (components.length) {
+        case 1:
+            pdf = {
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Page size is validated against the options schema.
+                pageSize: components[0] as NonNullable<PDF["pageSize"]>
+            };
+            break;
+
+        case 2:
+            pdf = {
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Page size is validated against the options schema.
+                pageSize: components[0] as NonNullable<PDF["pageSize"]>,
+                margins: {
+                    top: components[1],
+                    right: components[1],
+                    bottom: components[1],
+                    left: components[1]
+                }
+            };
+            break;
+
+        default: {
+            throw new Error(`Invalid PDF page layout: ${components.join(":")}`);
+        }
+    }
+
+    return pdf;
+}
+
+/**
+ * Output parse mapper.
+ *
+ * @param components
+ * Components.
+ *
+ * @returns
+ * Output.
+ */
+function outputParseMapper(components: string[]): Output {
+    let output: Output;
+
+    // Output file may itself contain ":", e.g., after a Windows drive letter, so only the first ":" separates the format.
+    if (components.length === 1 || (/^[A-Za-z]$/.test(components[0]) && /^[/\\]/.test(components[1]))) {
+        output = {
+            outputFile: components.join(":")
+        };
+    } else {
+        output = {
+            outputFormat: components[0],
+            outputFile: components.slice(1).join(":")
+        };
+    }
+
+    return output;
+}
+
+/**
+ * Serve parse mapper.
+ *
+ * @param components
+ * Components.
+ *
+ * @returns
+ * Serve.
+ */
+function serveParseMapper(components: string[]): Serve {
+    let serve: Serve;
+
+    switch (components.length) {
+        case 1:
+            serve = {
+                port: Number(components[0])
+            };
+            break;
+
+        case 2:
+            serve = {
+                host: components[0],
+                port: Number(components[1])
+            };
+            break;
+
+        default: {
+            throw new Error(`Invalid serve: ${components.join(":")}`);
+        }
+    }
+
+    if (serve.port === undefined || !Number.isInteger(serve.port)) {
+        throw new Error(`Invalid serve port: ${components.join(":")}`);
+    }
+
+    return serve;
+}
+
 /**
  * Additional option parse mapper.
  *
@@ -172,13 +413,18 @@ function additionalOptionParseMapper(components: string[]): AdditionalOption {
 }
 
 /**
- * Extended flags. Using a `Record` type ensures that all {@link Option} properties are available; adding or deleting a
- * property without updating this object will cause a compilation error.
+ * Extended flags. Using a `Record` type ensures that all {@link Option} properties (other than `$schema`, `extends`, and
+ * `profiles`, which apply only to options files) are available; adding or deleting a property without updating this
+ * object will cause a compilation error.
  */
-const extendedFlags: Record<keyof Options, AnyExtendedFlag> = {
+const extendedFlags: Record<Exclude<keyof Options, "$schema" | "extends" | "profiles">, AnyExtendedFlag> = {
     optionsFile: {
         type: "string",
-        description: "Path of options file; default is pandoc-spec.options.json."
+        description: "Path of options file (JSON, YAML, JavaScript, or TypeScript); default is the first of pandoc-spec.options.json, pandoc-spec.options.yaml, pandoc-spec.options.yml, pandoc-spec.config.js, pandoc-spec.config.mjs, or pandoc-spec.config.ts found."
+    },
+    profile: {
+        type: "string",
+        description: "Name of the profile to apply, defined in the options file."
     },
     logLevel: {
         type: "string",
@@ -192,13 +438,17 @@ const extendedFlags: Record<keyof Options, AnyExtendedFlag> = {
         type: "boolean",
         description: "If true, adds a `date` value to the metadata in the format YYYY-MM-DD."
     },
+    autoGitMetadata: {
+        type: "boolean",
+        description: "If true, adds a `git` value to the metadata with the commit, tag, branch, dirty flag, and last commit date of each input file."
+    },
     inputFormat: {
         type: "string",
         description: "Input file format."
     },
     outputFormat: {
         type: "string",
-        description: "Output file format."
+        description: "Output file format; \"pdf\" is printed from the HTML output by headless Chromium."
     },
     shiftHeadingLevelBy: {
         type: "number",
@@ -216,13 +466,29 @@ const extendedFlags: Record<keyof Options, AnyExtendedFlag> = {
         type: "string",
         isMultiple: true,
         cliName: "filter",
-        description: "Filter to be applied to the transformation. Format is [type:]path, where type is \"lua\" or \"json\". If type is not provided, default is \"lua\".",
+        description: "Filter to be applied to the transformation, in the order given. Format is [type:]path or type:path:formats, where type is \"lua\", \"json\", \"module\", or \"builtin\" and formats is a comma-separated list of output formats for which the filter is run. If type is not provided, default is \"lua\".",
         parseMapper: filterParseMapper
     },
+    mermaid: {
+        type: "string",
+        description: "Mermaid diagram rendering as format[:theme], e.g., \"png:dark\", where format is \"svg\" or \"png\".",
+        parseMapper: mermaidParseMapper
+    },
+    diagramTools: {
+        type: "string",
+        isMultiple: true,
+        cliName: "diagramTool",
+        description: "Diagram tool that reads a diagram from stdin and writes SVG to stdout, as language:command[:args], where args is a comma-separated list of arguments, e.g., \"dot:dot:-Tsvg\".",
+        parseMapper: diagramToolParseMapper
+    },
     templateFile: {
         type: "string",
         description: "The Pandoc template to use in generating the output."
     },
+    referenceDocument: {
+        type: "string",
+        description: "The Word reference document from which DOCX outputs take their styles; default is the internal reference document."
+    },
     headerFile: {
         type: "string",
         description: "A header file to apply to the template."
@@ -242,7 +508,7 @@ const extendedFlags: Record<keyof Options, AnyExtendedFlag> = {
         type: "string",
         isMultiple: true,
         cliName: "style",
-        description: "Style of the format key:value to be added to the \"class\" attribute of component in the template file with the matching class.",
+        description: "Style of the format key:value to be added to the \"class\" attribute of component in the template file with the matching class or, in DOCX outputs, applied as a Word custom style.",
         parseMapper: styleParseMapper
     },
     inputDirectory: {
@@ -253,7 +519,17 @@ const extendedFlags: Record<keyof Options, AnyExtendedFlag> = {
         type: "string",
         isMultiple: true,
         cliName: "inputFile",
-        description: "Input file."
+        description: "Input file (may be glob pattern)."
+    },
+    inputOrderFile: {
+        type: "string",
+        description: "Input order file, relative to the input directory, listing input files one per line in the order in which they are read when matched by a glob pattern."
+    },
+    excludeInputFiles: {
+        type: "string",
+        isMultiple: true,
+        cliName: "excludeInputFile",
+        description: "File (may be glob pattern) that isn't an input file, such as a Markdown file included by another input file."
     },
     cssFiles: {
         type: "string",
@@ -279,6 +555,13 @@ const extendedFlags: Record<keyof Options, AnyExtendedFlag> = {
         type: "string",
         description: "The name of the output file."
     },
+    outputs: {
+        type: "string",
+        isMultiple: true,
+        cliName: "output",
+        description: "Additional output of the format [format:]file. Format and all other output properties default to the top-level options.",
+        parseMapper: outputParseMapper
+    },
     additionalReaderOptions: {
         type: "string",
         isMultiple: true,
@@ -293,6 +576,51 @@ const extendedFlags: Record<keyof Options, AnyExtendedFlag> = {
         description: "Additional Pandoc writer options to be added to the Pandoc command line. Format is option[:value].",
         parseMapper: additionalOptionParseMapper
     },
+    offline: {
+        type: "boolean",
+        description: "If true, assets that the default template otherwise loads from a CDN are copied from the package to the output directory and loaded from there."
+    },
+    selfContained: {
+        type: "boolean",
+        description: "If true, HTML outputs are written as single self-contained files, with CSS, scripts, images, and diagrams embedded. Implies offline."
+    },
+    split: {
+        type: "number",
+        description: "If 1 or 2, HTML outputs are split into pages, one per section at or above that heading level, with a shared table of contents and previous and next page navigation."
+    },
+    search: {
+        type: "boolean",
+        description: "If true, a search index of each HTML output is written next to it, and the default template adds a search box."
+    },
+    diff: {
+        type: "string",
+        description: "Base version against which an HTML output marking the changes is written to diff.html: a git ref, as ref or ref:ref, or the path of a previous output, as file:path.",
+        parseMapper: diffParseMapper
+    },
+    pdf: {
+        type: "string",
+        description: "Page layout of PDF outputs as pageSize[:margin], e.g., \"A4:20mm\".",
+        parseMapper: pdfParseMapper
+    },
+    specName: {
+        type: "string",
+        description: "Name under which the specification's anchors are registered for cross-document references; default is the name of the input directory."
+    },
+    anchorIndexFile: {
+        type: "string",
+        description: "The name of the anchor index file, relative to the output directory, to which the anchors in the specification are written."
+    },
+    specReferences: {
+        type: "string",
+        isMultiple: true,
+        cliName: "specReference",
+        description: "Other specification's anchor index file, for resolving cross-document references. Format is name:path.",
+        parseMapper: specReferenceParseMapper
+    },
+    linkCheck: {
+        type: "string",
+        description: "Post-build check of the HTML outputs for dangling fragment links, duplicate IDs, and missing local link and resource targets, one of \"off\", \"warn\" (default), or \"error\"."
+    },
     watch: {
         type: "boolean",
         description: "If true, the input directory is watched for changes and Pandoc is rerun when detected. Ignored if running inside a GitHub Action."
@@ -300,6 +628,29 @@ const extendedFlags: Record<keyof Options, AnyExtendedFlag> = {
     watchWait: {
         type: "number",
         description: "Time in milliseconds to wait for changes to be fully written before rerunning Pandoc."
+    },
+    serve: {
+        type: "string",
+        description: "Serve the output directory over HTTP at [host:]port, reloading HTML pages in the browser when watch mode rebuilds the output. Ignored if running inside a GitHub Action.",
+        parseMapper: serveParseMapper
+    },
+    cache: {
+        type: "boolean",
+        description: "If true, the JSON AST read from the input files and rendered diagrams are cached by content hash so that only changes are processed on subsequent runs. Default is the value of watch."
+    },
+    cacheDirectory: {
+        type: "string",
+        description: "The directory in which cached content is stored; default is .pandoc-spec-cache."
+    }
+};
+
+/**
+ * Command flags, which select what is run rather than setting options.
+ */
+const commandFlags: Record<string, AnyExtendedFlag> = {
+    workspace: {
+        type: "string",
+        description: "Workspace options file. If provided, every project in the workspace is built, with the remaining options applied to each."
     }
 };
 
@@ -339,12 +690,14 @@ export function exec(): void {
         const cliFlags: Record<string, AnyExtendedFlag> = {};
 
         // Construct help text and CLI flags from extended flags.
-        for (const [propertyName, extendedFlag] of Object.entries(extendedFlags)) {
+        for (const [propertyName, extendedFlag] of [...Object.entries(commandFlags), ...Object.entries(extendedFlags)]) {
             // Override property name with CLI name if provided.
             const cliName = extendedFlag.cliName ?? propertyName;
 
-            // Map CLI name back to property name.
-            cliNameMap.set(cliName, propertyName);
+            // Map CLI name back to property name; command flags are not options.
+            if (!(propertyName in commandFlags)) {
+                cliNameMap.set(cliName, propertyName);
+            }
 
             // Get hyphenated CLI name for help text.
             const hyphenatedCLIName = decamelize(cliName, {
@@ -413,7 +766,9 @@ export function exec(): void {
             }
         }
 
-        new PandocSpec(options).run().catch((e: unknown) => {
+        const workspaceFile = cli.flags["workspace"];
+
+        (typeof workspaceFile === "string" ? pandocSpecWorkspace(workspaceFile, options) : pandocSpec(options)).catch((e: unknown) => {
             fatal(e);
         });
     } catch (e: unknown) {
@@ -17,6 +17,8 @@
 import * as fs from "node:fs";
 import { globIterateSync } from "glob";
 import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { isNonNullObject } from "./utility.js";
 
 /**
  * Get the module path of path relative to the module root.
@@ -45,47 +47,64 @@ function windowsPathFix(path: string): string {
 }
 
 /**
- * Get the file path of path relative to the current working directory.
+ * Get the file path of path relative to a working directory.
  *
  * @param relativePath
- * Path relative to the current working directory.
+ * Path relative to the working directory.
+ *
+ * @param workingDirectory
+ * Working directory; default is the current working directory.
  *
  * @returns
  * File path.
  */
-export function workingPath(relativePath: string): string;
+export function workingPath(relativePath: string, workingDirectory?: string): string;
 
 /**
- * Get the file path of path relative to the current working directory.
+ * Get the file path of path relative to a working directory.
  *
  * @param relativePath
- * Path relative to the current working directory or undefined.
+ * Path relative to the working directory or undefined.
+ *
+ * @param workingDirectory
+ * Working directory; default is the current working directory.
  *
  * @returns
  * File path or undefined.
  */
-export function workingPath(relativePath: string | undefined): string | undefined;
+export function workingPath(relativePath: string | undefined, workingDirectory?: string): string | undefined;
 
 // eslint-disable-next-line jsdoc/require-jsdoc -- Overload implementation.
-export function workingPath(relativePath: string | undefined): string | undefined {
-    return relativePath !== undefined ? path.resolve(windowsPathFix(relativePath)) : undefined;
+export function workingPath(relativePath: string | undefined, workingDirectory?: string): string | undefined {
+    return relativePath !== undefined ? path.resolve(workingDirectory ?? process.cwd(), windowsPathFix(relativePath)) : undefined;
 }
 
 /**
  * Copy files matching glob patterns to a directory.
  *
  * @param patterns
- * Glob patterns.
+ * Glob patterns, relative to the source directory.
+ *
+ * @param fromDirectory
+ * Source directory.
  *
  * @param toDirectory
  * Directory to which to copy files.
+ *
+ * @returns
+ * Destination files.
  */
-export function copyFiles(patterns: string[], toDirectory: string): void {
-    // Source files are expected to be relative to current directory.
-    for (const sourceFile of globIterateSync(patterns)) {
+export function copyFiles(patterns: string[], fromDirectory: string, toDirectory: string): string[] {
+    const destinationFiles: string[] = [];
+
+    for (const sourceFile of globIterateSync(patterns, {
+        cwd: fromDirectory
+    })) {
         const destinationFile = path.resolve(toDirectory, path.isAbsolute(sourceFile) || sourceFile.startsWith("..") || sourceFile.includes("node_modules") ? path.basename(sourceFile) : sourceFile);
 
-        if (destinationFile === path.resolve(sourceFile)) {
+        const resolvedSourceFile = path.resolve(fromDirectory, sourceFile);
+
+        if (destinationFile === resolvedSourceFile) {
             throw new Error(`File ${sourceFile} cannot be copied to itself.`);
         }
 
@@ -98,6 +117,59 @@ export function copyFiles(patterns: string[], toDirectory: string): void {
             });
         }
 
-        fs.copyFileSync(sourceFile, destinationFile);
+        fs.copyFileSync(resolvedSourceFile, destinationFile);
+
+        destinationFiles.push(destinationFile);
+    }
+
+    return destinationFiles;
+}
+
+/**
+ * Import a JavaScript or TypeScript module. TypeScript modules require either a version of Node.js that supports type
+ * stripping or the tsx package.
+ *
+ * @param moduleFile
+ * Module file.
+ *
+ * @param version
+ * Version of the module, such as its modification time. Each version is imported separately; without one, the module
+ * is imported once.
+ *
+ * @returns
+ * Module namespace.
+ */
+export async function importModule(moduleFile: string, version?: number): Promise<unknown> {
+    const moduleURL = `${pathToFileURL(moduleFile).href}${version !== undefined ? `?version=${version}` : ""}`;
+
+    let module: unknown;
+
+    try {
+        module = await import(moduleURL);
+    } catch (e: unknown) {
+        if (!/\.[cm]?ts$/i.test(moduleFile)) {
+            throw e;
+        }
+
+        // Module name is a variable so that tsx is an optional dependency.
+        const tsxModuleName = "tsx/esm/api";
+
+        let tsImport: unknown;
+
+        try {
+            const tsxModule: unknown = await import(tsxModuleName);
+
+            tsImport = isNonNullObject(tsxModule) && "tsImport" in tsxModule ? tsxModule.tsImport : undefined;
+        } catch {
+            tsImport = undefined;
+        }
+
+        if (typeof tsImport !== "function") {
+            throw new Error(`TypeScript module ${moduleFile} requires a version of Node.js that supports type stripping or the tsx package`);
+        }
+
+        module = await tsImport(moduleURL, import.meta.url);
     }
+
+    return module;
 }
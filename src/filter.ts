@@ -0,0 +1,166 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import type { Document } from "./ast.js";
+import { importModule } from "./file.js";
+import { isNonNullObject } from "./utility.js";
+
+/**
+ * Context in which a module filter is run.
+ */
+export interface FilterContext {
+    /**
+     * Format written by Pandoc for the first output or, if the filter is run for a single output, for that output, as
+     * passed to JSON filters.
+     */
+    outputFormat: string;
+
+    /**
+     * Absolute path of the input directory.
+     */
+    inputDirectory: string;
+}
+
+/**
+ * Module filter function, exported as the default export or as the "filter" export of a module filter. It takes the
+ * document and returns a new or updated document, which may be the same object.
+ */
+export type FilterFunction = (document: Document, context: FilterContext) => Document | Promise<Document>;
+
+/**
+ * Module filter loaded and ready to run.
+ */
+export interface ModuleFilter {
+    /**
+     * Module path or package specifier, as configured.
+     */
+    path: string;
+
+    /**
+     * Filter function.
+     */
+    filter: FilterFunction;
+}
+
+/**
+ * Resolve a module filter to its module file.
+ *
+ * @param specifier
+ * Module path, absolute or containing a path delimiter, or package specifier, resolved from the starting directory.
+ *
+ * @param startingDirectory
+ * Starting directory.
+ *
+ * @returns
+ * Absolute path of the module file.
+ *
+ * @throws Error
+ * If the module isn't found.
+ */
+export function resolveModuleFilter(specifier: string, startingDirectory: string): string {
+    let moduleFile: string;
+
+    if (specifier.includes("/") || path.isAbsolute(specifier)) {
+        moduleFile = path.resolve(startingDirectory, specifier);
+
+        if (!fs.existsSync(moduleFile)) {
+            throw new Error(`Module filter ${specifier} not found`);
+        }
+    } else {
+        try {
+            moduleFile = createRequire(path.join(startingDirectory, "package.json")).resolve(specifier);
+        } catch {
+            throw new Error(`Module filter package ${specifier} not found`);
+        }
+    }
+
+    return moduleFile;
+}
+
+/**
+ * Load a module filter. The module is imported as of its modification time, so that a module changed since it was last
+ * loaded is imported again rather than taken from the module cache.
+ *
+ * @param specifier
+ * Module path, absolute or containing a path delimiter, or package specifier, resolved from the starting directory.
+ *
+ * @param startingDirectory
+ * Starting directory.
+ *
+ * @returns
+ * Module filter.
+ *
+ * @throws Error
+ * If the module isn't found or doesn't export a filter function.
+ */
+export async function loadModuleFilter(specifier: string, startingDirectory: string): Promise<ModuleFilter> {
+    const moduleFile = resolveModuleFilter(specifier, startingDirectory);
+
+    const module = await importModule(moduleFile, fs.statSync(moduleFile).mtimeMs);
+
+    // A module imported as CommonJS, as TypeScript may be, has its exports as its default export.
+    const moduleExports = isNonNullObject(module) && "default" in module && isNonNullObject(module.default) ? module.default : module;
+
+    const filter = isNonNullObject(moduleExports) ? "default" in moduleExports && typeof moduleExports.default === "function" ? moduleExports.default : "filter" in moduleExports && typeof moduleExports.filter === "function" ? moduleExports.filter : undefined : undefined;
+
+    if (filter === undefined) {
+        throw new Error(`Module filter ${specifier} doesn't export a filter function as its default or "filter" export`);
+    }
+
+    return {
+        path: specifier,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Function signature can't be validated at runtime.
+        filter: filter as FilterFunction
+    };
+}
+
+/**
+ * Run module filters in order.
+ *
+ * @param document
+ * Document.
+ *
+ * @param moduleFilters
+ * Module filters.
+ *
+ * @param context
+ * Filter context.
+ *
+ * @returns
+ * Filtered document.
+ *
+ * @throws Error
+ * If a module filter doesn't return a document.
+ */
+export async function runModuleFilters(document: Document, moduleFilters: readonly ModuleFilter[], context: FilterContext): Promise<Document> {
+    let result = document;
+
+    for (const moduleFilter of moduleFilters) {
+        const filtered: unknown = await moduleFilter.filter(result, context);
+
+        if (!isNonNullObject(filtered) || !("blocks" in filtered) || !Array.isArray(filtered.blocks) || !("meta" in filtered)) {
+            throw new Error(`Module filter ${moduleFilter.path} didn't return a document`);
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Structure is validated to the extent required.
+        result = filtered as Document;
+    }
+
+    return result;
+}
@@ -0,0 +1,193 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import child_process from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+
+const execFile = promisify(child_process.execFile);
+
+/**
+ * Last commit of a file.
+ */
+export interface GitFile {
+    /**
+     * Path, relative to the input directory.
+     */
+    path: string;
+
+    /**
+     * Date of the last commit that changed the file, in the format YYYY-MM-DD, or undefined if the file has never been
+     * committed.
+     */
+    date: string | undefined;
+}
+
+/**
+ * Git metadata.
+ */
+export interface GitMetadata {
+    /**
+     * Commit hash.
+     */
+    commit: string;
+
+    /**
+     * Short commit hash.
+     */
+    "short-commit": string;
+
+    /**
+     * Date of the commit, in the format YYYY-MM-DD.
+     */
+    date: string;
+
+    /**
+     * Nearest tag reachable from the commit, if any.
+     */
+    tag: string | undefined;
+
+    /**
+     * Branch, if not detached.
+     */
+    branch: string | undefined;
+
+    /**
+     * True if there are uncommitted changes to tracked files.
+     */
+    dirty: boolean;
+
+    /**
+     * Last commit of each input file.
+     */
+    files: GitFile[];
+}
+
+/**
+ * Run a git command.
+ *
+ * @param directory
+ * Directory in which to run the command.
+ *
+ * @param args
+ * Arguments.
+ *
+ * @returns
+ * Standard output, trimmed, or undefined if the command failed (including if git is not installed).
+ */
+async function git(directory: string, ...args: readonly string[]): Promise<string | undefined> {
+    return execFile("git", args, {
+        cwd: directory
+    }).then(result => result.stdout.trim(), () => undefined);
+}
+
+/**
+ * Get the git metadata for a directory and files within it.
+ *
+ * @param directory
+ * Directory.
+ *
+ * @param files
+ * Files, relative to the directory.
+ *
+ * @returns
+ * Git metadata or undefined if the directory is not in a git checkout with at least one commit.
+ */
+export async function gitMetadata(directory: string, files: readonly string[]): Promise<GitMetadata | undefined> {
+    const commit = await git(directory, "rev-parse", "HEAD");
+
+    let metadata: GitMetadata | undefined;
+
+    if (commit !== undefined) {
+        const [shortCommit, date, tag, branch, status, fileDates] = await Promise.all([
+            git(directory, "rev-parse", "--short", "HEAD"),
+            git(directory, "log", "-1", "--format=%cs", "HEAD"),
+            git(directory, "describe", "--tags", "--abbrev=0"),
+            git(directory, "symbolic-ref", "--short", "--quiet", "HEAD"),
+            // Untracked files, such as output files, don't make the checkout dirty.
+            git(directory, "status", "--porcelain", "--untracked-files=no"),
+            Promise.all(files.map(async file => git(directory, "log", "-1", "--format=%cs", "--", file)))
+        ]);
+
+        metadata = {
+            commit,
+            "short-commit": shortCommit ?? commit,
+            date: date ?? "",
+            tag: tag !== "" ? tag : undefined,
+            branch: branch !== "" ? branch : undefined,
+            dirty: status !== undefined && status !== "",
+            files: files.map((file, index) => ({
+                path: file,
+                date: fileDates[index] !== "" ? fileDates[index] : undefined
+            }))
+        };
+    }
+
+    return metadata;
+}
+
+/**
+ * Check out a revision of the git checkout containing a directory into a temporary worktree, run a callback with the
+ * directory's counterpart in the worktree, and remove the worktree.
+ *
+ * @param directory
+ * Directory.
+ *
+ * @param ref
+ * Git ref (e.g., tag, branch, or commit) of the revision.
+ *
+ * @param callback
+ * Callback, taking the absolute path of the directory's counterpart in the worktree.
+ *
+ * @returns
+ * Result of the callback.
+ *
+ * @throws Error
+ * If the directory is not in a git checkout or the ref is not found.
+ */
+export async function withRevision<T>(directory: string, ref: string, callback: (revisionDirectory: string) => Promise<T>): Promise<T> {
+    const [prefix, commit] = await Promise.all([
+        git(directory, "rev-parse", "--show-prefix"),
+        git(directory, "rev-parse", "--verify", "--quiet", `${ref}^{commit}`)
+    ]);
+
+    if (prefix === undefined) {
+        throw new Error(`Directory ${directory} is not in a git checkout`);
+    }
+
+    if (commit === undefined) {
+        throw new Error(`Git ref ${ref} not found`);
+    }
+
+    const worktreeDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "pandoc-spec-revision-"));
+
+    try {
+        if (await git(directory, "worktree", "add", "--detach", worktreeDirectory, commit) === undefined) {
+            throw new Error(`Git ref ${ref} can't be checked out`);
+        }
+
+        return await callback(path.join(worktreeDirectory, prefix));
+    } finally {
+        await git(directory, "worktree", "remove", "--force", worktreeDirectory);
+
+        fs.rmSync(worktreeDirectory, {
+            recursive: true,
+            force: true
+        });
+    }
+}
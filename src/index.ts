@@ -16,3 +16,9 @@
 
 export * from "./pandoc-spec.js";
 export * from "./exec.js";
+export * from "./build.js";
+export * from "./workspace.js";
+export * from "./cross-reference.js";
+export * from "./link-check.js";
+export * from "./ast.js";
+export * from "./filter.js";
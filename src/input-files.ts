@@ -0,0 +1,348 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { globSync, hasMagic } from "glob";
+import { parse as parseYAML } from "yaml";
+
+/**
+ * YAML front matter at the start of a Markdown file, ended by "---" or "...".
+ */
+const FRONT_MATTER_REGEX = /^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Natural order of file paths: digit sequences compare by numeric value, so "02-" comes before "10-", and letters
+ * compare without regard to case. The locale is fixed so that the order is the same everywhere.
+ */
+const NATURAL_ORDER = new Intl.Collator("en", {
+    numeric: true,
+    sensitivity: "base"
+});
+
+/**
+ * Opening line of a fenced code block, capturing the fence and the info string.
+ */
+const FENCE_OPEN_REGEX = /^ {0,3}(`{3,}|~{3,})[ \t]*(.*)$/;
+
+/**
+ * "include" attribute of a code block, as used by the include-code-files filter.
+ */
+const INCLUDE_ATTRIBUTE_REGEX = /(?:^|\s)include=(?:"([^"]*)"|'([^']*)'|([^\s}]+))/;
+
+/**
+ * Options for resolving input files.
+ */
+export interface InputFilesOptions {
+    /**
+     * Ordering manifest file, relative to the input directory, listing input files one per line.
+     */
+    orderFile?: string | undefined;
+
+    /**
+     * Glob patterns, relative to the input directory, of files that aren't input files.
+     */
+    excludePatterns?: readonly string[] | undefined;
+
+    /**
+     * Absolute paths of directories not searched for unmatched Markdown files.
+     */
+    ignoredDirectories?: readonly string[] | undefined;
+}
+
+/**
+ * Resolved input files.
+ */
+export interface ResolvedInputFiles {
+    /**
+     * Input files, relative to the input directory, in reading order.
+     */
+    inputFiles: string[];
+
+    /**
+     * Problems found while resolving, to be reported as warnings.
+     */
+    warnings: string[];
+}
+
+/**
+ * Compare file paths in natural order.
+ *
+ * @param file1
+ * First file path.
+ *
+ * @param file2
+ * Second file path.
+ *
+ * @returns
+ * Negative, zero, or positive as the first file path sorts before, the same as, or after the second.
+ */
+export function compareNatural(file1: string, file2: string): number {
+    // Exact comparison breaks ties between paths that differ only in case.
+    return NATURAL_ORDER.compare(file1, file2) || (file1 < file2 ? -1 : file1 > file2 ? 1 : 0);
+}
+
+/**
+ * Get the "order" key of the YAML front matter of a Markdown file.
+ *
+ * @param file
+ * Absolute path of the file.
+ *
+ * @returns
+ * Order or undefined if the file has no front matter or the front matter has no numeric "order" key.
+ */
+function frontMatterOrder(file: string): number | undefined {
+    const match = FRONT_MATTER_REGEX.exec(fs.readFileSync(file, {
+        encoding: "utf-8"
+    }));
+
+    let order: number | undefined = undefined;
+
+    if (match !== null) {
+        let frontMatter: unknown;
+
+        try {
+            frontMatter = parseYAML(match[1]);
+        } catch {
+            // Invalid front matter is reported by Pandoc when the file is read.
+            frontMatter = undefined;
+        }
+
+        if (typeof frontMatter === "object" && frontMatter !== null && "order" in frontMatter && typeof frontMatter.order === "number") {
+            order = frontMatter.order;
+        }
+    }
+
+    return order;
+}
+
+/**
+ * Read an ordering manifest. Blank lines and lines starting with "#" are ignored.
+ *
+ * @param orderFile
+ * Absolute path of the ordering manifest.
+ *
+ * @returns
+ * Files listed, relative to the input directory.
+ */
+function readOrderFile(orderFile: string): string[] {
+    if (!fs.existsSync(orderFile)) {
+        throw new Error(`Input order file ${orderFile} not found`);
+    }
+
+    return fs.readFileSync(orderFile, {
+        encoding: "utf-8"
+    }).split(/\r?\n/).map(line => line.trim()).filter(line => line !== "" && !line.startsWith("#"));
+}
+
+/**
+ * Resolve input file entries, which may be glob patterns, to input files. Entries that aren't glob patterns are kept
+ * in place as is. The files matched by a glob pattern are ordered as follows:
+ *
+ * - files listed in the ordering manifest, in the order listed;
+ * - files with an "order" key in their YAML front matter, in ascending order; and
+ * - all other files.
+ *
+ * Ties are broken in natural order. A file matched by more than one entry is read once, at its first position. Markdown
+ * files in the directories of the files matched by glob patterns that no entry matches are reported as warnings.
+ *
+ * @param entries
+ * Input file entries, relative to the input directory.
+ *
+ * @param inputDirectory
+ * Absolute path of the input directory.
+ *
+ * @param options
+ * Options.
+ *
+ * @returns
+ * Resolved input files.
+ */
+export function resolveInputFiles(entries: readonly string[], inputDirectory: string, options: InputFilesOptions = {}): ResolvedInputFiles {
+    const excludePatterns = [...options.excludePatterns ?? []];
+
+    const warnings: string[] = [];
+
+    // Files are compared by absolute path.
+    const absolute = (file: string): string => path.resolve(inputDirectory, file);
+
+    const orderFiles = options.orderFile !== undefined ? readOrderFile(absolute(options.orderFile)) : [];
+    const orderIndexes = new Map(orderFiles.map((file, index) => [absolute(file), index]));
+
+    const inputFiles: string[] = [];
+    const included = new Set<string>();
+
+    // Directories, relative to the input directory, of the files matched by glob patterns.
+    const globDirectories = new Set<string>();
+
+    const include = (file: string): void => {
+        const absoluteFile = absolute(file);
+
+        if (!included.has(absoluteFile)) {
+            included.add(absoluteFile);
+            inputFiles.push(file);
+        }
+    };
+
+    for (const entry of entries) {
+        if (!hasMagic(entry)) {
+            include(entry);
+        } else {
+            const matches = globSync(entry, {
+                cwd: inputDirectory,
+                ignore: excludePatterns,
+                nodir: true,
+                posix: true
+            });
+
+            if (matches.length === 0) {
+                warnings.push(`Input file pattern ${entry} matches no files`);
+            }
+
+            const rankedMatches = matches.map((file) => {
+                const absoluteFile = absolute(file);
+
+                const orderIndex = orderIndexes.get(absoluteFile);
+                const order = orderIndex === undefined ? frontMatterOrder(absoluteFile) : undefined;
+
+                return {
+                    file,
+                    // Manifest files sort first, then files with a front matter order, then all others.
+                    group: orderIndex !== undefined ? 0 : order !== undefined ? 1 : 2,
+                    rank: orderIndex ?? order ?? 0
+                };
+            });
+
+            rankedMatches.sort((match1, match2) => match1.group - match2.group || match1.rank - match2.rank || compareNatural(match1.file, match2.file));
+
+            for (const rankedMatch of rankedMatches) {
+                globDirectories.add(path.posix.dirname(rankedMatch.file));
+
+                include(rankedMatch.file);
+            }
+        }
+    }
+
+    for (const orderFile of orderFiles) {
+        if (!included.has(absolute(orderFile))) {
+            warnings.push(`File ${orderFile} in input order file is not an input file`);
+        }
+    }
+
+    // Markdown files alongside those matched by glob patterns that no entry matches were likely meant to be included;
+    // elsewhere, e.g., a README file next to the options file, they usually aren't input files by design.
+    const ignoredDirectoryPatterns = (options.ignoredDirectories ?? []).map(directory => path.relative(inputDirectory, directory)).filter(directory => directory !== "" && !directory.startsWith("..") && !path.isAbsolute(directory)).map(directory => `${directory.split(path.sep).join("/")}/**`);
+
+    for (const file of globSync("**/*.md", {
+        cwd: inputDirectory,
+        ignore: ["**/node_modules/**", ...ignoredDirectoryPatterns, ...excludePatterns],
+        nodir: true,
+        posix: true
+    }).filter(file => globDirectories.has(path.posix.dirname(file))).sort(compareNatural)) {
+        if (!included.has(absolute(file))) {
+            warnings.push(`Markdown file ${file} is not matched by any input file entry`);
+        }
+    }
+
+    return {
+        inputFiles,
+        warnings
+    };
+}
+
+/**
+ * Find the files included by input files through the include-files and include-code-files filters, i.e., the files
+ * listed in code blocks with the class "include" and the files named by the "include" attribute of code blocks.
+ * Included Markdown files are searched in turn, with paths relative to their own directory, as the include-files
+ * filter does. Only fenced code blocks are recognized.
+ *
+ * @param inputFiles
+ * Input files, relative to the input directory.
+ *
+ * @param inputDirectory
+ * Absolute path of the input directory.
+ *
+ * @returns
+ * Absolute paths of the included files that exist, in the order found.
+ */
+export function includedFiles(inputFiles: readonly string[], inputDirectory: string): string[] {
+    const files: string[] = [];
+    const searchedFiles = new Set<string>();
+
+    const isFile = (file: string): boolean => fs.existsSync(file) && fs.statSync(file).isFile();
+
+    const search = (file: string, directory: string): void => {
+        if (!searchedFiles.has(file) && isFile(file)) {
+            searchedFiles.add(file);
+
+            const lines = fs.readFileSync(file, {
+                encoding: "utf-8"
+            }).split(/\r?\n/);
+
+            for (let index = 0; index < lines.length; index++) {
+                const match = FENCE_OPEN_REGEX.exec(lines[index]);
+
+                // Backtick fences can't have backticks in their info strings.
+                if (match !== null && !(match[1].startsWith("`") && match[2].includes("`"))) {
+                    const fence = match[1];
+                    const info = match[2].trim();
+
+                    const closeRegex = new RegExp(`^ {0,3}${fence[0]}{${fence.length},}[ \\t]*$`);
+
+                    const bodyLines: string[] = [];
+
+                    while (++index < lines.length && !closeRegex.test(lines[index])) {
+                        bodyLines.push(lines[index]);
+                    }
+
+                    const attributes = info.startsWith("{") ? info.substring(1, info.lastIndexOf("}")) : "";
+                    const classes = info.startsWith("{") ? [...attributes.matchAll(/(?:^|\s)\.([^\s.#}]+)/g)].map(classMatch => classMatch[1]) : info.split(/\s+/, 1);
+
+                    if (classes.includes("include")) {
+                        for (const bodyLine of bodyLines) {
+                            // Lines starting with "//" are comments.
+                            if (bodyLine !== "" && !bodyLine.startsWith("//")) {
+                                const includedFile = path.resolve(directory, bodyLine);
+
+                                if (isFile(includedFile)) {
+                                    files.push(includedFile);
+                                    search(includedFile, path.dirname(includedFile));
+                                }
+                            }
+                        }
+                    }
+
+                    const includeMatch = INCLUDE_ATTRIBUTE_REGEX.exec(attributes);
+
+                    if (includeMatch !== null) {
+                        const includedFile = path.resolve(directory, includeMatch[1] ?? includeMatch[2] ?? includeMatch[3]);
+
+                        if (isFile(includedFile)) {
+                            files.push(includedFile);
+                        }
+                    }
+                }
+            }
+        }
+    };
+
+    for (const inputFile of inputFiles) {
+        // Paths in input files are relative to the input directory, the working directory of Pandoc.
+        search(path.resolve(inputDirectory, inputFile), inputDirectory);
+    }
+
+    return [...new Set(files)];
+}
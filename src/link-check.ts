@@ -0,0 +1,238 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Parser } from "htmlparser2";
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * Attributes holding URLs, by element name.
+ */
+const URL_ATTRIBUTES: Readonly<Record<string, readonly string[]>> = {
+    a: ["href"],
+    area: ["href"],
+    link: ["href"],
+    img: ["src"],
+    script: ["src"],
+    iframe: ["src"],
+    embed: ["src"],
+    source: ["src"],
+    track: ["src"],
+    audio: ["src"],
+    video: ["src", "poster"],
+    object: ["data"]
+};
+
+/**
+ * URL with a scheme (e.g., "https:", "mailto:", "data:") or protocol-relative, i.e., not a local file.
+ */
+const NON_LOCAL_URL_REGEX = /^(?:[A-Za-z][A-Za-z0-9+\-.]+:|\/\/)/;
+
+/**
+ * Anchors and links in an HTML file.
+ */
+interface ParsedHTMLFile {
+    /**
+     * Identifiers, from "id" attributes and "name" attributes of "a" elements.
+     */
+    ids: Set<string>;
+
+    /**
+     * Identifiers that appear more than once.
+     */
+    duplicateIds: Set<string>;
+
+    /**
+     * URLs in link and resource attributes, in document order.
+     */
+    urls: string[];
+}
+
+/**
+ * Problem found by the link checker.
+ */
+export interface LinkProblem {
+    /**
+     * HTML file in which the problem was found, relative to the output directory.
+     */
+    file: string;
+
+    /**
+     * Description.
+     */
+    message: string;
+}
+
+/**
+ * Decode a URL component, leaving it as is if it's malformed.
+ *
+ * @param component
+ * URL component.
+ *
+ * @returns
+ * Decoded URL component.
+ */
+function decode(component: string): string {
+    let decodedComponent: string;
+
+    try {
+        decodedComponent = decodeURIComponent(component);
+    } catch {
+        decodedComponent = component;
+    }
+
+    return decodedComponent;
+}
+
+/**
+ * Parse an HTML file for its anchors and links.
+ *
+ * @param htmlFile
+ * HTML file.
+ *
+ * @returns
+ * Anchors and links.
+ */
+function parseHTMLFile(htmlFile: string): ParsedHTMLFile {
+    const parsedHTMLFile: ParsedHTMLFile = {
+        ids: new Set(),
+        duplicateIds: new Set(),
+        urls: []
+    };
+
+    const addId = (id: string): void => {
+        if (parsedHTMLFile.ids.has(id)) {
+            parsedHTMLFile.duplicateIds.add(id);
+        } else {
+            parsedHTMLFile.ids.add(id);
+        }
+    };
+
+    const parser = new Parser({
+        onopentag: (name, attributes) => {
+            const id = attributes["id"];
+
+            if (id !== undefined && id !== "") {
+                addId(id);
+            }
+
+            // Legacy named anchor; not a duplicate if it has the same value as the "id" attribute.
+            const anchorName = name === "a" ? attributes["name"] : undefined;
+
+            if (anchorName !== undefined && anchorName !== "" && anchorName !== id) {
+                addId(anchorName);
+            }
+
+            // Element names are looked up as own properties only, so that an element such as "constructor" isn't found on the prototype.
+            for (const attribute of Object.hasOwn(URL_ATTRIBUTES, name) ? URL_ATTRIBUTES[name] : []) {
+                const url = attributes[attribute];
+
+                if (url !== undefined) {
+                    parsedHTMLFile.urls.push(url.trim());
+                }
+            }
+        }
+    }, {
+        decodeEntities: true
+    });
+
+    parser.end(fs.readFileSync(htmlFile).toString());
+
+    return parsedHTMLFile;
+}
+
+/**
+ * Check the links in HTML files for dangling fragments, duplicate identifiers, and missing local targets.
+ *
+ * @param outputDirectory
+ * Absolute output directory; URLs starting with "/" are resolved against it.
+ *
+ * @param htmlFiles
+ * Absolute paths of HTML files to check.
+ *
+ * @returns
+ * Problems found, in file and document order.
+ */
+export function checkLinks(outputDirectory: string, htmlFiles: readonly string[]): LinkProblem[] {
+    const problems: LinkProblem[] = [];
+
+    // Target HTML files are parsed at most once.
+    const parsedHTMLFiles = new Map<string, ParsedHTMLFile>();
+
+    const parsedHTMLFileFor = (htmlFile: string): ParsedHTMLFile => {
+        let parsedHTMLFile = parsedHTMLFiles.get(htmlFile);
+
+        if (parsedHTMLFile === undefined) {
+            parsedHTMLFile = parseHTMLFile(htmlFile);
+            parsedHTMLFiles.set(htmlFile, parsedHTMLFile);
+        }
+
+        return parsedHTMLFile;
+    };
+
+    for (const htmlFile of htmlFiles) {
+        const file = path.relative(outputDirectory, htmlFile).split(path.sep).join("/");
+
+        const parsedHTMLFile = parsedHTMLFileFor(htmlFile);
+
+        for (const duplicateId of parsedHTMLFile.duplicateIds) {
+            problems.push({
+                file,
+                message: `Duplicate id "${duplicateId}"`
+            });
+        }
+
+        // Each URL is reported once per file.
+        for (const url of new Set(parsedHTMLFile.urls)) {
+            if (url !== "" && !NON_LOCAL_URL_REGEX.test(url)) {
+                const fragmentIndex = url.indexOf("#");
+
+                // Query is irrelevant to a local file.
+                const urlPath = (fragmentIndex !== -1 ? url.substring(0, fragmentIndex) : url).replace(/\?.*$/, "");
+                const fragment = fragmentIndex !== -1 ? url.substring(fragmentIndex + 1) : "";
+
+                let targetFile: string;
+
+                if (urlPath === "") {
+                    targetFile = htmlFile;
+                } else {
+                    const decodedURLPath = decode(urlPath);
+
+                    targetFile = decodedURLPath.startsWith("/") ? path.join(outputDirectory, decodedURLPath) : path.resolve(path.dirname(htmlFile), decodedURLPath);
+
+                    // Directory URL refers to its index file.
+                    if (decodedURLPath.endsWith("/") || (fs.existsSync(targetFile) && fs.statSync(targetFile).isDirectory())) {
+                        targetFile = path.join(targetFile, "index.html");
+                    }
+                }
+
+                if (!fs.existsSync(targetFile)) {
+                    problems.push({
+                        file,
+                        message: `Missing target "${url}"`
+                    });
+                } else if (fragment !== "" && /\.html?$/i.test(targetFile) && !parsedHTMLFileFor(targetFile).ids.has(decode(fragment))) {
+                    problems.push({
+                        file,
+                        message: `Dangling fragment link "${url}"`
+                    });
+                }
+            }
+        }
+    }
+
+    return problems;
+}
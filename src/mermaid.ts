@@ -0,0 +1,247 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import puppeteer, { type LaunchOptions } from "puppeteer";
+import { codeBlockText, type Element } from "./ast.js";
+import { diagramBlock, type DiagramErrorHandler } from "./diagram.js";
+import type { Mermaid } from "./options.js";
+
+/**
+ * Default viewport width, as for the Mermaid command-line interface.
+ */
+const DEFAULT_WIDTH = 800;
+
+/**
+ * Default viewport height, as for the Mermaid command-line interface.
+ */
+const DEFAULT_HEIGHT = 600;
+
+/**
+ * Mermaid API, as loaded into the page (relevant functions only).
+ */
+interface MermaidAPI {
+    /**
+     * Initialize with a configuration.
+     */
+    initialize: (config: object) => void;
+
+    /**
+     * Parse a diagram, throwing on a syntax error.
+     */
+    parse: (text: string) => Promise<unknown>;
+
+    /**
+     * Render a diagram to SVG.
+     */
+    render: (id: string, text: string) => Promise<{
+        svg: string;
+    }>;
+}
+
+/**
+ * Result of rendering a diagram in the page.
+ */
+interface PageResult {
+    /**
+     * Rendered SVG, if successful.
+     */
+    svg?: string;
+
+    /**
+     * Error message, if not.
+     */
+    error?: string;
+}
+
+/**
+ * Mermaid error, as reported for a diagram.
+ */
+export interface MermaidError {
+    /**
+     * Message, on a single line.
+     */
+    message: string;
+
+    /**
+     * Line of the diagram at which the error occurred, starting at 1, if known.
+     */
+    line: number | undefined;
+}
+
+/**
+ * Map an error thrown by Mermaid to a message and the line of the diagram at which it occurred.
+ *
+ * @param error
+ * Error message thrown by Mermaid, which may span multiple lines.
+ *
+ * @returns
+ * Mermaid error.
+ */
+export function mermaidError(error: string): MermaidError {
+    const messageLines = error.split("\n").map(messageLine => messageLine.trim()).filter(messageLine => messageLine !== "");
+
+    // Syntax errors quote the offending line and point to the error on the two lines after the first, which are omitted.
+    const message = (messageLines.length > 2 && /^-*\^$/.test(messageLines[2]) ? [messageLines[0], ...messageLines.slice(3)] : messageLines).join(" ");
+
+    // Syntax errors identify the line, e.g., "Parse error on line 3:".
+    const lineMatch = /\b(?:on|at) line:? (\d+)/.exec(message);
+
+    return {
+        message,
+        line: lineMatch !== null ? Number(lineMatch[1]) : undefined
+    };
+}
+
+/**
+ * Render Mermaid diagrams with headless Chromium. A single browser is launched, and the Mermaid library loaded once,
+ * for all diagrams. Each diagram is replaced by an image embedded as a data URI.
+ *
+ * @param codeBlocks
+ * Code blocks of the diagrams.
+ *
+ * @param launchOptions
+ * Puppeteer launch options.
+ *
+ * @param mermaid
+ * Mermaid diagram rendering.
+ *
+ * @param configDirectory
+ * Directory to which the Mermaid configuration file is relative.
+ *
+ * @param errorHandler
+ * Handler for diagrams that fail to render, such as those with syntax errors.
+ *
+ * @returns
+ * Blocks replacing the code blocks, one for one and in the same order, or undefined for those that failed to render.
+ */
+export async function renderMermaidDiagrams(codeBlocks: readonly Element[], launchOptions: LaunchOptions, mermaid: Mermaid, configDirectory: string, errorHandler: DiagramErrorHandler): Promise<Array<Element | undefined>> {
+    const format = mermaid.format ?? "svg";
+    const background = mermaid.background;
+
+    const configFile = mermaid.configFile !== undefined ? path.resolve(configDirectory, mermaid.configFile) : undefined;
+
+    if (configFile !== undefined && !fs.existsSync(configFile)) {
+        throw new Error(`Mermaid configuration file ${configFile} not found`);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- Mermaid configuration format is validated by Mermaid.
+    const config: object = configFile !== undefined ? JSON.parse(fs.readFileSync(configFile).toString()) : {};
+
+    const browser = await puppeteer.launch({
+        ...launchOptions,
+        headless: true
+    });
+
+    try {
+        const page = await browser.newPage();
+
+        await page.setViewport({
+            width: mermaid.width ?? DEFAULT_WIDTH,
+            height: DEFAULT_HEIGHT,
+            deviceScaleFactor: mermaid.scale ?? 1
+        });
+
+        await page.setContent("<!DOCTYPE html><html><head><meta charset=\"utf-8\"></head><body></body></html>");
+
+        await page.addScriptTag({
+            path: createRequire(import.meta.url).resolve("mermaid/dist/mermaid.min.js")
+        });
+
+        await page.evaluate((initialConfig) => {
+            (globalThis as unknown as { mermaid: MermaidAPI }).mermaid.initialize(initialConfig);
+        }, {
+            ...config,
+            ...mermaid.theme !== undefined ?
+                {
+                    theme: mermaid.theme
+                } :
+                {},
+            startOnLoad: false
+        });
+
+        const blocks: Array<Element | undefined> = [];
+
+        // Diagrams are rendered one at a time, as Mermaid renders into the shared document.
+        for (const [index, codeBlock] of codeBlocks.entries()) {
+            const result = await page.evaluate(async (id, text, backgroundColor): Promise<PageResult> => {
+                const mermaidAPI = (globalThis as unknown as { mermaid: MermaidAPI }).mermaid;
+
+                let pageResult: PageResult;
+
+                try {
+                    await mermaidAPI.parse(text);
+
+                    document.body.innerHTML = (await mermaidAPI.render(id, text)).svg;
+
+                    const svgElement = document.body.querySelector("svg");
+
+                    if (svgElement === null) {
+                        throw new Error("Mermaid rendered no SVG");
+                    }
+
+                    if (backgroundColor !== undefined) {
+                        svgElement.style.backgroundColor = backgroundColor;
+                    }
+
+                    // Serialized as XML, as labels may contain HTML that isn't well formed.
+                    pageResult = {
+                        svg: new XMLSerializer().serializeToString(svgElement)
+                    };
+                } catch (e: unknown) {
+                    pageResult = {
+                        error: e instanceof Error ? e.message : String(e)
+                    };
+                }
+
+                return pageResult;
+            }, `mermaid-${index}`, codeBlockText(codeBlock), background);
+
+            if (result.svg !== undefined) {
+                let url: string;
+
+                if (format === "png") {
+                    const svgElement = await page.$("svg");
+
+                    if (svgElement === null) {
+                        throw new Error("Mermaid SVG not found in page");
+                    }
+
+                    url = `data:image/png;base64,${await svgElement.screenshot({
+                        encoding: "base64",
+                        omitBackground: background === "transparent"
+                    })}`;
+                } else {
+                    url = `data:image/svg+xml;base64,${Buffer.from(result.svg).toString("base64")}`;
+                }
+
+                blocks.push(diagramBlock(codeBlock, "mermaid", url));
+            } else {
+                const { message, line } = mermaidError(result.error ?? "Unknown error");
+
+                errorHandler(codeBlock, message, line);
+
+                blocks.push(undefined);
+            }
+        }
+
+        return blocks;
+    } finally {
+        await browser.close();
+    }
+}
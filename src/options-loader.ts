@@ -0,0 +1,614 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { parse as parseYAML } from "yaml";
+import { importModule } from "./file.js";
+import { environmentOptions, validateOptions, validateWorkspaceOptions } from "./options-schema.js";
+import { mergeOptions, mergePartialOptions, type Options, type ProfileOptions, type WorkspaceOptions } from "./options.js";
+import { isNonNullObject } from "./utility.js";
+
+/**
+ * Default options file names, in order of precedence.
+ */
+export const DEFAULT_OPTIONS_FILES = [
+    "pandoc-spec.options.json",
+    "pandoc-spec.options.yaml",
+    "pandoc-spec.options.yml",
+    "pandoc-spec.config.js",
+    "pandoc-spec.config.mjs",
+    "pandoc-spec.config.ts"
+];
+
+/**
+ * Find the default options file in a directory.
+ *
+ * @param directory
+ * Directory.
+ *
+ * @returns
+ * Path of the first default options file found or undefined if none.
+ */
+function findOptionsFile(directory: string): string | undefined {
+    return DEFAULT_OPTIONS_FILES.map(optionsFile => path.resolve(directory, optionsFile)).find(optionsFile => fs.existsSync(optionsFile));
+}
+
+/**
+ * Environment variable reference in an options file string value, either `${env:NAME}` or `${env:NAME:-default}`.
+ */
+const ENVIRONMENT_REFERENCE_REGEX = /\$\{env:([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Interpolate environment variable references in all string values. As in the shell, the default is used if the
+ * environment variable is unset or empty.
+ *
+ * @param value
+ * Value.
+ *
+ * @param optionsFile
+ * Options file, for error reporting.
+ *
+ * @returns
+ * Value with environment variable references replaced.
+ */
+function interpolateEnvironment(value: unknown, optionsFile: string): unknown {
+    let interpolatedValue: unknown;
+
+    if (typeof value === "string") {
+        interpolatedValue = value.replace(ENVIRONMENT_REFERENCE_REGEX, (_reference, name: string, defaultValue: string | undefined) => {
+            const environmentValue = process.env[name];
+
+            const replacement = environmentValue !== undefined && environmentValue !== "" ? environmentValue : defaultValue;
+
+            if (replacement === undefined) {
+                throw new Error(`Environment variable ${name} referenced in ${optionsFile} is not set and has no default`);
+            }
+
+            return replacement;
+        });
+    } else if (Array.isArray(value)) {
+        interpolatedValue = value.map(element => interpolateEnvironment(element, optionsFile));
+    } else if (isNonNullObject(value)) {
+        interpolatedValue = Object.fromEntries(Object.entries(value).map(([key, propertyValue]) => [key, interpolateEnvironment(propertyValue, optionsFile)]));
+    } else {
+        interpolatedValue = value;
+    }
+
+    return interpolatedValue;
+}
+
+/**
+ * True if an options file is a JavaScript or TypeScript module.
+ *
+ * @param optionsFile
+ * Options file.
+ *
+ * @returns
+ * True if the options file is a module.
+ */
+function isModuleOptionsFile(optionsFile: string): boolean {
+    return [".js", ".mjs", ".cjs", ".ts", ".mts", ".cts"].includes(path.extname(optionsFile).toLowerCase());
+}
+
+/**
+ * Read the content of a JSON or YAML options file.
+ *
+ * @param optionsFile
+ * Options file.
+ *
+ * @returns
+ * Content.
+ */
+function readOptionsFileSync(optionsFile: string): unknown {
+    let content: unknown;
+
+    switch (path.extname(optionsFile).toLowerCase()) {
+        case ".json":
+            content = JSON.parse(fs.readFileSync(optionsFile, {
+                encoding: "utf8"
+            }));
+            break;
+
+        case ".yaml":
+        case ".yml":
+            content = parseYAML(fs.readFileSync(optionsFile, {
+                encoding: "utf8"
+            }));
+            break;
+
+        default:
+            throw new Error(isModuleOptionsFile(optionsFile) ?
+                `Options file ${optionsFile} is JavaScript or TypeScript and can only be loaded asynchronously; use PandocSpec.create()` :
+                `Options file ${optionsFile} is not JSON, YAML, JavaScript, or TypeScript`);
+    }
+
+    return content;
+}
+
+/**
+ * Read the content of an options file. JavaScript and TypeScript options files provide options as their default
+ * export, either as an object or as a function (which may be async) that returns an object.
+ *
+ * @param optionsFile
+ * Options file.
+ *
+ * @returns
+ * Content.
+ */
+async function readOptionsFile(optionsFile: string): Promise<unknown> {
+    let content: unknown;
+
+    if (isModuleOptionsFile(optionsFile)) {
+        const module = await importModule(optionsFile);
+
+        const defaultExport = isNonNullObject(module) && "default" in module ? module.default : undefined;
+
+        content = typeof defaultExport === "function" ? await defaultExport() : defaultExport;
+    } else {
+        content = readOptionsFileSync(optionsFile);
+    }
+
+    return content;
+}
+
+/**
+ * Resolve an options file to extend.
+ *
+ * @param specifier
+ * Path relative to the extending options file or npm package specifier. If the specifier is a bare package name, the
+ * default options file in the package root is used if present.
+ *
+ * @param extendingOptionsFile
+ * Extending options file.
+ *
+ * @returns
+ * Path of options file to extend.
+ */
+function resolveExtends(specifier: string, extendingOptionsFile: string): string {
+    let extendedOptionsFile: string | undefined;
+
+    if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+        extendedOptionsFile = path.resolve(path.dirname(extendingOptionsFile), specifier);
+
+        if (!fs.existsSync(extendedOptionsFile)) {
+            throw new Error(`Options file ${extendedOptionsFile} extended by ${extendingOptionsFile} not found`);
+        }
+    } else {
+        const require = createRequire(extendingOptionsFile);
+
+        if (/^(?:@[^/]+\/)?[^/]+$/.test(specifier)) {
+            try {
+                extendedOptionsFile = findOptionsFile(path.dirname(require.resolve(`${specifier}/package.json`)));
+            } catch {
+                // Package doesn't export package.json; fall through to resolve package.
+                extendedOptionsFile = undefined;
+            }
+        }
+
+        if (extendedOptionsFile === undefined) {
+            try {
+                extendedOptionsFile = require.resolve(specifier);
+            } catch {
+                throw new Error(`Package ${specifier} extended by ${extendingOptionsFile} not found`);
+            }
+        }
+    }
+
+    return extendedOptionsFile;
+}
+
+/**
+ * Rebase paths in extended options that are relative to the starting directory so that they are relative to the
+ * directory of the extended options file instead. Paths relative to the input directory are left unchanged.
+ *
+ * @param options
+ * Extended options.
+ *
+ * @param directory
+ * Directory of the extended options file.
+ *
+ * @returns
+ * Rebased options.
+ */
+function rebaseOptions(options: Partial<Options>, directory: string): Partial<Options> {
+    const rebase = (relativePath: string): string => path.resolve(directory, relativePath);
+
+    const rebasedOptions: Partial<Options> = {
+        ...options
+    };
+
+    if (options.inputDirectory !== undefined) {
+        rebasedOptions.inputDirectory = rebase(options.inputDirectory);
+    }
+
+    if (options.outputDirectory !== undefined) {
+        rebasedOptions.outputDirectory = rebase(options.outputDirectory);
+    }
+
+    if (options.cacheDirectory !== undefined) {
+        rebasedOptions.cacheDirectory = rebase(options.cacheDirectory);
+    }
+
+    if (options.templateFile !== undefined) {
+        rebasedOptions.templateFile = rebase(options.templateFile);
+    }
+
+    if (options.referenceDocument !== undefined) {
+        rebasedOptions.referenceDocument = rebase(options.referenceDocument);
+    }
+
+    if (options.headerFile !== undefined) {
+        rebasedOptions.headerFile = rebase(options.headerFile);
+    }
+
+    if (options.footerFile !== undefined) {
+        rebasedOptions.footerFile = rebase(options.footerFile);
+    }
+
+    if (options.filters !== undefined) {
+        // JSON filter paths are operating system commands and module filter paths are package specifiers unless they contain a path delimiter; built-in filter paths are names.
+        rebasedOptions.filters = options.filters.map(filter => filter.type !== "builtin" && ((filter.type ?? "lua") === "lua" || filter.path.includes("/")) ?
+            {
+                ...filter,
+                path: rebase(filter.path)
+            } :
+            filter);
+    }
+
+    if (options.mermaid?.configFile !== undefined) {
+        rebasedOptions.mermaid = {
+            ...options.mermaid,
+            configFile: rebase(options.mermaid.configFile)
+        };
+    }
+
+    if (options.diagramTools !== undefined) {
+        // Diagram tool commands are operating system commands unless they contain a path delimiter.
+        rebasedOptions.diagramTools = options.diagramTools.map(diagramTool => diagramTool.command.includes("/") ?
+            {
+                ...diagramTool,
+                command: rebase(diagramTool.command)
+            } :
+            diagramTool);
+    }
+
+    if (options.diff?.baseFile !== undefined) {
+        rebasedOptions.diff = {
+            ...options.diff,
+            baseFile: rebase(options.diff.baseFile)
+        };
+    }
+
+    if (options.specReferences !== undefined) {
+        rebasedOptions.specReferences = options.specReferences.map(specReference => ({
+            ...specReference,
+            indexFile: rebase(specReference.indexFile)
+        }));
+    }
+
+    if (options.outputs !== undefined) {
+        rebasedOptions.outputs = options.outputs.map(output => ({
+            ...output,
+            ...output.templateFile !== undefined ?
+                {
+                    templateFile: rebase(output.templateFile)
+                } :
+                {},
+            ...output.referenceDocument !== undefined ?
+                {
+                    referenceDocument: rebase(output.referenceDocument)
+                } :
+                {}
+        }));
+    }
+
+    if (options.profiles !== undefined) {
+        rebasedOptions.profiles = Object.fromEntries(Object.entries(options.profiles).map(([profileName, profileOptions]) => [profileName, rebaseOptions(profileOptions, directory)]));
+    }
+
+    return rebasedOptions;
+}
+
+/**
+ * Options file content, parsed.
+ */
+interface ParsedOptionsFile {
+    /**
+     * Options from the options file itself.
+     */
+    fileOptions: Partial<Options>;
+
+    /**
+     * Paths of the options files that it extends.
+     */
+    extendedOptionsFiles: string[];
+}
+
+/**
+ * Parse the content of an options file.
+ *
+ * @param optionsFile
+ * Options file.
+ *
+ * @param content
+ * Content.
+ *
+ * @param extendingOptionsFiles
+ * Options files extending this one, to detect circular references.
+ *
+ * @returns
+ * Parsed options file.
+ */
+function parseOptionsFile(optionsFile: string, content: unknown, extendingOptionsFiles: readonly string[]): ParsedOptionsFile {
+    if (extendingOptionsFiles.includes(optionsFile)) {
+        throw new Error(`Circular extends: ${[...extendingOptionsFiles, optionsFile].join(" -> ")}`);
+    }
+
+    const interpolatedContent = interpolateEnvironment(content, optionsFile);
+
+    if (!isNonNullObject(interpolatedContent)) {
+        throw new Error(`${optionsFile} does not contain an object`);
+    }
+
+    const {
+        extends: extendsSpecifiers,
+        ...fileOptions
+    } = validateOptions(interpolatedContent, optionsFile);
+
+    return {
+        fileOptions,
+        extendedOptionsFiles: (extendsSpecifiers === undefined ? [] : Array.isArray(extendsSpecifiers) ? extendsSpecifiers : [extendsSpecifiers]).map(specifier => resolveExtends(specifier, optionsFile))
+    };
+}
+
+/**
+ * Merge the options from an options file over the options from the options files that it extends.
+ *
+ * @param fileOptions
+ * Options from the options file itself.
+ *
+ * @param extendedOptionsFiles
+ * Paths of the options files that it extends.
+ *
+ * @param extendedOptions
+ * Options loaded from the options files that it extends, in the same order.
+ *
+ * @returns
+ * Merged options.
+ */
+function extendOptions(fileOptions: Partial<Options>, extendedOptionsFiles: readonly string[], extendedOptions: ReadonlyArray<Partial<Options>>): Partial<Options> {
+    // Later extended options override earlier ones; the options file itself overrides all of them.
+    return [...extendedOptions.map((options, index) => rebaseOptions(options, path.dirname(extendedOptionsFiles[index]))), fileOptions].reduce((baseOptions, overridingOptions) => mergePartialOptions(baseOptions, overridingOptions), {});
+}
+
+/**
+ * Load an options file and all the options files that it extends.
+ *
+ * @param optionsFile
+ * Options file.
+ *
+ * @param extendingOptionsFiles
+ * Options files extending this one, to detect circular references.
+ *
+ * @returns
+ * Options from the options file, merged over the options from the options files that it extends.
+ */
+async function loadOptionsFile(optionsFile: string, extendingOptionsFiles: readonly string[]): Promise<Partial<Options>> {
+    const {
+        fileOptions,
+        extendedOptionsFiles
+    } = parseOptionsFile(optionsFile, await readOptionsFile(optionsFile), extendingOptionsFiles);
+
+    return extendOptions(fileOptions, extendedOptionsFiles, await Promise.all(extendedOptionsFiles.map(async extendedOptionsFile => loadOptionsFile(extendedOptionsFile, [...extendingOptionsFiles, optionsFile]))));
+}
+
+/**
+ * Load a JSON or YAML options file and all the options files that it extends, which must also be JSON or YAML.
+ *
+ * @param optionsFile
+ * Options file.
+ *
+ * @param extendingOptionsFiles
+ * Options files extending this one, to detect circular references.
+ *
+ * @returns
+ * Options from the options file, merged over the options from the options files that it extends.
+ */
+function loadOptionsFileSync(optionsFile: string, extendingOptionsFiles: readonly string[]): Partial<Options> {
+    const {
+        fileOptions,
+        extendedOptionsFiles
+    } = parseOptionsFile(optionsFile, readOptionsFileSync(optionsFile), extendingOptionsFiles);
+
+    return extendOptions(fileOptions, extendedOptionsFiles, extendedOptionsFiles.map(extendedOptionsFile => loadOptionsFileSync(extendedOptionsFile, [...extendingOptionsFiles, optionsFile])));
+}
+
+/**
+ * Get the options for a profile.
+ *
+ * @param fileOptions
+ * File options, in which the profile is defined.
+ *
+ * @param profileName
+ * Profile name.
+ *
+ * @returns
+ * Profile options.
+ */
+function profileOptions(fileOptions: Partial<Options>, profileName: string): ProfileOptions {
+    const profiles = fileOptions.profiles ?? {};
+
+    // Only the profiles themselves are looked up, so that a name such as "constructor" isn't found on the prototype.
+    if (!Object.hasOwn(profiles, profileName)) {
+        const profileNames = Object.keys(profiles);
+
+        throw new Error(`Profile "${profileName}" not found; ${profileNames.length !== 0 ? `available profiles are ${profileNames.map(name => `"${name}"`).join(", ")}` : "no profiles are defined"}`);
+    }
+
+    return profiles[profileName];
+}
+
+/**
+ * Resolve options from file options, overlaid by the selected profile, if any, and overridden by environment options
+ * and parameter options.
+ *
+ * @param fileOptions
+ * File options.
+ *
+ * @param parameterOptions
+ * Parameter options.
+ *
+ * @returns
+ * Options.
+ */
+export function resolveOptions(fileOptions: Partial<Options>, parameterOptions: Partial<Options> | undefined): Options {
+    const environmentVariableOptions = environmentOptions(process.env);
+
+    // Parameter or environment options may select a profile other than the default set in the options file.
+    const profileName = parameterOptions?.profile ?? environmentVariableOptions.profile ?? fileOptions.profile;
+
+    // Build options from file options, overlaid by profile options, overridden by environment and parameter options.
+    return mergeOptions(profileName !== undefined ? mergePartialOptions(fileOptions, profileOptions(fileOptions, profileName)) : fileOptions, environmentVariableOptions, parameterOptions);
+}
+
+/**
+ * Validate parameter options and find the options file to load.
+ *
+ * @param parameterOptions
+ * Parameter options.
+ *
+ * @param startingDirectory
+ * Starting directory, in which the default options file is found and against which an explicit options file path is
+ * resolved.
+ *
+ * @returns
+ * Path of the options file or undefined if none.
+ */
+function locateOptionsFile(parameterOptions: Partial<Options> | undefined, startingDirectory: string): string | undefined {
+    if (parameterOptions !== undefined) {
+        validateOptions(parameterOptions, "parameter options");
+
+        if (parameterOptions.extends !== undefined) {
+            throw new Error("Invalid options in parameter options: \"extends\" applies only to options files");
+        }
+    }
+
+    const explicitOptionsFile = parameterOptions?.optionsFile ?? environmentOptions(process.env).optionsFile;
+
+    let optionsFile: string | undefined;
+
+    if (explicitOptionsFile !== undefined) {
+        optionsFile = path.resolve(startingDirectory, explicitOptionsFile);
+
+        if (!fs.existsSync(optionsFile)) {
+            throw new Error(`Options file ${optionsFile} not found`);
+        }
+    } else {
+        optionsFile = findOptionsFile(startingDirectory);
+    }
+
+    return optionsFile;
+}
+
+/**
+ * Resolve options from the options loaded from the options file, if any, and record the options file.
+ *
+ * @param optionsFile
+ * Options file or undefined if none.
+ *
+ * @param fileOptions
+ * File options.
+ *
+ * @param parameterOptions
+ * Parameter options.
+ *
+ * @returns
+ * Options.
+ */
+function resolveFileOptions(optionsFile: string | undefined, fileOptions: Partial<Options>, parameterOptions: Partial<Options> | undefined): Options {
+    const options = resolveOptions(fileOptions, parameterOptions);
+
+    if (optionsFile !== undefined) {
+        options.optionsFile = optionsFile;
+    }
+
+    return options;
+}
+
+/**
+ * Load options from the options file, overlaid by the selected profile, if any, and overridden by environment options
+ * and parameter options.
+ *
+ * @param parameterOptions
+ * Parameter options.
+ *
+ * @param startingDirectory
+ * Starting directory, in which the default options file is found and against which an explicit options file path is
+ * resolved; default is the current working directory.
+ *
+ * @returns
+ * Options. The `optionsFile` property is set to the path of the options file loaded, if any.
+ */
+export async function loadOptions(parameterOptions?: Partial<Options>, startingDirectory: string = process.cwd()): Promise<Options> {
+    const optionsFile = locateOptionsFile(parameterOptions, startingDirectory);
+
+    return resolveFileOptions(optionsFile, optionsFile !== undefined ? await loadOptionsFile(optionsFile, []) : {}, parameterOptions);
+}
+
+/**
+ * Load options synchronously, as {@link loadOptions} does. The options file and all the options files that it extends
+ * must be JSON or YAML.
+ *
+ * @param parameterOptions
+ * Parameter options.
+ *
+ * @param startingDirectory
+ * Starting directory, in which the default options file is found and against which an explicit options file path is
+ * resolved; default is the current working directory.
+ *
+ * @returns
+ * Options. The `optionsFile` property is set to the path of the options file loaded, if any.
+ */
+export function loadOptionsSync(parameterOptions?: Partial<Options>, startingDirectory: string = process.cwd()): Options {
+    const optionsFile = locateOptionsFile(parameterOptions, startingDirectory);
+
+    return resolveFileOptions(optionsFile, optionsFile !== undefined ? loadOptionsFileSync(optionsFile, []) : {}, parameterOptions);
+}
+
+/**
+ * Load workspace options from a workspace options file.
+ *
+ * @param workspaceFile
+ * Workspace options file (JSON, YAML, JavaScript, or TypeScript).
+ *
+ * @returns
+ * Workspace options.
+ */
+export async function loadWorkspaceOptions(workspaceFile: string): Promise<WorkspaceOptions> {
+    if (!fs.existsSync(workspaceFile)) {
+        throw new Error(`Workspace options file ${workspaceFile} not found`);
+    }
+
+    const content = interpolateEnvironment(await readOptionsFile(workspaceFile), workspaceFile);
+
+    if (!isNonNullObject(content)) {
+        throw new Error(`${workspaceFile} does not contain an object`);
+    }
+
+    return validateWorkspaceOptions(content, workspaceFile);
+}
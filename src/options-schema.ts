@@ -0,0 +1,370 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Ajv, type ErrorObject, type SchemaObject, type ValidateFunction } from "ajv";
+import decamelize from "decamelize";
+import fs from "node:fs";
+import { modulePath } from "./file.js";
+import type { Options, WorkspaceOptions } from "./options.js";
+import { isNonNullObject } from "./utility.js";
+
+/**
+ * Path of JSON Schema generated from the {@link Options} interface.
+ */
+export const OPTIONS_SCHEMA_PATH = modulePath("../pandoc-spec.options.schema.json");
+
+/**
+ * Path of JSON Schema generated from the {@link WorkspaceOptions} interface.
+ */
+export const WORKSPACE_SCHEMA_PATH = modulePath("../pandoc-spec.workspace.schema.json");
+
+/**
+ * Prefix of environment variables that override options.
+ */
+export const ENVIRONMENT_VARIABLE_PREFIX = "PANDOC_SPEC_";
+
+/**
+ * Options properties that apply only to options files and so can't be set through environment variables.
+ */
+const OPTIONS_FILE_ONLY_PROPERTIES: readonly string[] = ["$schema", "extends", "profiles"];
+
+/**
+ * Schema, loaded on first use.
+ */
+let optionsSchema: SchemaObject | undefined;
+
+/**
+ * Validate function, compiled on first use.
+ */
+let validateFunction: ValidateFunction | undefined;
+
+/**
+ * Workspace validate function, compiled on first use.
+ */
+let workspaceValidateFunction: ValidateFunction | undefined;
+
+/**
+ * Get the schema.
+ *
+ * @returns
+ * Schema.
+ */
+function getSchema(): SchemaObject {
+    if (optionsSchema === undefined) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Schema format is known.
+        optionsSchema = JSON.parse(fs.readFileSync(OPTIONS_SCHEMA_PATH).toString()) as SchemaObject;
+    }
+
+    return optionsSchema;
+}
+
+/**
+ * Get the definitions in the schema.
+ *
+ * @returns
+ * Definitions by name.
+ */
+function getDefinitions(): Record<string, SchemaObject> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Schema format is known.
+    return getSchema()["definitions"] as Record<string, SchemaObject>;
+}
+
+/**
+ * Get the validate function. Options are validated as partial, i.e., with no required properties, as they may be
+ * completed by merging with other options.
+ *
+ * @returns
+ * Validate function.
+ */
+function getValidateFunction(): ValidateFunction {
+    if (validateFunction === undefined) {
+        const schema = getSchema();
+        const definitions = getDefinitions();
+
+        validateFunction = new Ajv({
+            allErrors: true,
+            verbose: true
+        }).compile({
+            ...schema,
+            definitions: {
+                ...definitions,
+                Options: {
+                    ...definitions["Options"],
+                    required: []
+                }
+            }
+        });
+    }
+
+    return validateFunction;
+}
+
+/**
+ * Get the workspace validate function.
+ *
+ * @returns
+ * Workspace validate function.
+ */
+function getWorkspaceValidateFunction(): ValidateFunction {
+    if (workspaceValidateFunction === undefined) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Schema format is known.
+        const schema = JSON.parse(fs.readFileSync(WORKSPACE_SCHEMA_PATH).toString()) as SchemaObject;
+
+        workspaceValidateFunction = new Ajv({
+            allErrors: true,
+            verbose: true
+        }).compile(schema);
+    }
+
+    return workspaceValidateFunction;
+}
+
+/**
+ * Calculate the Levenshtein distance between two strings.
+ *
+ * @param s1
+ * First string.
+ *
+ * @param s2
+ * Second string.
+ *
+ * @returns
+ * Minimum number of single-character insertions, deletions, and substitutions to transform one into the other.
+ */
+function levenshteinDistance(s1: string, s2: string): number {
+    let previousRow = Array.from({
+        length: s2.length + 1
+    }, (_value, index) => index);
+
+    for (let i = 1; i <= s1.length; i++) {
+        const currentRow = [i];
+
+        for (let j = 1; j <= s2.length; j++) {
+            currentRow.push(Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + (s1[i - 1] === s2[j - 1] ? 0 : 1)));
+        }
+
+        previousRow = currentRow;
+    }
+
+    return previousRow[s2.length];
+}
+
+/**
+ * Find the closest match for an unknown property name.
+ *
+ * @param propertyName
+ * Unknown property name.
+ *
+ * @param candidates
+ * Known property names.
+ *
+ * @returns
+ * Closest match or undefined if none is close enough to be a likely typo.
+ */
+function closestMatch(propertyName: string, candidates: readonly string[]): string | undefined {
+    const lowerPropertyName = propertyName.toLowerCase();
+
+    let closestCandidate: string | undefined = undefined;
+    let closestDistance = Math.max(2, Math.floor(propertyName.length / 3)) + 1;
+
+    for (const candidate of candidates) {
+        // Case differences alone are the most likely typo.
+        const distance = candidate.toLowerCase() === lowerPropertyName ? 0 : levenshteinDistance(lowerPropertyName, candidate.toLowerCase());
+
+        if (distance < closestDistance) {
+            closestCandidate = candidate;
+            closestDistance = distance;
+        }
+    }
+
+    return closestCandidate;
+}
+
+/**
+ * Convert a JSON pointer to a JSON path.
+ *
+ * @param jsonPointer
+ * JSON pointer, e.g., "/filters/0/type".
+ *
+ * @returns
+ * JSON path, e.g., "$.filters[0].type".
+ */
+function jsonPath(jsonPointer: string): string {
+    return `$${jsonPointer.split("/").slice(1).map((segment) => {
+        const key = segment.replace(/~1/g, "/").replace(/~0/g, "~");
+
+        return /^\d+$/.test(key) ? `[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+    }).join("")}`;
+}
+
+/**
+ * Describe a validation error.
+ *
+ * @param error
+ * Validation error.
+ *
+ * @returns
+ * Description, including JSON path.
+ */
+function describeError(error: ErrorObject): string {
+    let description: string;
+
+    switch (error.keyword) {
+        case "additionalProperties": {
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Parameter type is known for keyword.
+            const additionalProperty = (error.params as { additionalProperty: string }).additionalProperty;
+
+            const properties: unknown = error.parentSchema?.["properties"];
+            const suggestion = isNonNullObject(properties) ? closestMatch(additionalProperty, Object.keys(properties)) : undefined;
+
+            description = `${jsonPath(`${error.instancePath}/${additionalProperty.replace(/~/g, "~0").replace(/\//g, "~1")}`)}: unknown property${suggestion !== undefined ? `; did you mean "${suggestion}"?` : ""}`;
+            break;
+        }
+
+        case "enum": {
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Parameter type is known for keyword.
+            const allowedValues = (error.params as { allowedValues: unknown[] }).allowedValues;
+
+            description = `${jsonPath(error.instancePath)}: ${JSON.stringify(error.data)} is not one of ${allowedValues.map(allowedValue => JSON.stringify(allowedValue)).join(", ")}`;
+            break;
+        }
+
+        default:
+            description = `${jsonPath(error.instancePath)}: ${error.message ?? "is invalid"}`;
+            break;
+    }
+
+    return description;
+}
+
+/**
+ * Assert that a value is valid according to a validate function.
+ *
+ * @param validate
+ * Validate function.
+ *
+ * @param value
+ * Value.
+ *
+ * @param source
+ * Source of the value (e.g., the options file path), for error reporting.
+ */
+function assertValid(validate: ValidateFunction, value: NonNullable<object>, source: string): void {
+    if (!validate(value)) {
+        const problems = (validate.errors ?? []).map(describeError);
+
+        throw new Error(`Invalid options in ${source}:\n${problems.map(problem => `  ${problem}`).join("\n")}`);
+    }
+}
+
+/**
+ * Validate options against the JSON Schema. All properties are optional, as options may be completed by merging with
+ * other options.
+ *
+ * @param options
+ * Options.
+ *
+ * @param source
+ * Source of the options (e.g., the options file path), for error reporting.
+ *
+ * @returns
+ * Options.
+ */
+export function validateOptions(options: NonNullable<object>, source: string): Partial<Options> {
+    assertValid(getValidateFunction(), options, source);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Options have been validated.
+    return options as Partial<Options>;
+}
+
+/**
+ * Validate workspace options against the workspace JSON Schema.
+ *
+ * @param workspaceOptions
+ * Workspace options.
+ *
+ * @param source
+ * Source of the workspace options (e.g., the workspace options file path), for error reporting.
+ *
+ * @returns
+ * Workspace options.
+ */
+export function validateWorkspaceOptions(workspaceOptions: NonNullable<object>, source: string): WorkspaceOptions {
+    assertValid(getWorkspaceValidateFunction(), workspaceOptions, source);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Workspace options have been validated.
+    return workspaceOptions as WorkspaceOptions;
+}
+
+/**
+ * Get the name of the environment variable that overrides an options property.
+ *
+ * @param propertyName
+ * Property name, e.g., "generateTOC".
+ *
+ * @returns
+ * Environment variable name, e.g., "PANDOC_SPEC_GENERATE_TOC".
+ */
+export function environmentVariableName(propertyName: string): string {
+    return `${ENVIRONMENT_VARIABLE_PREFIX}${decamelize(propertyName, {
+        separator: "_"
+    }).toUpperCase()}`;
+}
+
+/**
+ * Build options from `PANDOC_SPEC_<UPPER_SNAKE>` environment variables. String property values are taken as is; all
+ * other property values (booleans, numbers, arrays, and objects) are parsed as JSON.
+ *
+ * @param env
+ * Environment.
+ *
+ * @returns
+ * Environment options.
+ */
+export function environmentOptions(env: NodeJS.ProcessEnv): Partial<Options> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Schema format is known.
+    const properties = getDefinitions()["Options"]["properties"] as Record<string, SchemaObject>;
+
+    const options: Record<string, unknown> = {};
+
+    for (const [propertyName, propertySchema] of Object.entries(properties)) {
+        const name = environmentVariableName(propertyName);
+        const value = env[name];
+
+        if (!OPTIONS_FILE_ONLY_PROPERTIES.includes(propertyName) && value !== undefined) {
+            let propertyValue: unknown;
+
+            if (propertySchema["type"] === "string") {
+                propertyValue = value;
+            } else {
+                try {
+                    propertyValue = JSON.parse(value);
+                } catch {
+                    throw new Error(`Invalid options in environment variable ${name}: ${JSON.stringify(value)} is not valid JSON`);
+                }
+            }
+
+            // Validate each property separately so that errors are reported against the environment variable.
+            validateOptions({
+                [propertyName]: propertyValue
+            }, `environment variable ${name}`);
+
+            options[propertyName] = propertyValue;
+        }
+    }
+
+    return options;
+}
@@ -18,17 +18,112 @@
  * Filter.
  */
 export interface Filter {
-    type: "lua" | "json";
-
+    /**
+     * Filter type; default is "lua". Lua filters are integrated directly by Pandoc; JSON filters process the JSON AST
+     * from stdin and write updated JSON AST to stdout; module filters are JavaScript or TypeScript modules that export
+     * a function taking the document and returning a new one, run in the builder process; built-in filters are the
+     * filters provided by this package, identified by name.
+     */
+    type?: "lua" | "json" | "module" | "builtin";
+
+    /**
+     * Path to a script for a Lua filter, an operating system command for a JSON filter, a module path or package
+     * specifier for a module filter, or the name of a built-in filter ("include-files", "include-code-files",
+     * "mermaid", "diagrams", or "pandoc-defref").
+     */
     path: string;
+
+    /**
+     * Output formats for which the filter is run; if not provided, the filter is run for all output formats. A filter for
+     * only some of the outputs is run for each of them, after all the other filters.
+     */
+    formats?: string[];
+
+    /**
+     * If true, the filter isn't run. Typically used to disable a built-in filter.
+     */
+    disabled?: boolean;
+
+    /**
+     * Additional arguments, passed after the output format. Applies only to filters run as separate processes, i.e.,
+     * JSON filters and the "pandoc-defref" built-in filter.
+     */
+    args?: string[];
+
+    /**
+     * Additional environment variables, added to the environment of the builder process. Applies only to filters run
+     * as separate processes, as for arguments.
+     */
+    env?: Record<string, string>;
+}
+
+/**
+ * Mermaid diagram rendering. Diagrams are rendered by headless Chromium and embedded in the output.
+ */
+export interface Mermaid {
+    /**
+     * Image format; default is "svg".
+     */
+    format?: "svg" | "png";
+
+    /**
+     * Theme, e.g., "default", "forest", "dark", or "neutral".
+     */
+    theme?: string;
+
+    /**
+     * Background color, e.g., "white" or "transparent".
+     */
+    background?: string;
+
+    /**
+     * Width in pixels.
+     */
+    width?: number;
+
+    /**
+     * Scale factor, applied to raster images.
+     */
+    scale?: number;
+
+    /**
+     * Mermaid configuration file, relative to the starting directory.
+     */
+    configFile?: string;
+}
+
+/**
+ * Diagram tool, a locally installed command that reads a diagram from stdin and writes SVG to stdout.
+ */
+export interface DiagramTool {
+    /**
+     * Diagram language, identified by the class of the code block, e.g., "plantuml" or "dot".
+     */
+    language: string;
+
+    /**
+     * Operating system command.
+     */
+    command: string;
+
+    /**
+     * Arguments.
+     */
+    args?: string[];
 }
 
 /**
  * Variable.
  */
 export interface Variable {
+    /**
+     * Variable key.
+     */
     key: string;
 
+    /**
+     * Variable value. If not provided, Pandoc interprets it as boolean "true".
+     */
     value?: string;
 }
 
@@ -36,8 +131,14 @@ export interface Variable {
  * Style.
  */
 export interface Style {
+    /**
+     * Style name, e.g., "container", "header", "body", "toc", "content", or "footer" for the default template.
+     */
     name: string;
 
+    /**
+     * Style class name.
+     */
     className: string;
 }
 
@@ -45,66 +146,536 @@ export interface Style {
  *  Additional option.
  */
 export interface AdditionalOption {
+    /**
+     * The option to be added to the Pandoc command line.
+     */
     option: string;
 
+    /**
+     * The value for the option, if any.
+     */
     value?: string;
 }
 
 /**
- * Pandoc options.
+ * Output. Properties not defined in an output are taken from the corresponding top-level options.
  */
-export interface Options {
-    optionsFile?: string;
+export interface Output {
+    /**
+     * Output file format; "pdf" is printed from the HTML output by headless Chromium rather than by Pandoc.
+     */
+    outputFormat?: string;
+
+    /**
+     * The name of the output file, relative to the output directory.
+     */
+    outputFile: string;
+
+    /**
+     * The Pandoc template to use in generating the output.
+     */
+    templateFile?: string;
+
+    /**
+     * The Word reference document from which a DOCX output takes its styles.
+     */
+    referenceDocument?: string;
+
+    /**
+     * CSS files, relative to the input directory.
+     */
+    cssFiles?: string[];
+
+    /**
+     * Additional Pandoc writer options to be added to the Pandoc command line.
+     */
+    additionalWriterOptions?: AdditionalOption[];
+
+    /**
+     * If true and the output format is HTML, CSS, scripts, images, and diagrams are embedded in the output file.
+     */
+    selfContained?: boolean;
+
+    /**
+     * If 1 or 2 and the output format is HTML, the output is split into pages, one per section at or above that
+     * heading level; 0 for a single page.
+     */
+    split?: 0 | 1 | 2;
+}
+
+/**
+ * PDF page margins, as CSS lengths (e.g., "20mm" or "1in").
+ */
+export interface PDFMargins {
+    /**
+     * Top margin.
+     */
+    top?: string;
+
+    /**
+     * Right margin.
+     */
+    right?: string;
+
+    /**
+     * Bottom margin.
+     */
+    bottom?: string;
+
+    /**
+     * Left margin.
+     */
+    left?: string;
+}
+
+/**
+ * Page layout of outputs with the "pdf" format, which are printed from the HTML output by headless Chromium.
+ */
+export interface PDF {
+    /**
+     * Page size; default is "Letter".
+     */
+    pageSize?: "Letter" | "Legal" | "Tabloid" | "Ledger" | "A0" | "A1" | "A2" | "A3" | "A4" | "A5" | "A6";
+
+    /**
+     * If true, pages are printed in landscape orientation.
+     */
+    landscape?: boolean;
+
+    /**
+     * Page margins; default is 20mm top and bottom, to leave room for the header and footer, and 15mm left and right.
+     */
+    margins?: PDFMargins;
+
+    /**
+     * HTML template for the running header; elements with the classes "date", "title", "url", "pageNumber", and
+     * "totalPages" are filled in with the corresponding values. Default is the document title; an empty string
+     * suppresses the header.
+     */
+    headerTemplate?: string;
+
+    /**
+     * HTML template for the running footer, as for the header. Default is the page number and total pages; an empty
+     * string suppresses the footer.
+     */
+    footerTemplate?: string;
+}
+
+/**
+ * Change-marked build against a base version, either a git ref or a previous output; exactly one of `baseRef` and
+ * `baseFile` is required.
+ */
+export interface Diff {
+    /**
+     * Git ref of the base version (e.g., the tag of the last published version), whose input files are read through the
+     * same pipeline as the current ones.
+     */
+    baseRef?: string;
+
+    /**
+     * Path of a previous output as the base version, relative to the starting directory, read by Pandoc (preferably a
+     * JSON AST output).
+     */
+    baseFile?: string;
+
+    /**
+     * Output file, relative to the output directory; default is "diff.html".
+     */
+    outputFile?: string;
+}
+
+/**
+ * Preview server.
+ */
+export interface Serve {
+    /**
+     * Host name or address on which to listen; default is "localhost".
+     */
+    host?: string;
+
+    /**
+     * Port on which to listen; default is 8080.
+     */
+    port?: number;
+}
+
+/**
+ * Reference to another specification's anchor index, for resolving cross-document references.
+ */
+export interface SpecReference {
+    /**
+     * Specification name, as used in references of the form `spec:name#id`.
+     */
+    name: string;
 
+    /**
+     * Path of the specification's anchor index file, relative to the starting directory.
+     */
+    indexFile: string;
+}
+
+/**
+ * Pandoc options that may be overlaid by a profile.
+ */
+export interface ProfileOptions {
+    /**
+     * Log level, one of "silly", "trace", "debug", "info" (default), "warn", "error", or "fatal".
+     */
     logLevel?: string;
 
+    /**
+     * If true, passes --verbose to Pandoc for verbose output.
+     */
     verbose?: boolean;
 
+    /**
+     * If true, adds a `date` value to the metadata in the format YYYY-MM-DD.
+     */
     autoDate?: boolean;
 
+    /**
+     * If true, adds a `git` value to the metadata with the commit hash, short commit hash, commit date, nearest tag,
+     * branch, dirty flag, and last commit date of each input file from the git checkout containing the input
+     * directory. Ignored if the input directory is not in a git checkout.
+     */
+    autoGitMetadata?: boolean;
+
+    /**
+     * Input file format; default is "markdown".
+     */
     inputFormat?: string;
 
+    /**
+     * Output file format; default is "html". The "pdf" format is printed from the HTML output by headless Chromium
+     * rather than by Pandoc.
+     */
     outputFormat?: string;
 
+    /**
+     * The amount by which to shift the section heading level; default is -1, which takes heading level 1 as the title.
+     */
     shiftHeadingLevelBy?: number;
 
+    /**
+     * If true (default), sections are numbered automatically.
+     */
     numberSections?: boolean;
 
+    /**
+     * If true (default), a table of contents is generated from the headings.
+     */
     generateTOC?: boolean;
 
+    /**
+     * Additional filters to be applied to the transformation, in the order in which they're run. Built-in filters not
+     * listed run in their default positions.
+     */
     filters?: Filter[];
 
+    /**
+     * Mermaid diagram rendering.
+     */
+    mermaid?: Mermaid;
+
+    /**
+     * Diagram tools, in addition to or replacing the default tools for "plantuml" and "dot" diagrams.
+     */
+    diagramTools?: DiagramTool[];
+
+    /**
+     * The Pandoc template to use in generating the output, relative to the starting directory.
+     */
     templateFile?: string;
 
+    /**
+     * The Word reference document from which DOCX outputs take their styles, relative to the starting directory;
+     * default is the internal reference document.
+     */
+    referenceDocument?: string;
+
+    /**
+     * A header file to apply to the template, relative to the starting directory.
+     */
     headerFile?: string;
 
+    /**
+     * A footer file to apply to the template, relative to the starting directory.
+     */
     footerFile?: string;
 
+    /**
+     * Variables to be passed to the template file.
+     */
     variables?: Variable[];
 
+    /**
+     * Styles to be added to the "class" attributes of components in the template file with matching classes. In DOCX
+     * outputs, class names are applied as Word custom styles instead.
+     */
     styles?: Style[];
 
+    /**
+     * The directory in which the input file or files reside.
+     */
     inputDirectory?: string;
 
-    inputFiles: string[];
-
+    /**
+     * One or more input files (may be glob patterns), relative to the input directory. Files matched by a glob pattern
+     * are read in the order of the input order file, then of the "order" key of their YAML front matter, then in
+     * natural order.
+     */
+    inputFiles?: string[];
+
+    /**
+     * Input order file, relative to the input directory, listing input files one per line in the order in which they
+     * are read when matched by a glob pattern.
+     */
+    inputOrderFile?: string;
+
+    /**
+     * Files (may be glob patterns), relative to the input directory, that aren't input files, such as Markdown files
+     * included by other input files. They are excluded from input file glob patterns and from the warning about
+     * Markdown files in the input directory that aren't input files.
+     */
+    excludeInputFiles?: string[];
+
+    /**
+     * CSS files, relative to the input directory.
+     */
     cssFiles?: string[];
 
+    /**
+     * Resource files (may be glob patterns), relative to the input directory, to be copied to the output directory.
+     */
     resourceFiles?: string[];
 
+    /**
+     * The directory to which the output file will be written and CSS and resource files will be copied.
+     */
     outputDirectory?: string;
 
+    /**
+     * If true, the output directory is cleaned before Pandoc is run for the first time.
+     */
     cleanOutput?: boolean;
 
-    outputFile: string;
+    /**
+     * The name of the output file, relative to the output directory.
+     */
+    outputFile?: string;
+
+    /**
+     * Additional outputs, written from the same JSON AST.
+     */
+    outputs?: Output[];
 
+    /**
+     * Additional Pandoc reader options to be added to the Pandoc command line.
+     */
     additionalReaderOptions?: AdditionalOption[];
 
+    /**
+     * Additional Pandoc writer options to be added to the Pandoc command line.
+     */
     additionalWriterOptions?: AdditionalOption[];
 
+    /**
+     * If true, assets that the default template otherwise loads from a CDN are loaded from copies in the output
+     * directory, copied from the package.
+     */
+    offline?: boolean;
+
+    /**
+     * If true, HTML outputs are written as single self-contained files, with CSS, scripts, images, and diagrams
+     * embedded. Implies offline.
+     */
+    selfContained?: boolean;
+
+    /**
+     * Page layout of outputs with the "pdf" format.
+     */
+    pdf?: PDF;
+
+    /**
+     * If 1 or 2, HTML outputs are split into pages, one per section at or above that heading level, with a shared table
+     * of contents and previous and next page navigation; default is 0, for a single page.
+     */
+    split?: 0 | 1 | 2;
+
+    /**
+     * If true, a search index of the section headings, anchors, and text and the defined terms of each HTML output is
+     * written next to it, and the default template adds a search box.
+     */
+    search?: boolean;
+
+    /**
+     * If provided, an HTML output marking the changes from a base version, with a summary of the changed sections, is
+     * written as well.
+     */
+    diff?: Diff;
+
+    /**
+     * Name under which the specification's anchors are registered for cross-document references; default is the name
+     * of the input directory.
+     */
+    specName?: string;
+
+    /**
+     * The name of the anchor index file, relative to the output directory. If provided, an index of the anchors in the
+     * specification, with their section numbers, titles, and URLs, is written to it on every build.
+     */
+    anchorIndexFile?: string;
+
+    /**
+     * Other specifications' anchor index files, for resolving cross-document references.
+     */
+    specReferences?: SpecReference[];
+
+    /**
+     * Post-build check of the HTML outputs for dangling fragment links, duplicate identifiers, and missing local link
+     * and resource targets: "off" to skip it, "warn" (default) to report problems as warnings, or "error" to fail the
+     * build if there are any.
+     */
+    linkCheck?: "off" | "warn" | "error";
+
+    /**
+     * If true, the input directory is watched for changes and Pandoc is rerun when detected.
+     */
     watch?: boolean;
 
+    /**
+     * Time in milliseconds to wait for changes to be fully written before rerunning Pandoc; default is 2000.
+     */
     watchWait?: number;
+
+    /**
+     * If defined, the output directory is served over HTTP with live reload.
+     */
+    serve?: Serve;
+
+    /**
+     * If true, the JSON AST read from the input files and rendered diagrams are cached by content hash; default is the
+     * value of watch.
+     */
+    cache?: boolean;
+
+    /**
+     * The directory in which cached content is stored; default is .pandoc-spec-cache.
+     */
+    cacheDirectory?: string;
+}
+
+/**
+ * Pandoc options.
+ */
+export interface Options extends ProfileOptions {
+    /**
+     * URI of the JSON Schema for the options file, for use by editors; otherwise ignored.
+     */
+    $schema?: string;
+
+    /**
+     * Options files to extend, each either a path relative to the extending options file or an npm package
+     * specifier. Options in the extending file override those in the extended files.
+     */
+    extends?: string | string[];
+
+    /**
+     * Path of options file; default is the first found of pandoc-spec.options.json, pandoc-spec.options.yaml,
+     * pandoc-spec.options.yml, pandoc-spec.config.js, pandoc-spec.config.mjs, and pandoc-spec.config.ts.
+     */
+    optionsFile?: string;
+
+    /**
+     * Named profiles (e.g., "draft" and "release"), each an overlay of options applied over the options from the
+     * options file when selected.
+     */
+    profiles?: Record<string, ProfileOptions>;
+
+    /**
+     * Name of the profile to apply. If set in the options file, it's the default profile, which parameter options
+     * may override.
+     */
+    profile?: string;
+
+    /**
+     * One or more input files, relative to the input directory.
+     */
+    inputFiles: string[];
+}
+
+/**
+ * Workspace project, built with options from an options file, if any, overridden by the options in the project.
+ */
+export interface WorkspaceProject extends ProfileOptions {
+    /**
+     * Project name, shown on the landing page; default is the specification name.
+     */
+    name?: string;
+
+    /**
+     * Path of options file, relative to the workspace options file. Paths in the project's options are relative to the
+     * options file's directory. If not provided, the project is built with the options in the project alone, and paths
+     * in them are relative to the workspace options file's directory.
+     */
+    optionsFile?: string;
+
+    /**
+     * Name of the profile to apply.
+     */
+    profile?: string;
+}
+
+/**
+ * Workspace options.
+ */
+export interface WorkspaceOptions {
+    /**
+     * URI of the JSON Schema for the workspace options file, for use by editors; otherwise ignored.
+     */
+    $schema?: string;
+
+    /**
+     * Log level, one of "silly", "trace", "debug", "info" (default), "warn", "error", or "fatal".
+     */
+    logLevel?: string;
+
+    /**
+     * Projects, each either a path to an options file, relative to the workspace options file, or a project object.
+     */
+    projects: Array<string | WorkspaceProject>;
+
+    /**
+     * Maximum number of projects built in parallel; default is the number of available processors.
+     */
+    concurrency?: number;
+
+    /**
+     * Directory to which the landing page is written, relative to the workspace options file; default is the workspace
+     * options file's directory.
+     */
+    outputDirectory?: string;
+
+    /**
+     * Landing page file name; default is "index.html".
+     */
+    indexFile?: string;
+
+    /**
+     * Landing page title; default is "Specifications".
+     */
+    title?: string;
+
+    /**
+     * If true, each project's input directory is watched for changes and only that project is rebuilt when detected.
+     */
+    watch?: boolean;
+
+    /**
+     * If defined, the landing page and the outputs of all projects are served over HTTP by a single server, which
+     * reloads connected browsers after each rebuild. Serve options of the projects are ignored.
+     */
+    serve?: Serve;
 }
 
 /**
@@ -114,32 +685,33 @@ export interface Options {
  * Value.
  *
  * @returns
- * True if value has all non-nullable Options properties.
+ * True if value has all non-nullable Options properties and at least one of outputFile or outputs.
  */
 export function isOptions(value: NonNullable<object>): value is Options {
-    return "inputFiles" in value && "outputFile" in value;
+    return "inputFiles" in value && ("outputFile" in value || "outputs" in value);
 }
 
 /**
- * Merge file and parameter options.
+ * Merge base and overriding partial options. Overriding non-array values replace base values; overriding array values
+ * are appended to base array values. Profiles with the same name are merged by the same rules. Duplicate variables,
+ * styles, and specification references are removed, keeping the last of each.
  *
- * @param fileOptions
- * File options.
+ * @param baseOptions
+ * Base options.
  *
- * @param parameterOptions
- * Parameter options.
+ * @param overridingOptions
+ * Overriding options.
  *
  * @returns
- * Merged options.
+ * Merged partial options.
  */
-export function mergeOptions(fileOptions: Partial<Options>, parameterOptions: Partial<Options> | undefined): Options {
+export function mergePartialOptions(baseOptions: Partial<Options>, overridingOptions: Partial<Options> | undefined): Partial<Options> {
     const options: Record<string, unknown> = {
-        ...fileOptions
+        ...baseOptions
     };
 
-    if (parameterOptions !== undefined) {
-        // Parameter options override file options.
-        for (const [key, value] of Object.entries(parameterOptions)) {
+    if (overridingOptions !== undefined) {
+        for (const [key, value] of Object.entries(overridingOptions)) {
             if (!(key in options)) {
                 options[key] = value;
             } else {
@@ -147,13 +719,13 @@ export function mergeOptions(fileOptions: Partial<Options>, parameterOptions: Pa
 
                 if (!Array.isArray(value)) {
                     if (Array.isArray(existingValue)) {
-                        throw new Error("Invalid options from file and/or parameter");
+                        throw new Error(`Invalid options: "${key}" is an array in the base options but not in the overriding options`);
                     }
 
                     options[key] = value;
                 } else {
                     if (!Array.isArray(existingValue)) {
-                        throw new Error("Invalid options from file and/or parameter");
+                        throw new Error(`Invalid options: "${key}" is an array in the overriding options but not in the base options`);
                     }
 
                     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- Existing value is array of unknowns.
@@ -163,23 +735,64 @@ export function mergeOptions(fileOptions: Partial<Options>, parameterOptions: Pa
         }
     }
 
-    // Make sure that result meets the minimum requirements.
-    if (!isOptions(options)) {
-        throw new Error("Invalid options from file and/or parameter");
-    }
+    const partialOptions: Partial<Options> = options;
 
     // Remove duplicate variables.
-    if (options.variables !== undefined) {
-        const variables = options.variables;
+    if (partialOptions.variables !== undefined) {
+        const variables = partialOptions.variables;
 
-        options.variables = variables.filter((variable1, index1) => variables.find((variable2, index2) => index2 > index1 && variable2.key === variable1.key) === undefined);
+        partialOptions.variables = variables.filter((variable1, index1) => variables.find((variable2, index2) => index2 > index1 && variable2.key === variable1.key) === undefined);
+    }
+
+    // Profiles with the same name are merged rather than replaced.
+    if (baseOptions.profiles !== undefined && overridingOptions?.profiles !== undefined) {
+        const baseProfiles = baseOptions.profiles;
+
+        partialOptions.profiles = {
+            ...baseProfiles,
+            ...Object.fromEntries(Object.entries(overridingOptions.profiles).map(([profileName, profileOptions]) => [profileName, mergePartialOptions(baseProfiles[profileName] ?? {}, profileOptions)]))
+        };
+    }
+
+    // Remove duplicate specification references.
+    if (partialOptions.specReferences !== undefined) {
+        const specReferences = partialOptions.specReferences;
+
+        partialOptions.specReferences = specReferences.filter((specReference1, index1) => specReferences.find((specReference2, index2) => index2 > index1 && specReference2.name === specReference1.name) === undefined);
     }
 
     // Remove duplicate styles.
-    if (options.styles !== undefined) {
-        const styles = options.styles;
+    if (partialOptions.styles !== undefined) {
+        const styles = partialOptions.styles;
+
+        partialOptions.styles = styles.filter((style1, index1) => styles.find((style2, index2) => index2 > index1 && style2.name === style1.name) === undefined);
+    }
 
-        options.styles = styles.filter((style1, index1) => styles.find((style2, index2) => index2 > index1 && style2.name === style1.name) === undefined);
+    return partialOptions;
+}
+
+/**
+ * Merge file, environment, and parameter options.
+ *
+ * @param fileOptions
+ * File options.
+ *
+ * @param environmentOptions
+ * Environment options, from `PANDOC_SPEC_*` environment variables.
+ *
+ * @param parameterOptions
+ * Parameter options.
+ *
+ * @returns
+ * Merged options.
+ */
+export function mergeOptions(fileOptions: Partial<Options>, environmentOptions: Partial<Options>, parameterOptions: Partial<Options> | undefined): Options {
+    // Environment options override file options; parameter options override both.
+    const options = mergePartialOptions(mergePartialOptions(fileOptions, environmentOptions), parameterOptions);
+
+    // Make sure that result meets the minimum requirements.
+    if (!isOptions(options)) {
+        throw new Error("Invalid options: \"inputFiles\" and at least one of \"outputFile\" or \"outputs\" are required");
     }
 
     return options;
@@ -16,16 +16,37 @@
 
 import child_process from "child_process";
 import chokidar from "chokidar";
+import crypto from "node:crypto";
+import { EventEmitter } from "node:events";
 import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
 import type Stream from "node:stream";
 import { setTimeout } from "node:timers/promises";
 import { LogLevel } from "typescript-logging";
+import { type BuildEvents, type BuildResult, type BuildStage, type BuildWarning, parseStandardError, type PendingBuild } from "./build.js";
+import { codeBlockText, type Document, metaValue, parseDocument, serializeDocument } from "./ast.js";
+import { Cache, DEFAULT_CACHE_DIRECTORY } from "./cache.js";
+import { type AnchorIndex, AnchorRegistry, buildAnchorIndex, readAnchorIndex, type RegisteredAnchorIndex, resolveReferences } from "./cross-reference.js";
+import { type DiagramErrorHandler, locateDiagram, renderDiagrams } from "./diagram.js";
+import { diagramTools, renderToolDiagrams } from "./diagram-tool.js";
+import { diffDocuments } from "./diff.js";
+import { applyWordStyles } from "./docx.js";
 import { copyFiles, modulePath, workingPath } from "./file.js";
+import { loadModuleFilter, type ModuleFilter, resolveModuleFilter, runModuleFilters } from "./filter.js";
+import { gitMetadata, withRevision } from "./git.js";
+import { includedFiles, type InputFilesOptions, resolveInputFiles } from "./input-files.js";
+import { checkLinks } from "./link-check.js";
 import { getLogger, type Logger, updateLogger } from "./logger-helper.js";
-import { isOptions, mergeOptions, type Options } from "./options.js";
+import { renderMermaidDiagrams } from "./mermaid.js";
+import { loadOptions, loadOptionsSync } from "./options-loader.js";
+import type { DiagramTool, Filter, Mermaid, Options, Output, SpecReference } from "./options.js";
+import { type PDFJob, printPDFs } from "./pdf.js";
+import { DEFAULT_SERVE_HOST, DEFAULT_SERVE_PORT, PreviewServer } from "./preview-server.js";
 import { PuppeteerConfigurator } from "./puppeteer.js";
-import { isNonNullObject } from "./utility.js";
+import { buildSearchIndex } from "./search.js";
+import { pageDocument, splitDocument } from "./split.js";
+import { isGitHubAction, runConcurrently } from "./utility.js";
 
 const MINUTES_PER_HOUR = 60;
 const MILLISECONDS_PER_SECOND = 1000;
@@ -34,6 +55,28 @@ const ISO_DATE_LENGTH = 10;
 
 const DEFAULT_WATCH_WAIT_MILLISECONDS = 2000;
 
+const DEFAULT_DIFF_OUTPUT_FILE = "diff.html";
+
+/**
+ * Built-in Lua filters, each implemented by a script of the same name in the "pandoc" directory.
+ */
+const BUILTIN_LUA_FILTERS = ["include-files", "include-code-files"];
+
+/**
+ * Built-in filters run in process, which render diagrams.
+ */
+const BUILTIN_DIAGRAM_FILTERS = ["mermaid", "diagrams"];
+
+/**
+ * Built-in filters.
+ */
+const BUILTIN_FILTERS = [...BUILTIN_LUA_FILTERS, ...BUILTIN_DIAGRAM_FILTERS, "pandoc-defref"];
+
+/**
+ * Assets otherwise loaded from a CDN by the default template, vendored into the package by the "vendor" script.
+ */
+const VENDOR_FILES = ["anchor.min.js", "lemonade.js", "lemonadejs-tabs.js", "lemonadejs-tabs.css"];
+
 /**
  * Pipe run configuration.
  */
@@ -53,6 +96,11 @@ interface PipeRun {
      */
     shell: boolean;
 
+    /**
+     * Working directory.
+     */
+    cwd: string;
+
     /**
      * Environment.
      */
@@ -60,16 +108,213 @@ interface PipeRun {
 }
 
 /**
- * Pandoc spec builder.
+ * Writer pipe run configuration.
+ */
+interface WriterPipeRun extends PipeRun {
+    /**
+     * If true, styles are applied to the JSON AST as Word custom styles before it's written.
+     */
+    wordStyles: boolean;
+
+    /**
+     * Heading level at which the output is split into pages or 0 if not split. The output argument of a split output
+     * is added for each page.
+     */
+    split: number;
+
+    /**
+     * Output file, relative to the output directory.
+     */
+    outputFile: string;
+
+    /**
+     * Search index file, relative to the output directory, or undefined if the output isn't indexed.
+     */
+    searchIndexFile: string | undefined;
+
+    /**
+     * Runs of the filters limited to the output's format but not to the formats of all outputs, run on the output's
+     * copy of the JSON AST before it's written.
+     */
+    filterRuns: FilterRun[];
+}
+
+/**
+ * Filter run, in the order in which filters are run.
+ */
+type FilterRun = {
+    /**
+     * Pipe run of a JSON filter or of Pandoc applying consecutive Lua filters.
+     */
+    type: "pipe";
+
+    pipeRun: PipeRun;
+} | {
+    /**
+     * Mermaid diagram rendering, run in process.
+     */
+    type: "mermaid";
+} | {
+    /**
+     * Diagram rendering by locally installed tools, run in process.
+     */
+    type: "diagrams";
+} | {
+    /**
+     * Consecutive module filters, run in process.
+     */
+    type: "module";
+
+    paths: string[];
+
+    /**
+     * Output format given to the module filters.
+     */
+    outputFormat: string;
+};
+
+/**
+ * Change-marked build configuration.
+ */
+interface DiffRun {
+    /**
+     * Base version, as configured: the git ref or the path of the previous output.
+     */
+    base: string;
+
+    /**
+     * Absolute path of the base version if it's a previous output rather than a git ref.
+     */
+    baseFile: string | undefined;
+
+    /**
+     * Writer pipe run of the change-marked output.
+     */
+    writerPipeRun: WriterPipeRun;
+
+    /**
+     * Absolute path of the change-marked output.
+     */
+    outputFile: string;
+}
+
+/**
+ * State of a single build, threaded through its pipe runs.
+ */
+interface BuildContext {
+    /**
+     * Warnings reported so far.
+     */
+    warnings: BuildWarning[];
+
+    /**
+     * Duration of each stage run so far, in milliseconds.
+     */
+    durations: Partial<Record<BuildStage, number>>;
+
+    /**
+     * Status of the first command that failed, if any.
+     */
+    status: number | undefined;
+}
+
+/**
+ * Order filters as they're run. Built-in filters not listed are run in their default positions: the include filters
+ * first and the diagram stages and definition reference filter before the first JSON or module filter. A built-in filter
+ * listed more than once is run in its last position. Filters that are disabled are removed.
+ *
+ * @param filters
+ * Filters, as configured.
+ *
+ * @returns
+ * Filters to run, in order.
+ *
+ * @throws Error
+ * If a built-in filter is unknown.
+ */
+function orderFilters(filters: readonly Filter[]): Filter[] {
+    const lastBuiltinIndexes = new Map<string, number>();
+
+    for (const [index, filter] of filters.entries()) {
+        if (filter.type === "builtin") {
+            if (!BUILTIN_FILTERS.includes(filter.path)) {
+                throw new Error(`Unknown built-in filter ${filter.path}`);
+            }
+
+            lastBuiltinIndexes.set(filter.path, index);
+        }
+    }
+
+    const listedFilters = filters.filter((filter, index) => filter.type !== "builtin" || lastBuiltinIndexes.get(filter.path) === index);
+
+    const unlisted = (...names: string[]): Filter[] => names.filter(name => !lastBuiltinIndexes.has(name)).map(name => ({
+        type: "builtin",
+        path: name
+    }));
+
+    const firstIndex = listedFilters.findIndex(filter => filter.type === "json" || filter.type === "module");
+    const defaultIndex = firstIndex !== -1 ? firstIndex : listedFilters.length;
+
+    return [
+        ...unlisted("include-files", "include-code-files"),
+        ...listedFilters.slice(0, defaultIndex),
+        ...unlisted("mermaid", "diagrams", "pandoc-defref"),
+        ...listedFilters.slice(defaultIndex)
+    ].filter(filter => !(filter.disabled ?? false));
+}
+
+/**
+ * Get the files named by the values of arguments, such as Lua filter scripts and metadata files.
+ *
+ * @param args
+ * Arguments, each an option alone or an option and a value separated by "=".
+ *
+ * @param cwd
+ * Working directory, against which relative paths are resolved.
+ *
+ * @returns
+ * Absolute paths of the files named by argument values that exist.
+ */
+function argumentFiles(args: readonly string[], cwd: string): string[] {
+    return args.flatMap((arg) => {
+        const equalsIndex = arg.indexOf("=");
+        const file = arg.startsWith("--") && equalsIndex !== -1 ? path.resolve(cwd, arg.substring(equalsIndex + 1)) : undefined;
+
+        return file !== undefined && fs.existsSync(file) && fs.statSync(file).isFile() ? [file] : [];
+    });
+}
+
+/**
+ * Options already loaded and resolved, which the constructor uses as they are.
+ */
+const resolvedOptions = new WeakSet<Partial<Options>>();
+
+/**
+ * Determine if options have already been loaded and resolved.
+ *
+ * @param options
+ * Options.
+ *
+ * @returns
+ * True if the options have been loaded and resolved.
+ */
+function isResolvedOptions(options: Partial<Options> | undefined): options is Options {
+    return options !== undefined && resolvedOptions.has(options);
+}
+
+/**
+ * Pandoc spec builder. Emits {@link BuildEvents} as it builds.
  */
-export class PandocSpec {
+export class PandocSpec extends EventEmitter<BuildEvents> {
     private readonly _logger: Logger;
 
     private readonly _options: Options;
 
-    private readonly _optionsFile: string;
+    private readonly _optionsFile: string | undefined;
 
-    private readonly _templateFile: string | undefined;
+    private readonly _templateFiles: string[];
+
+    private readonly _referenceDocuments: string[];
 
     private readonly _inputDirectory: string;
 
@@ -77,7 +322,73 @@ export class PandocSpec {
 
     private readonly _outputDirectory: string;
 
-    private readonly _pipeRuns: PipeRun[];
+    private readonly _readerPipeRun: PipeRun;
+
+    private readonly _cache: Cache | undefined;
+
+    private readonly _inputFileEntries: string[];
+
+    private readonly _inputFilesOptions: InputFilesOptions;
+
+    private _inputFiles: string[] = [];
+
+    private readonly _puppeteerConfigurator: PuppeteerConfigurator;
+
+    /**
+     * Filter runs after the Lua filters applied by the reader.
+     */
+    private readonly _filterRuns: FilterRun[];
+
+    private readonly _startingDirectory: string;
+
+    private readonly _mermaid: Mermaid;
+
+    private readonly _diagramTools: DiagramTool[];
+
+    /**
+     * Module filters, by path, with the modification times of their module files as loaded.
+     */
+    private readonly _moduleFilters = new Map<string, {
+        modified: number;
+        moduleFilter: Promise<ModuleFilter>;
+    }>();
+
+    /**
+     * If true, cached input file reads are ignored on the next run, as a change to a file that they may include has
+     * been detected.
+     */
+    private _invalidateReads = false;
+
+    private readonly _writerPipeRuns: WriterPipeRun[];
+
+    private readonly _outputFiles: string[];
+
+    /**
+     * Intermediate HTML files, written to the temporary directory, and the PDF files to which they are printed.
+     */
+    private readonly _pdfJobs: PDFJob[];
+
+    private readonly _htmlOutputFiles: string[];
+
+    private readonly _diffRun: DiffRun | undefined;
+
+    private readonly _specName: string;
+
+    /**
+     * URL of the output to which anchors refer, relative to the output directory.
+     */
+    private readonly _anchorHref: string;
+
+    /**
+     * Heading level at which the output to which anchors refer is split into pages or 0 if not split.
+     */
+    private readonly _anchorSplit: number;
+
+    private readonly _anchorIndexFile: string | undefined;
+
+    private readonly _specReferences: SpecReference[];
+
+    private readonly _anchorRegistry: AnchorRegistry;
 
     /**
      * Build an argument from an option and an optional value.
@@ -120,94 +431,145 @@ export class PandocSpec {
     }
 
     /**
-     * Constructor.
+     * Constructor. Options are loaded synchronously from the options file, overridden by parameter options, so the
+     * options file and any that it extends must be JSON or YAML; use {@link PandocSpec.create} for any options file.
      *
      * @param parameterOptions
-     * Options from which to build command-line arguments.
+     * Parameter options.
+     *
+     * @param startingDirectory
+     * Starting directory, in which the default options file is found and against which paths in the options that
+     * aren't relative to the input directory are resolved; default is the current working directory.
+     *
+     * @param anchorRegistry
+     * Anchor registry, shared with other builders whose specifications reference this one or each other; default is a
+     * registry for this builder alone.
      */
-    constructor(parameterOptions?: Partial<Options>) {
+    constructor(parameterOptions?: Partial<Options>, startingDirectory: string = process.cwd(), anchorRegistry: AnchorRegistry = new AnchorRegistry()) {
+        super();
+
         const logger = getLogger("pipe-runner");
         this._logger = logger;
 
-        let optionsFile: string;
-        let optionsFileRequired: boolean;
+        const options = isResolvedOptions(parameterOptions) ? parameterOptions : loadOptionsSync(parameterOptions, startingDirectory);
 
-        if (parameterOptions !== undefined && "optionsFile" in parameterOptions) {
-            optionsFile = parameterOptions.optionsFile;
-            optionsFileRequired = true;
-        } else {
-            optionsFile = "pandoc-spec.options.json";
-            optionsFileRequired = false;
+        this._options = options;
+
+        if (options.logLevel !== undefined) {
+            const logLevel = LogLevel.toLogLevel(options.logLevel);
+            if (logLevel !== undefined) {
+                updateLogger(logger, {
+                    level: logLevel
+                });
+            }
         }
 
-        optionsFile = path.resolve(optionsFile);
+        logger.trace(() => `Options file: ${options.optionsFile ?? "(none)"}`);
+        logger.trace(() => `Consolidated options:\n${JSON.stringify(options, null, 2)}`);
 
-        let fileOptions: Partial<Options>;
+        const now = new Date();
+        const adjustedNow = new Date(now.getTime() - now.getTimezoneOffset() * MINUTES_PER_HOUR * MILLISECONDS_PER_SECOND);
 
-        if (fs.existsSync(optionsFile)) {
-            const jsonContent: unknown = JSON.parse(fs.readFileSync(optionsFile, {
-                encoding: "utf8"
-            }));
+        const inputDirectory = path.resolve(startingDirectory, options.inputDirectory ?? ".");
+        const outputDirectory = path.resolve(startingDirectory, options.outputDirectory ?? ".");
 
-            if (!isNonNullObject(jsonContent)) {
-                throw new Error(`${optionsFile} does not contain an object`);
-            }
+        // Cache is enabled by default in watch mode.
+        const cacheDirectory = options.cache ?? options.watch ?? false ? path.resolve(startingDirectory, options.cacheDirectory ?? DEFAULT_CACHE_DIRECTORY) : undefined;
 
-            fileOptions = jsonContent;
-        } else {
-            if (optionsFileRequired) {
-                throw new Error(`Options file ${optionsFile} not found`);
-            }
+        // Top-level output file, if any, is the first output.
+        const outputs: Output[] = options.outputFile !== undefined ?
+            [{
+                outputFile: options.outputFile
+            }, ...(options.outputs ?? [])] :
+            options.outputs ?? [];
 
-            fileOptions = {};
+        if (outputs.length === 0) {
+            throw new Error("No output file or outputs defined");
         }
 
-        // Build options from file options, overridden by parameter options.
-        const options = mergeOptions(fileOptions, parameterOptions);
+        // Output properties not defined in the output are taken from the top-level options.
+        const resolvedOutputs = outputs.map((output) => {
+            const outputFormat = output.outputFormat ?? options.outputFormat ?? "html";
+
+            // PDF is printed from self-contained HTML, so that it can be loaded from the temporary directory.
+            const isPDF = outputFormat === "pdf";
+            const writerFormat = isPDF ? "html" : outputFormat;
+
+            return {
+                outputFormat,
+                writerFormat,
+                outputFile: output.outputFile,
+                templateFile: workingPath(output.templateFile ?? options.templateFile ?? (writerFormat === "html" ? modulePath("../pandoc/template.html") : undefined), startingDirectory),
+                referenceDocument: writerFormat === "docx" ? workingPath(output.referenceDocument ?? options.referenceDocument ?? modulePath("../pandoc/reference.docx"), startingDirectory) : undefined,
+                cssFiles: output.cssFiles ?? options.cssFiles ?? [],
+                additionalWriterOptions: output.additionalWriterOptions ?? options.additionalWriterOptions ?? [],
+                selfContained: isPDF || (outputFormat === "html" && (output.selfContained ?? options.selfContained ?? false)),
+                split: outputFormat === "html" ? output.split ?? options.split ?? 0 : 0,
+                searchIndexFile: outputFormat === "html" && (options.search ?? false) ? path.join(path.dirname(output.outputFile), `${path.basename(output.outputFile, path.extname(output.outputFile))}.search.json`) : undefined,
+                pdfHTMLFile: isPDF ? path.join(os.tmpdir(), `pandoc-spec-pdf-${crypto.randomUUID()}.html`) : undefined
+            };
+        });
 
-        this._options = options;
+        const orderedFilters = orderFilters(options.filters ?? []);
 
-        if (options.logLevel !== undefined) {
-            const logLevel = LogLevel.toLogLevel(options.logLevel);
-            if (logLevel !== undefined) {
-                updateLogger(logger, {
-                    level: logLevel
-                });
+        const outputFormats = resolvedOutputs.map(resolvedOutput => resolvedOutput.outputFormat);
+
+        // Filters for all output formats are run once for all outputs, in order; the others are run for each output with one of their formats, after all filters run once.
+        const isSharedFilter = (filter: Filter): boolean => filter.formats === undefined || outputFormats.every(outputFormat => filter.formats?.includes(outputFormat) ?? true);
+
+        const filters = orderedFilters.filter(isSharedFilter);
+
+        // Lua filter argument for each filter, if it's a Lua filter.
+        const luaFilterArg = (filter: Filter): string | undefined => (filter.type ?? "lua") === "lua" ?
+            PandocSpec.arg("--lua-filter", workingPath(filter.path, startingDirectory)) :
+            filter.type === "builtin" && BUILTIN_LUA_FILTERS.includes(filter.path) ? PandocSpec.arg("--lua-filter", workingPath(modulePath(`../pandoc/${filter.path}.lua`))) : undefined;
+
+        for (const filter of orderedFilters) {
+            if ((luaFilterArg(filter) !== undefined || filter.type === "module" || (filter.type === "builtin" && BUILTIN_DIAGRAM_FILTERS.includes(filter.path))) && (filter.args !== undefined || filter.env !== undefined)) {
+                throw new Error(`Filter ${filter.path} isn't run as a separate process, so it can't be given arguments or environment variables`);
             }
         }
 
-        logger.trace(() => `Parameter options:\n${JSON.stringify(parameterOptions, null, 2)}`);
-        logger.trace(() => `File options:\n${JSON.stringify(fileOptions, null, 2)}`);
-        logger.trace(() => `Consolidated options:\n${JSON.stringify(options, null, 2)}`);
+        const luaFilterArgs = filters.map(luaFilterArg);
 
-        // Make sure that result meets the minimum requirements.
-        if (!isOptions(options)) {
-            throw new Error("Invalid options from file and/or parameter");
-        }
+        // Lua filters before the first filter of another type are applied by the reader.
+        const leadingLuaFilterCount = luaFilterArgs.includes(undefined) ? luaFilterArgs.indexOf(undefined) : luaFilterArgs.length;
 
-        const now = new Date();
-        const adjustedNow = new Date(now.getTime() - now.getTimezoneOffset() * MINUTES_PER_HOUR * MILLISECONDS_PER_SECOND);
+        const readerLuaFilterArgs = luaFilterArgs.slice(0, leadingLuaFilterCount).filter(luaFilterArg => luaFilterArg !== undefined);
 
-        const inputDirectory = options.inputDirectory !== undefined ? path.resolve(options.inputDirectory) : process.cwd();
-        const outputDirectory = options.outputDirectory !== undefined ? path.resolve(options.outputDirectory) : process.cwd();
+        const templateFiles = resolvedOutputs.map(resolvedOutput => resolvedOutput.templateFile).filter(templateFile => templateFile !== undefined);
 
-        const outputFormat = options.outputFormat ?? "html";
+        const referenceDocuments = resolvedOutputs.map(resolvedOutput => resolvedOutput.referenceDocument).filter(referenceDocument => referenceDocument !== undefined);
 
-        const filters = options.filters ?? [];
+        const cssFiles = resolvedOutputs.flatMap(resolvedOutput => resolvedOutput.cssFiles);
 
-        const luaFilters = filters.filter(filter => filter.type !== "json").map(filter => workingPath(filter.path));
-        const jsonFilters = filters.filter(filter => filter.type === "json").map(filter => filter.path.includes("/") ? workingPath(filter.path) : filter.path);
+        const pandocDirectory = workingPath(modulePath("../pandoc"));
+        const vendorDirectory = workingPath(modulePath("../pandoc/vendor"));
 
-        const templateFile = workingPath(options.templateFile ?? (outputFormat === "html" ? modulePath("../pandoc/template.html") : undefined));
+        // Self-contained outputs can't load assets from a CDN, as Pandoc would have to fetch them.
+        const offline = (options.offline ?? false) || resolvedOutputs.some(resolvedOutput => resolvedOutput.selfContained);
 
-        // CSS files don't apply if output format is not HTML.
-        const cssFiles = options.cssFiles ?? [];
+        if (offline) {
+            for (const vendorFile of VENDOR_FILES) {
+                if (!fs.existsSync(path.resolve(vendorDirectory, vendorFile))) {
+                    throw new Error(`Offline asset ${vendorFile} not found in ${vendorDirectory}; run "npm run vendor" to vendor the CDN assets`);
+                }
+            }
+        }
 
-        // Add core SCSS, CSS, and map files as resource files only if output format is HTML.
-        const coreCSSFiles = outputFormat === "html" ? [workingPath(modulePath("../pandoc/pandoc-spec.scss")), workingPath(modulePath("../pandoc/pandoc-spec.css")), workingPath(modulePath("../pandoc/pandoc-spec.css.map"))] : [];
+        // Add core SCSS, CSS, and map files, the search script if searching, and vendored assets if offline, as resource files only if any output format is HTML and not self-contained.
+        const coreCSSFiles = resolvedOutputs.some(resolvedOutput => resolvedOutput.outputFormat === "html" && !resolvedOutput.selfContained) ?
+            [
+                path.resolve(pandocDirectory, "pandoc-spec.scss"),
+                path.resolve(pandocDirectory, "pandoc-spec.css"),
+                path.resolve(pandocDirectory, "pandoc-spec.css.map"),
+                ...options.search ?? false ? [path.resolve(pandocDirectory, "search.js")] : [],
+                ...offline ? VENDOR_FILES.map(vendorFile => path.resolve(vendorDirectory, vendorFile)) : []
+            ] :
+            [];
 
         // Copy CSS files if they are not URIs (i.e., don't start with a URI scheme); the minimum two-character requirement is so that Windows drive letters can be handled.
-        const inputResourceFiles = [...cssFiles.filter(cssFile => !/^[A-Za-z][A-Za-z0-9+\-.]+:/.test(cssFile)), ...coreCSSFiles, ...(options.resourceFiles ?? [])];
+        const inputResourceFiles = [...new Set([...cssFiles.filter(cssFile => !/^[A-Za-z][A-Za-z0-9+\-.]+:/.test(cssFile)), ...coreCSSFiles, ...(options.resourceFiles ?? [])])];
 
         // Styles are handled as variables with a "-style" suffix in the key and leading space in the value.
         const variables = [...(options.variables ?? []), ...(options.styles ?? []).map(style => ({
@@ -215,6 +577,13 @@ export class PandocSpec {
             value: ` ${style.className}`
         }))];
 
+        // Template loads vendored assets rather than CDN assets.
+        if (offline && !variables.some(variable => variable.key === "offline")) {
+            variables.push({
+                key: "offline"
+            });
+        }
+
         // Add toc-header if not overridden.
         if (!variables.some(variable => variable.key === "toc-header")) {
             variables.push({
@@ -227,6 +596,7 @@ export class PandocSpec {
 
         logger.debug(() => `Input directory: ${inputDirectory}`);
         logger.debug(() => `Output directory: ${outputDirectory}`);
+        logger.debug(() => `Cache directory: ${cacheDirectory ?? "(none)"}`);
 
         if (options.cleanOutput ?? false) {
             fs.rmSync(outputDirectory, {
@@ -242,130 +612,456 @@ export class PandocSpec {
             });
         }
 
-        this._optionsFile = optionsFile;
-        this._templateFile = templateFile;
+        this._optionsFile = options.optionsFile;
+        this._templateFiles = [...new Set(templateFiles)];
+        this._referenceDocuments = [...new Set(referenceDocuments)];
         this._inputDirectory = inputDirectory;
         this._inputResourceFiles = inputResourceFiles;
         this._outputDirectory = outputDirectory;
 
         const verboseArg = PandocSpec.arg("--verbose", verbose);
 
-        const pandocInputArgs: string[] = [
-            verboseArg,
+        const metadataArg = PandocSpec.arg("--metadata", options.autoDate ?? false ? `date:${adjustedNow.toISOString().substring(0, ISO_DATE_LENGTH)}` : undefined);
+        const shiftHeadingLevelByArg = PandocSpec.arg("--shift-heading-level-by", options.shiftHeadingLevelBy, -1);
+
+        const additionalReaderArgs = (options.additionalReaderOptions ?? []).map(additionalReaderOption => PandocSpec.arg(additionalReaderOption.option, additionalReaderOption.value));
 
-            PandocSpec.arg("--from", options.inputFormat, "markdown"),
-            PandocSpec.arg("--to", "json"),
+        const isWindows = process.platform === "win32";
+
+        this._puppeteerConfigurator = new PuppeteerConfigurator(inputDirectory, startingDirectory);
+
+        this._startingDirectory = startingDirectory;
+        this._mermaid = options.mermaid ?? {};
+
+        this._diagramTools = diagramTools(options.diagramTools ?? []).map(diagramTool => diagramTool.command.includes("/") ?
+            {
+                ...diagramTool,
+                command: workingPath(diagramTool.command, startingDirectory)
+            } :
+            diagramTool);
+
+        // Consecutive Lua filters are applied by a single run of Pandoc and consecutive module filters by a single run in process.
+        const buildFilterRuns = (runFilters: readonly Filter[], filterOutputFormat: string): FilterRun[] => {
+            const filterRuns: FilterRun[] = [];
+
+            for (const [index, filter] of runFilters.entries()) {
+                const lastFilterRun = filterRuns.at(-1);
+                const filterArg = luaFilterArg(filter);
+
+                if (filterArg !== undefined) {
+                    if (index !== 0 && luaFilterArg(runFilters[index - 1]) !== undefined && lastFilterRun?.type === "pipe") {
+                        lastFilterRun.pipeRun.args = [...lastFilterRun.pipeRun.args, filterArg];
+                    } else {
+                        filterRuns.push({
+                            type: "pipe",
+                            pipeRun: {
+                                shell: false,
+                                cwd: inputDirectory,
+                                command: "pandoc",
+                                args: [
+                                    verboseArg,
+
+                                    PandocSpec.arg("--from", "json"),
+                                    PandocSpec.arg("--to", "json"),
+
+                                    filterArg
+                                ].filter(arg => arg !== "")
+                            }
+                        });
+                    }
+                } else if (filter.type === "module") {
+                    if (lastFilterRun?.type === "module") {
+                        lastFilterRun.paths.push(filter.path);
+                    } else {
+                        filterRuns.push({
+                            type: "module",
+                            paths: [filter.path],
+                            outputFormat: filterOutputFormat
+                        });
+                    }
+                } else if (filter.type === "builtin" && filter.path === "mermaid") {
+                    filterRuns.push({
+                        type: "mermaid"
+                    });
+                } else if (filter.type === "builtin" && filter.path === "diagrams") {
+                    filterRuns.push({
+                        type: "diagrams"
+                    });
+                } else {
+                    // Some filters are scripts, which aren't recognized as executables in Windows.
+                    filterRuns.push({
+                        type: "pipe",
+                        pipeRun: {
+                            shell: isWindows,
+                            cwd: inputDirectory,
+                            command: filter.type === "json" && filter.path.includes("/") ? workingPath(filter.path, startingDirectory) : filter.path,
+                            args: [filterOutputFormat, ...filter.args ?? []],
+                            env: filter.env !== undefined ?
+                                {
+                                    ...process.env,
+                                    ...filter.env
+                                } :
+                                undefined
+                        }
+                    });
+                }
+            }
 
-            PandocSpec.arg("--metadata", options.autoDate ?? false ? `date:${adjustedNow.toISOString().substring(0, ISO_DATE_LENGTH)}` : undefined),
-            PandocSpec.arg("--shift-heading-level-by", options.shiftHeadingLevelBy, -1),
+            return filterRuns;
+        };
 
-            PandocSpec.arg("--lua-filter", workingPath(modulePath("../pandoc/include-files.lua"))),
-            PandocSpec.arg("--lua-filter", workingPath(modulePath("../pandoc/include-code-files.lua"))),
-            ...luaFilters.map(luaFilter => PandocSpec.arg("--lua-filter", luaFilter)),
+        // Filters run once for all outputs are given the format written by Pandoc for the first output.
+        this._filterRuns = buildFilterRuns(filters.slice(leadingLuaFilterCount), resolvedOutputs[0].writerFormat);
 
-            ...(options.additionalReaderOptions ?? []).map(additionalReaderOption => PandocSpec.arg(additionalReaderOption.option, additionalReaderOption.value)),
+        // First pipe run is Pandoc with input arguments; input files are added when resolved for each build.
+        this._readerPipeRun = {
+            shell: false,
+            cwd: inputDirectory,
+            command: "pandoc",
+            args: [
+                verboseArg,
+
+                PandocSpec.arg("--from", options.inputFormat, "markdown"),
+                PandocSpec.arg("--to", "json"),
+
+                metadataArg,
+                shiftHeadingLevelByArg,
+
+                ...readerLuaFilterArgs,
+
+                ...additionalReaderArgs
+            ].filter(arg => arg !== "")
+        };
+
+        this._cache = cacheDirectory !== undefined ? new Cache(cacheDirectory) : undefined;
+
+        this._inputFileEntries = options.inputFiles;
+        this._inputFilesOptions = {
+            orderFile: options.inputOrderFile,
+            excludePatterns: options.excludeInputFiles,
+            // Output and cache directories may be in the input directory.
+            ignoredDirectories: [outputDirectory, ...cacheDirectory !== undefined ? [cacheDirectory] : []]
+        };
+
+        // Each output is a single pipe run of Pandoc with output arguments, taking the JSON AST as input.
+        this._outputFiles = resolvedOutputs.map(resolvedOutput => path.resolve(outputDirectory, resolvedOutput.outputFile));
+        this._pdfJobs = resolvedOutputs.flatMap(resolvedOutput => resolvedOutput.pdfHTMLFile !== undefined ?
+            [{
+                htmlFile: resolvedOutput.pdfHTMLFile,
+                pdfFile: path.resolve(outputDirectory, resolvedOutput.outputFile)
+            }] :
+            []);
+        this._htmlOutputFiles = resolvedOutputs.filter(resolvedOutput => resolvedOutput.outputFormat.startsWith("html")).map(resolvedOutput => path.resolve(outputDirectory, resolvedOutput.outputFile));
+
+        // Anchors refer to the first HTML output, if any, otherwise to the first output.
+        const anchorOutput = resolvedOutputs.find(resolvedOutput => resolvedOutput.outputFormat === "html") ?? resolvedOutputs[0];
+
+        this._specName = options.specName ?? path.basename(inputDirectory);
+        this._anchorHref = anchorOutput.outputFile.split(path.sep).join("/");
+        this._anchorSplit = anchorOutput.split;
+        this._anchorIndexFile = options.anchorIndexFile !== undefined ? path.resolve(outputDirectory, options.anchorIndexFile) : undefined;
+        this._specReferences = (options.specReferences ?? []).map(specReference => ({
+            ...specReference,
+            indexFile: path.resolve(startingDirectory, specReference.indexFile)
+        }));
+        this._anchorRegistry = anchorRegistry;
+
+        this._writerPipeRuns = resolvedOutputs.map(resolvedOutput => ({
+            shell: false,
+            cwd: inputDirectory,
+            command: "pandoc",
+            args: [
+                verboseArg,
 
-            ...options.inputFiles
-        ].filter(arg => arg !== "");
+                "--standalone",
 
-        const pandocOutputArgs: string[] = [
-            verboseArg,
+                PandocSpec.arg("--from", "json"),
+                PandocSpec.arg("--to", resolvedOutput.writerFormat),
+                PandocSpec.arg("--output", resolvedOutput.split === 0 ? resolvedOutput.pdfHTMLFile ?? path.resolve(outputDirectory, resolvedOutput.outputFile) : undefined),
 
-            "--standalone",
+                PandocSpec.arg("--number-sections", options.numberSections, true),
 
-            PandocSpec.arg("--from", "json"),
-            PandocSpec.arg("--to", outputFormat),
-            PandocSpec.arg("--output", path.resolve(outputDirectory, options.outputFile)),
+                // Split output pages share a table of contents built from the whole document.
+                PandocSpec.arg("--toc", resolvedOutput.split === 0 ? options.generateTOC ?? true : false),
 
-            PandocSpec.arg("--number-sections", options.numberSections, true),
-            PandocSpec.arg("--toc", options.generateTOC, true),
+                PandocSpec.arg("--template", resolvedOutput.templateFile),
+                PandocSpec.arg("--reference-doc", resolvedOutput.referenceDocument),
+                PandocSpec.arg("--include-before-body", workingPath(options.headerFile, startingDirectory)),
+                PandocSpec.arg("--include-after-body", workingPath(options.footerFile, startingDirectory)),
 
-            PandocSpec.arg("--template", templateFile),
-            PandocSpec.arg("--include-before-body", workingPath(options.headerFile)),
-            PandocSpec.arg("--include-after-body", workingPath(options.footerFile)),
+                ...variables.map(variable => PandocSpec.arg("--variable", variable.value !== undefined ? `${variable.key}:${variable.value}` : variable.key)),
+                ...resolvedOutput.cssFiles.map(cssFile => PandocSpec.arg("--css", cssFile)),
 
-            ...variables.map(variable => PandocSpec.arg("--variable", variable.value !== undefined ? `${variable.key}:${variable.value}` : variable.key)),
-            ...cssFiles.map(cssFile => PandocSpec.arg("--css", cssFile)),
-            ...(options.additionalWriterOptions ?? []).map(additionalWriterOption => PandocSpec.arg(additionalWriterOption.option, additionalWriterOption.value))
-        ].filter(arg => arg !== "");
+                // Search index is loaded by the template relative to the output file and to every page of a split output.
+                PandocSpec.arg("--variable", resolvedOutput.searchIndexFile !== undefined ? `search-index:${path.basename(resolvedOutput.searchIndexFile)}` : undefined),
 
-        this._pipeRuns = [];
+                // Resources are embedded from where they would otherwise be copied from: the input directory, the core CSS directory, and the vendored assets directory.
+                PandocSpec.arg("--embed-resources", resolvedOutput.selfContained),
+                PandocSpec.arg("--resource-path", resolvedOutput.selfContained ? [".", pandocDirectory, vendorDirectory].join(path.delimiter) : undefined),
 
-        // First pipe run is Pandoc with input arguments.
-        this._pipeRuns.push({
-            shell: false,
-            command: "pandoc",
-            args: pandocInputArgs
-        });
+                ...resolvedOutput.additionalWriterOptions.map(additionalWriterOption => PandocSpec.arg(additionalWriterOption.option, additionalWriterOption.value))
+            ].filter(arg => arg !== ""),
+            wordStyles: resolvedOutput.writerFormat === "docx" && (options.styles ?? []).length !== 0,
+            split: resolvedOutput.split,
+            outputFile: resolvedOutput.outputFile,
+            searchIndexFile: resolvedOutput.searchIndexFile,
+            filterRuns: buildFilterRuns(orderedFilters.filter(filter => !isSharedFilter(filter) && (filter.formats?.includes(resolvedOutput.outputFormat) ?? false)), resolvedOutput.writerFormat)
+        }));
 
-        const isWindows = process.platform === "win32";
+        const diff = options.diff;
 
-        for (const filter of ["mermaid-filter", "pandoc-defref", ...jsonFilters]) {
-            // Mermaid filter should export as SVG.
-            const env: NodeJS.ProcessEnv | undefined = filter === "mermaid-filter" ?
-                {
-                    ...process.env,
-                    MERMAID_FILTER_FORMAT: "svg"
-                } :
-                undefined;
-
-            // Some filters are scripts, which aren't recognized as executables in Windows.
-            this._pipeRuns.push({
-                shell: isWindows,
-                command: filter,
-                args: [outputFormat],
-                env
-            });
-        }
+        if (diff !== undefined) {
+            if (anchorOutput.outputFormat !== "html") {
+                throw new Error("Diff requires an HTML output");
+            }
 
-        // Last pipe run is Pandoc with output arguments.
-        this._pipeRuns.push({
-            shell: false,
-            command: "pandoc",
-            args: pandocOutputArgs
-        });
+            if ((diff.baseRef === undefined) === (diff.baseFile === undefined)) {
+                throw new Error("Invalid options: exactly one of \"diff.baseRef\" or \"diff.baseFile\" is required");
+            }
 
-        // Run in input directory.
-        process.chdir(inputDirectory);
+            const anchorWriterPipeRun = this._writerPipeRuns[resolvedOutputs.indexOf(anchorOutput)];
+            const diffOutputFile = path.resolve(outputDirectory, diff.outputFile ?? DEFAULT_DIFF_OUTPUT_FILE);
+
+            // Change-marked output is written as a single page like the first HTML output, without its search index.
+            this._diffRun = {
+                base: diff.baseRef ?? diff.baseFile ?? "",
+                baseFile: diff.baseFile !== undefined ? path.resolve(startingDirectory, diff.baseFile) : undefined,
+                writerPipeRun: {
+                    ...anchorWriterPipeRun,
+                    args: [
+                        ...anchorWriterPipeRun.args.filter(arg => !/^--(?:output|toc)(?:=|$)/.test(arg) && !arg.startsWith("--variable=search-index:")),
+                        PandocSpec.arg("--output", diffOutputFile),
+                        PandocSpec.arg("--toc", options.generateTOC ?? true)
+                    ].filter(arg => arg !== "")
+                },
+                outputFile: diffOutputFile
+            };
+        } else {
+            this._diffRun = undefined;
+        }
     }
 
     /**
-     * Spawn the next pipe run.
+     * Create a pandoc-spec builder from options already loaded and resolved.
      *
-     * @param index
-     * Index of pipe run.
+     * @param options
+     * Options from which to build command-line arguments, typically loaded by {@link loadOptions}.
      *
-     * @param pipeStdin
-     * Standard input or null.
+     * @param startingDirectory
+     * Starting directory, against which paths in the options that aren't relative to the input directory are resolved;
+     * default is the current working directory.
+     *
+     * @param anchorRegistry
+     * Anchor registry, shared with other builders whose specifications reference this one or each other; default is a
+     * registry for this builder alone.
+     *
+     * @returns
+     * Pandoc spec builder.
      */
-    private async spawn(index: number, pipeStdin: Stream | null): Promise<void> {
-        const pipeRun = this._pipeRuns[index];
-        const isLast = index === this._pipeRuns.length - 1;
+    static fromOptions(options: Options, startingDirectory: string = process.cwd(), anchorRegistry: AnchorRegistry = new AnchorRegistry()): PandocSpec {
+        resolvedOptions.add(options);
 
-        this._logger.debug(() => `Command[${index}]: ${pipeRun.command}`);
-        this._logger.debug(() => `Arguments[${index}]: [${pipeRun.args.join(", ")}]`);
+        return new PandocSpec(options, startingDirectory, anchorRegistry);
+    }
 
-        const childProcess = child_process.spawn(pipeRun.command, pipeRun.args, {
-            shell: pipeRun.shell,
-            stdio: [pipeStdin ?? "inherit", !isLast ? "pipe" : "inherit", "inherit"],
-            env: pipeRun.env
-        });
+    /**
+     * Create a pandoc-spec builder from the options file, which may be JSON, YAML, JavaScript, or TypeScript, overridden
+     * by parameter options.
+     *
+     * @param parameterOptions
+     * Parameter options.
+     *
+     * @param startingDirectory
+     * Starting directory, in which the default options file is found; default is the current working directory.
+     *
+     * @param anchorRegistry
+     * Anchor registry, shared with other builders whose specifications reference this one or each other; default is a
+     * registry for this builder alone.
+     *
+     * @returns
+     * Pandoc spec builder.
+     */
+    static async create(parameterOptions?: Partial<Options>, startingDirectory: string = process.cwd(), anchorRegistry: AnchorRegistry = new AnchorRegistry()): Promise<PandocSpec> {
+        return PandocSpec.fromOptions(await loadOptions(parameterOptions, startingDirectory), startingDirectory, anchorRegistry);
+    }
 
-        // eslint-disable-next-line promise/avoid-new -- Promise required to wait for processes to complete.
-        await new Promise<void>((resolve, reject) => {
-            if (!isLast) {
-                childProcess.on("spawn", () => {
-                    // Spawn next pipe run.
-                    resolve(this.spawn(index + 1, childProcess.stdout));
-                });
-            }
+    /**
+     * Get the absolute input directory.
+     */
+    get inputDirectory(): string {
+        return this._inputDirectory;
+    }
 
-            childProcess.on("close", (code, signal) => {
-                if (code !== null) {
-                    this._logger.debug(() => `Code[${index}]: ${code}`);
-                    this._logger.debug(() => `Signal[${index}]: ${signal}`);
+    /**
+     * Get the absolute output directory.
+     */
+    get outputDirectory(): string {
+        return this._outputDirectory;
+    }
+
+    /**
+     * Get the name under which the specification's anchors are registered.
+     */
+    get specName(): string {
+        return this._specName;
+    }
+
+    /**
+     * Run a build stage, emitting start and end events and recording its duration.
+     *
+     * @param context
+     * Build context.
+     *
+     * @param stage
+     * Stage.
+     *
+     * @param callback
+     * Callback to run the stage.
+     *
+     * @returns
+     * Result of the callback.
+     */
+    private async stage<T>(context: BuildContext, stage: BuildStage, callback: () => Promise<T>): Promise<T> {
+        this.emit("stageStart", stage);
+
+        const start = performance.now();
+
+        return callback().finally(() => {
+            const duration = performance.now() - start;
+
+            context.durations[stage] = (context.durations[stage] ?? 0) + duration;
+
+            this._logger.debug(() => `Stage ${stage}: ${Math.round(duration)} ms`);
+            this.emit("stageEnd", stage, duration);
+        });
+    }
+
+    /**
+     * Record, log, and emit a warning.
+     *
+     * @param context
+     * Build context.
+     *
+     * @param command
+     * Command that reported the warning.
+     *
+     * @param message
+     * Message.
+     */
+    private warn(context: BuildContext, command: string, message: string): void {
+        const warning: BuildWarning = {
+            command,
+            message
+        };
+
+        context.warnings.push(warning);
+
+        this._logger.warn(`${command}: ${message}`);
+        this.emit("warning", warning);
+    }
+
+    /**
+     * Handle the standard error output of a pipe run. Warnings are recorded, logged, and emitted; all other output is
+     * logged.
+     *
+     * @param context
+     * Build context.
+     *
+     * @param pipeRun
+     * Pipe run.
+     *
+     * @param stderr
+     * Standard error output.
+     */
+    private handleStandardError(context: BuildContext, pipeRun: PipeRun, stderr: string): void {
+        const parsedStandardError = parseStandardError(stderr);
+
+        for (const line of parsedStandardError.otherLines) {
+            this._logger.info(`${pipeRun.command}: ${line}`);
+        }
+
+        for (const message of parsedStandardError.warnings) {
+            this.warn(context, pipeRun.command, message);
+        }
+    }
+
+    /**
+     * Spawn the next pipe run.
+     *
+     * @param context
+     * Build context.
+     *
+     * @param pipeRuns
+     * Pipe runs.
+     *
+     * @param index
+     * Index of pipe run.
+     *
+     * @param pipeStdin
+     * Standard input, input buffer, or null.
+     *
+     * @param stdoutChunks
+     * Chunks of standard output of the last pipe run.
+     */
+    private async spawn(context: BuildContext, pipeRuns: readonly PipeRun[], index: number, pipeStdin: Stream | Buffer | null, stdoutChunks: Buffer[]): Promise<void> {
+        const pipeRun = pipeRuns[index];
+        const isLast = index === pipeRuns.length - 1;
+
+        this._logger.debug(() => `Command[${index}]: ${pipeRun.command}`);
+        this._logger.debug(() => `Arguments[${index}]: [${pipeRun.args.join(", ")}]`);
+
+        const childProcess = child_process.spawn(pipeRun.command, pipeRun.args, {
+            shell: pipeRun.shell,
+            cwd: pipeRun.cwd,
+            // Input buffer is written to standard input once process is spawned; standard error is captured for warnings.
+            stdio: [!Buffer.isBuffer(pipeStdin) ? pipeStdin ?? "ignore" : "pipe", "pipe", "pipe"],
+            env: pipeRun.env
+        });
+
+        if (Buffer.isBuffer(pipeStdin)) {
+            // Command may exit before reading all of its input; the failure is reported through its exit status.
+            childProcess.stdin?.on("error", () => {
+                // Ignore.
+            });
+
+            childProcess.stdin?.end(pipeStdin);
+        }
+
+        if (isLast) {
+            childProcess.stdout?.on("data", (chunk: Buffer) => {
+                stdoutChunks.push(chunk);
+            });
+        }
+
+        const stderrChunks: Buffer[] = [];
+
+        childProcess.stderr?.on("data", (chunk: Buffer) => {
+            stderrChunks.push(chunk);
+        });
+
+        // eslint-disable-next-line promise/avoid-new -- Promise required to wait for processes to complete.
+        await new Promise<void>((resolve, reject) => {
+            childProcess.on("error", (e) => {
+                reject(new Error(`Command[${index}] ${pipeRun.command} can't be run: ${e.message}`));
+            });
+
+            if (!isLast) {
+                childProcess.on("spawn", () => {
+                    // Spawn next pipe run.
+                    resolve(this.spawn(context, pipeRuns, index + 1, childProcess.stdout, stdoutChunks));
+                });
+            }
+
+            childProcess.on("close", (code, signal) => {
+                this.handleStandardError(context, pipeRun, Buffer.concat(stderrChunks).toString());
+
+                if (code !== null) {
+                    this._logger.debug(() => `Code[${index}]: ${code}`);
+                    this._logger.debug(() => `Signal[${index}]: ${signal}`);
 
                     if (code !== 0) {
+                        context.status ??= code;
+
                         reject(new Error(`Command[${index}] ${pipeRun.command} failed with status ${code}`));
                     } else if (isLast) {
                         // Only last pipe run resolves.
@@ -380,98 +1076,847 @@ export class PandocSpec {
     }
 
     /**
-     * Run the pipes.
+     * Pipe input through a chain of pipe runs.
+     *
+     * @param context
+     * Build context.
+     *
+     * @param pipeRuns
+     * Pipe runs.
+     *
+     * @param input
+     * Input buffer or null if the first pipe run takes no input.
+     *
+     * @returns
+     * Standard output of the last pipe run.
      */
-    async runPipes(): Promise<void> {
-        const puppeteerConfigurator = new PuppeteerConfigurator(this._inputDirectory);
+    private async pipe(context: BuildContext, pipeRuns: readonly PipeRun[], input: Buffer | null): Promise<Buffer> {
+        const stdoutChunks: Buffer[] = [];
+
+        await this.spawn(context, pipeRuns, 0, input, stdoutChunks);
+
+        return Buffer.concat(stdoutChunks);
+    }
+
+    /**
+     * Resolve the input file entries, which may be glob patterns, to the input files for a build. Entries are resolved
+     * on every build, so that files added while watching are picked up.
+     *
+     * @param context
+     * Build context.
+     *
+     * @throws Error
+     * If no input files are found.
+     */
+    private resolveInputFiles(context: BuildContext): void {
+        const resolvedInputFiles = resolveInputFiles(this._inputFileEntries, this._inputDirectory, this._inputFilesOptions);
+
+        for (const warning of resolvedInputFiles.warnings) {
+            this.warn(context, "input-files", warning);
+        }
+
+        if (resolvedInputFiles.inputFiles.length === 0) {
+            throw new Error("No input files found");
+        }
+
+        this._logger.debug(() => `Input files: ${resolvedInputFiles.inputFiles.join(", ")}`);
+
+        this._inputFiles = resolvedInputFiles.inputFiles;
+    }
+
+    /**
+     * Run module filters on a document. Modules are loaded on first use and loaded again once their module files change;
+     * a failed load is retried on the next build.
+     *
+     * @param document
+     * Document.
+     *
+     * @param moduleFilterPaths
+     * Module filter paths or package specifiers.
+     *
+     * @param outputFormat
+     * Output format given to the module filters.
+     *
+     * @param inputDirectory
+     * Input directory from which the document was read.
+     *
+     * @returns
+     * Filtered document.
+     */
+    private async runModuleFilters(document: Document, moduleFilterPaths: readonly string[], outputFormat: string, inputDirectory: string): Promise<Document> {
+        const moduleFilters = await Promise.all(moduleFilterPaths.map(async (moduleFilterPath) => {
+            const modified = fs.statSync(resolveModuleFilter(moduleFilterPath, this._startingDirectory)).mtimeMs;
 
-        await this.spawn(0, null).then(() => {
-            if (this._outputDirectory !== this._inputDirectory) {
-                copyFiles(this._inputResourceFiles, this._outputDirectory);
+            let loadedModuleFilter = this._moduleFilters.get(moduleFilterPath);
+
+            if (loadedModuleFilter?.modified !== modified) {
+                const moduleFilter = loadModuleFilter(moduleFilterPath, this._startingDirectory).catch((e: unknown) => {
+                    this._moduleFilters.delete(moduleFilterPath);
+                    throw e;
+                });
+
+                loadedModuleFilter = {
+                    modified,
+                    moduleFilter
+                };
+
+                this._moduleFilters.set(moduleFilterPath, loadedModuleFilter);
             }
-        }).finally(() => {
-            // Restore Puppeteer configuration.
-            puppeteerConfigurator.finalize();
 
-            const mermaidFilterErrorFile = "mermaid-filter.err";
+            return loadedModuleFilter.moduleFilter;
+        }));
 
-            // Delete empty Mermaid filter error file.
-            if (fs.existsSync(mermaidFilterErrorFile) && fs.readFileSync(mermaidFilterErrorFile).toString() === "") {
-                fs.rmSync(mermaidFilterErrorFile);
+        return runModuleFilters(document, moduleFilters, {
+            outputFormat,
+            inputDirectory
+        });
+    }
+
+    /**
+     * Read and filter. The reader pipe runs and the filter runs are piped together up to the first filter run in
+     * process, timed as the "read" stage; diagram rendering is timed as the "diagrams" stage and the remaining filter runs
+     * as the "filter" stage.
+     *
+     * @param context
+     * Build context.
+     *
+     * @param readerPipeRuns
+     * Reader pipe runs, producing the JSON AST.
+     *
+     * @param filterRuns
+     * Filter runs.
+     *
+     * @param input
+     * Input to the reader pipe runs.
+     *
+     * @param directory
+     * Input directory from which the JSON AST is read, the working directory of the filters.
+     *
+     * @param inputFiles
+     * Input files, relative to the input directory, in which diagrams that fail to render are located.
+     *
+     * @param cache
+     * Cache for rendered diagrams or undefined if not caching.
+     *
+     * @param timed
+     * If true, the stages are timed; otherwise, reading and filtering are part of an enclosing stage.
+     *
+     * @returns
+     * Filtered JSON AST.
+     */
+    private async readAndFilter(context: BuildContext, readerPipeRuns: readonly PipeRun[], filterRuns: readonly FilterRun[], input: Buffer | null, directory: string, inputFiles: readonly string[], cache: Cache | undefined, timed: boolean): Promise<Buffer> {
+        const logger = this._logger;
+
+        const stage = async <T>(buildStage: BuildStage, callback: () => Promise<T>): Promise<T> => timed ? this.stage(context, buildStage, callback) : callback();
+
+        let pipeRuns = [...readerPipeRuns];
+        let pipeStage: BuildStage = readerPipeRuns.length !== 0 ? "read" : "filter";
+        let ast = input;
+
+        // Pipe runs accumulated so far are piped together.
+        const pipe = async (): Promise<Buffer> => {
+            const currentPipeRuns = pipeRuns;
+            const currentAST = ast;
+            const currentStage = pipeStage;
+
+            pipeRuns = [];
+            pipeStage = "filter";
+
+            return currentPipeRuns.length === 0 && currentAST !== null ? currentAST : stage(currentStage, async () => this.pipe(context, currentPipeRuns, currentAST));
+        };
+
+        // Diagram that fails to render is left as a code block.
+        const diagramErrorHandler = (command: string): DiagramErrorHandler => (codeBlock, message, line) => {
+            const location = locateDiagram(codeBlockText(codeBlock), inputFiles, directory);
+
+            this.warn(context, command, location !== undefined ? `${location.file}:${location.line + (line ?? 1) - 1}: ${message}` : message);
+        };
+
+        for (const filterRun of filterRuns) {
+            if (filterRun.type === "pipe") {
+                pipeRuns.push({
+                    ...filterRun.pipeRun,
+                    cwd: directory
+                });
+            } else if (filterRun.type === "mermaid") {
+                const mermaid = this._mermaid;
+                const configFile = mermaid.configFile !== undefined ? path.resolve(this._startingDirectory, mermaid.configFile) : undefined;
+
+                // Configuration file content is part of the cache key, so that a change to it is picked up.
+                const cacheKeyComponents = [JSON.stringify(mermaid), configFile !== undefined && fs.existsSync(configFile) ? fs.readFileSync(configFile).toString() : ""];
+
+                const document = parseDocument(await pipe());
+
+                ast = serializeDocument(await stage("diagrams", async () => renderDiagrams(document, "mermaid", cache, cacheKeyComponents, async (codeBlocks) => {
+                    logger.debug(() => `Rendering ${codeBlocks.length} Mermaid diagrams`);
+
+                    return renderMermaidDiagrams(codeBlocks, this._puppeteerConfigurator.launchOptions, mermaid, this._startingDirectory, diagramErrorHandler("mermaid"));
+                })));
+            } else if (filterRun.type === "diagrams") {
+                const document = parseDocument(await pipe());
+
+                ast = serializeDocument(await stage("diagrams", async () => {
+                    let renderedDocument = document;
+
+                    for (const diagramTool of this._diagramTools) {
+                        // Tool is part of the cache key, so that a change to its command or arguments is picked up.
+                        renderedDocument = await renderDiagrams(renderedDocument, diagramTool.language, cache, [JSON.stringify(diagramTool)], async (codeBlocks) => {
+                            logger.debug(() => `Rendering ${codeBlocks.length} ${diagramTool.language} diagrams with ${diagramTool.command}`);
+
+                            return renderToolDiagrams(codeBlocks, diagramTool, directory, diagramErrorHandler(diagramTool.command));
+                        });
+                    }
+
+                    return renderedDocument;
+                }));
+            } else if (filterRun.type === "module") {
+                const document = parseDocument(await pipe());
+
+                ast = serializeDocument(await stage("filter", async () => this.runModuleFilters(document, filterRun.paths, filterRun.outputFormat, directory)));
             }
+        }
+
+        return pipe();
+    }
+
+    /**
+     * Read the input files and run the filters using the cache. The output of the reader, which reads all input files
+     * together exactly as without the cache, is cached by the content hash of the input files, of the files they
+     * include, and of the files named by the reader arguments, such as Lua filter scripts and metadata files, so they're
+     * read again only if any of them has changed; rendered diagrams are likewise cached by content hash, so only changed
+     * diagrams are rendered again.
+     *
+     * @param context
+     * Build context.
+     *
+     * @param cache
+     * Cache.
+     *
+     * @returns
+     * JSON AST.
+     */
+    private async cachedRead(context: BuildContext, cache: Cache): Promise<Buffer> {
+        const logger = this._logger;
+
+        const invalidateReads = this._invalidateReads;
+        this._invalidateReads = false;
+
+        const inputFiles = this._inputFiles;
+
+        const input = await this.stage(context, "read", async () => {
+            // Files included by the input files and files named by the reader arguments, such as Lua filter scripts and metadata files, are part of the key, so that a change to any of them is picked up.
+            const key = Cache.key("read", ...this._readerPipeRun.args, ...inputFiles.flatMap(inputFile => [inputFile, fs.readFileSync(path.resolve(this._inputDirectory, inputFile))]), ...[...includedFiles(inputFiles, this._inputDirectory), ...argumentFiles(this._readerPipeRun.args, this._inputDirectory)].flatMap(file => [file, fs.readFileSync(file)]));
+
+            let data = !invalidateReads ? cache.get(key) : undefined;
+
+            if (data === undefined) {
+                logger.debug(() => `Reading ${inputFiles.join(", ")}`);
+
+                data = await this.pipe(context, [{
+                    ...this._readerPipeRun,
+                    args: [...this._readerPipeRun.args, ...inputFiles]
+                }], null);
+
+                cache.set(key, data);
+            } else {
+                logger.debug("Reusing cached input");
+            }
+
+            return data;
         });
+
+        const ast = await this.readAndFilter(context, [], this._filterRuns, input, this._inputDirectory, inputFiles, cache, true);
+
+        // Anything not used in this run is stale.
+        cache.prune();
+
+        return ast;
     }
 
     /**
-     * Run the pandoc-spec process.
+     * Add git metadata to the JSON AST. Git metadata is read on every run, as commits may be made while watching.
+     *
+     * @param ast
+     * JSON AST.
+     *
+     * @returns
+     * JSON AST with git metadata, or the original JSON AST if the input directory is not in a git checkout.
      */
-    async run(): Promise<void> {
-        await this.runPipes().then(() => {
-            const options = this._options;
-            const logger = this._logger;
+    private async addGitMetadata(ast: Buffer): Promise<Buffer> {
+        const metadata = await gitMetadata(this._inputDirectory, this._inputFiles);
+
+        let result: Buffer;
+
+        if (metadata !== undefined) {
+            this._logger.debug(() => `Git commit: ${metadata.commit}${metadata.dirty ? " (dirty)" : ""}`);
+
+            const document = parseDocument(ast);
+
+            document.meta["git"] = metaValue({
+                ...metadata,
+                files: metadata.files.map(file => ({
+                    ...file
+                }))
+            });
+
+            result = serializeDocument(document);
+        } else {
+            this._logger.debug("Input directory is not in a git checkout; git metadata ignored");
+
+            result = ast;
+        }
+
+        return result;
+    }
+
+    /**
+     * Build the anchor index of a document for an output.
+     *
+     * @param document
+     * Document.
+     *
+     * @param outputFile
+     * Output file, relative to the output directory.
+     *
+     * @param split
+     * Heading level at which the output is split into pages or 0 if not split.
+     *
+     * @returns
+     * Anchor index, with URLs relative to the output directory.
+     */
+    private buildAnchorIndex(document: Document, outputFile: string, split: number): AnchorIndex {
+        const numberSections = this._options.numberSections ?? true;
+        const href = outputFile.split(path.sep).join("/");
 
-            // Ignore watch if running inside a GitHub Action.
-            if (options.watch === true && process.env["GITHUB_ACTIONS"] !== "true") {
-                const inputDirectoryStart = `${this._inputDirectory}/`;
+        const anchorIndex = buildAnchorIndex(document, this._specName, href, numberSections);
 
-                // Watch current (input) directory and all input resource files.
-                const watchPaths = [".", ...this._inputResourceFiles];
+        // Anchors in a split output refer to the pages on which they appear.
+        if (split !== 0) {
+            const anchorPages = splitDocument(document, href, split, numberSections).anchorPages;
 
-                // Watch template file if defined.
-                if (this._templateFile !== undefined) {
-                    watchPaths.push(this._templateFile);
+            for (const [id, anchor] of Object.entries(anchorIndex.anchors)) {
+                anchor.href = `${anchorPages.get(id) ?? href}#${id}`;
+            }
+        }
+
+        return anchorIndex;
+    }
+
+    /**
+     * Build the anchor index of the JSON AST, register it, and write it to the anchor index file, if any.
+     *
+     * @param ast
+     * JSON AST.
+     */
+    private indexAnchors(ast: Buffer): void {
+        const anchorIndex = this.buildAnchorIndex(parseDocument(ast), this._anchorHref, this._anchorSplit);
+
+        this._logger.debug(() => `Indexed ${Object.keys(anchorIndex.anchors).length} anchors`);
+
+        this._anchorRegistry.register(anchorIndex, this._outputDirectory);
+
+        if (this._anchorIndexFile !== undefined) {
+            fs.mkdirSync(path.dirname(this._anchorIndexFile), {
+                recursive: true
+            });
+
+            fs.writeFileSync(this._anchorIndexFile, JSON.stringify(anchorIndex, null, 2));
+        }
+    }
+
+    /**
+     * Resolve cross-document references in the JSON AST. Specifications are looked up in the anchor registry first,
+     * then in the specification references.
+     *
+     * @param ast
+     * JSON AST.
+     *
+     * @returns
+     * JSON AST with cross-document references resolved.
+     */
+    private resolveReferences(ast: Buffer): Buffer {
+        // Anchor index files are read at most once per build.
+        const fileIndexes = new Map<string, RegisteredAnchorIndex | undefined>();
+
+        return serializeDocument(resolveReferences(parseDocument(ast), this._outputDirectory, (name) => {
+            let registeredIndex = this._anchorRegistry.get(name);
+
+            if (registeredIndex === undefined) {
+                if (!fileIndexes.has(name)) {
+                    const specReference = this._specReferences.find(specReference => specReference.name === name);
+
+                    fileIndexes.set(name, specReference !== undefined ?
+                        {
+                            index: readAnchorIndex(specReference.indexFile),
+                            directory: path.dirname(specReference.indexFile)
+                        } :
+                        undefined);
                 }
 
-                // Ignore Puppeteer configuration file and Mermaid filter error file.
-                const ignored = [".puppeteer.json", "mermaid-filter.err"];
+                registeredIndex = fileIndexes.get(name);
+            }
+
+            return registeredIndex;
+        }));
+    }
 
-                // Ignore options file if it's in the input directory.
-                if (this._optionsFile.startsWith(inputDirectoryStart)) {
-                    ignored.push(this._optionsFile.substring(this._inputDirectory.length + 1));
+    /**
+     * Run the filters limited to an output's format on its copy of the JSON AST.
+     *
+     * @param context
+     * Build context.
+     *
+     * @param filterRuns
+     * Filter runs of the output.
+     *
+     * @param ast
+     * JSON AST, filtered by the filters run once for all outputs.
+     *
+     * @returns
+     * JSON AST of the output.
+     */
+    private async filterOutput(context: BuildContext, filterRuns: readonly FilterRun[], ast: Buffer): Promise<Buffer> {
+        return filterRuns.length !== 0 ? this.readAndFilter(context, [], filterRuns, ast, this._inputDirectory, this._inputFiles, this._cache, false) : ast;
+    }
+
+    /**
+     * Write a split output, one page at a time.
+     *
+     * @param context
+     * Build context.
+     *
+     * @param writerPipeRun
+     * Writer pipe run of the split output.
+     *
+     * @param document
+     * Document.
+     *
+     * @returns
+     * Absolute paths of the pages.
+     */
+    private async writePages(context: BuildContext, writerPipeRun: WriterPipeRun, document: Document): Promise<string[]> {
+        const numberSections = this._options.numberSections ?? true;
+        const generateTOC = this._options.generateTOC ?? true;
+
+        const split = splitDocument(document, writerPipeRun.outputFile, writerPipeRun.split, numberSections);
+
+        const pageFiles = split.pages.map(page => path.resolve(this._outputDirectory, page.file));
+
+        this._logger.debug(() => `Splitting ${writerPipeRun.outputFile} into ${split.pages.length} pages`);
+
+        await runConcurrently(split.pages.map((page, index) => async () => this.pipe(context, [{
+            ...writerPipeRun,
+            args: [
+                ...writerPipeRun.args,
+                PandocSpec.arg("--output", pageFiles[index]),
+                PandocSpec.arg("--number-offset", numberSections && page.numberOffset.length !== 0 ? page.numberOffset.join(",") : undefined)
+            ].filter(arg => arg !== "")
+        }], serializeDocument(pageDocument(document, split, index, generateTOC)))), os.availableParallelism());
+
+        return pageFiles;
+    }
+
+    /**
+     * Read the base version of a change-marked build into a JSON AST. A previous output is read by Pandoc unless it's
+     * already a JSON AST; a git ref is checked out into a temporary worktree and its input files are read through the
+     * reader and filter pipeline.
+     *
+     * @param context
+     * Build context.
+     *
+     * @param diffRun
+     * Change-marked build configuration.
+     *
+     * @returns
+     * JSON AST of the base version.
+     */
+    private async readBase(context: BuildContext, diffRun: DiffRun): Promise<Buffer> {
+        const baseFile = diffRun.baseFile;
+
+        let ast: Buffer;
+
+        if (baseFile !== undefined) {
+            if (!fs.existsSync(baseFile) || !fs.statSync(baseFile).isFile()) {
+                throw new Error(`Diff base file ${baseFile} not found`);
+            }
+
+            this._logger.debug(() => `Reading base ${baseFile}`);
+
+            ast = path.extname(baseFile) === ".json" ?
+                fs.readFileSync(baseFile) :
+                await this.pipe(context, [{
+                    shell: false,
+                    cwd: this._inputDirectory,
+                    command: "pandoc",
+                    args: [PandocSpec.arg("--to", "json"), baseFile]
+                }], null);
+        } else {
+            this._logger.debug(() => `Reading base revision ${diffRun.base}`);
+
+            ast = await withRevision(this._inputDirectory, diffRun.base, async (revisionDirectory) => {
+                // Warnings about the base revision's input files are of no interest.
+                const inputFiles = resolveInputFiles(this._inputFileEntries, revisionDirectory, this._inputFilesOptions).inputFiles;
+
+                if (inputFiles.length === 0) {
+                    throw new Error(`No input files found in ${diffRun.base}`);
                 }
 
-                // Ignore output directory if it's a subdirectory of the input directory.
-                if (this._outputDirectory.startsWith(inputDirectoryStart)) {
-                    ignored.push(this._outputDirectory.substring(this._inputDirectory.length + 1));
+                return this.readAndFilter(context, [{
+                    ...this._readerPipeRun,
+                    cwd: revisionDirectory,
+                    args: [...this._readerPipeRun.args, ...inputFiles]
+                }], this._filterRuns, null, revisionDirectory, inputFiles, undefined, false);
+            });
+        }
+
+        // Cross-document references that no longer resolve are left as is.
+        try {
+            ast = this.resolveReferences(ast);
+        } catch (e: unknown) {
+            this.warn(context, "diff", `Base references not resolved: ${e instanceof Error ? e.message : String(e)}`);
+        }
+
+        return ast;
+    }
+
+    /**
+     * Write the change-marked output.
+     *
+     * @param context
+     * Build context.
+     *
+     * @param diffRun
+     * Change-marked build configuration.
+     *
+     * @param ast
+     * JSON AST of the current version.
+     */
+    private async writeDiff(context: BuildContext, diffRun: DiffRun, ast: Buffer): Promise<void> {
+        const baseDocument = parseDocument(await this.filterOutput(context, diffRun.writerPipeRun.filterRuns, await this.readBase(context, diffRun)));
+
+        await this.pipe(context, [diffRun.writerPipeRun], serializeDocument(diffDocuments(baseDocument, parseDocument(await this.filterOutput(context, diffRun.writerPipeRun.filterRuns, ast)), diffRun.base)));
+    }
+
+    /**
+     * Write the search index of each indexed output.
+     *
+     * @param ast
+     * JSON AST.
+     */
+    private writeSearchIndexes(ast: Buffer): void {
+        const document = parseDocument(ast);
+
+        for (const writerPipeRun of this._writerPipeRuns) {
+            const searchIndexFile = writerPipeRun.searchIndexFile;
+
+            if (searchIndexFile !== undefined) {
+                const searchIndex = buildSearchIndex(document, this.buildAnchorIndex(document, writerPipeRun.outputFile, writerPipeRun.split), path.posix.dirname(searchIndexFile.split(path.sep).join("/")));
+
+                this._logger.debug(() => `Indexed ${searchIndex.entries.length} search entries for ${writerPipeRun.outputFile}`);
+
+                const absoluteSearchIndexFile = path.resolve(this._outputDirectory, searchIndexFile);
+
+                fs.mkdirSync(path.dirname(absoluteSearchIndexFile), {
+                    recursive: true
+                });
+
+                fs.writeFileSync(absoluteSearchIndexFile, JSON.stringify(searchIndex));
+            }
+        }
+    }
+
+    /**
+     * Check the links in the HTML outputs. Each problem is reported as a warning.
+     *
+     * @param context
+     * Build context.
+     *
+     * @param htmlFiles
+     * Absolute paths of the HTML files written.
+     *
+     * @param failOnProblems
+     * If true, the check fails if there are any problems.
+     *
+     * @throws Error
+     * If failing on problems and there are any.
+     */
+    private checkLinks(context: BuildContext, htmlFiles: readonly string[], failOnProblems: boolean): void {
+        const problems = checkLinks(this._outputDirectory, htmlFiles);
+
+        for (const problem of problems) {
+            this.warn(context, "link-check", `${problem.file}: ${problem.message}`);
+        }
+
+        if (failOnProblems && problems.length !== 0) {
+            throw new Error(`Link check found ${problems.length} problem${problems.length !== 1 ? "s" : ""}`);
+        }
+    }
+
+    /**
+     * Print the intermediate HTML files to PDF files with the Puppeteer configuration used for Mermaid, deleting the
+     * intermediate HTML files afterwards.
+     */
+    private async printPDFs(): Promise<void> {
+        await printPDFs(this._pdfJobs, this._puppeteerConfigurator.launchOptions, this._options.pdf ?? {}).finally(() => {
+            for (const pdfJob of this._pdfJobs) {
+                fs.rmSync(pdfJob.htmlFile, {
+                    force: true
+                });
+            }
+        });
+    }
+
+    /**
+     * Start a build by running its read phase: reading, rendering diagrams, filtering, adding metadata, and indexing
+     * anchors. Builders sharing an anchor registry can start all their builds before completing any, so that
+     * cross-document references between them resolve against the current anchors.
+     *
+     * @returns
+     * Pending build.
+     */
+    async startBuild(): Promise<PendingBuild> {
+        const context: BuildContext = {
+            warnings: [],
+            durations: {},
+            status: undefined
+        };
+
+        // Read phase failure is held until the build is completed, so that it's reported in the result.
+        const astOrError = await Promise.resolve().then(() => {
+            this.resolveInputFiles(context);
+        }).then(async () => this._cache !== undefined ?
+            this.cachedRead(context, this._cache) :
+            this.readAndFilter(context, [{
+                ...this._readerPipeRun,
+                args: [...this._readerPipeRun.args, ...this._inputFiles]
+            }], this._filterRuns, null, this._inputDirectory, this._inputFiles, undefined, true)).then(async ast => this._options.autoGitMetadata ?? false ? this.stage(context, "metadata", async () => this.addGitMetadata(ast)) : ast).then(async (ast) => {
+            await this.stage(context, "index", async () => {
+                this.indexAnchors(ast);
+            });
+
+            return ast;
+        }).catch((e: unknown) => e instanceof Error ? e : new Error(String(e)));
+
+        return {
+            complete: async () => (astOrError instanceof Error ? Promise.reject(astOrError) : this.stage(context, "references", async () => this.resolveReferences(astOrError))).then(async (ast) => {
+                // Reader and filters run once; the resulting JSON AST is fanned out to each writer.
+                const splitPageFiles = await this.stage(context, "write", async () => {
+                    // Pages of each split output, by absolute path of the output file.
+                    const pageFiles = new Map<string, string[]>();
+
+                    await Promise.all(this._writerPipeRuns.map(async (writerPipeRun) => {
+                        const outputAST = await this.filterOutput(context, writerPipeRun.filterRuns, ast);
+
+                        if (writerPipeRun.split !== 0) {
+                            pageFiles.set(path.resolve(this._outputDirectory, writerPipeRun.outputFile), await this.writePages(context, writerPipeRun, parseDocument(outputAST)));
+                        } else {
+                            await this.pipe(context, [writerPipeRun], writerPipeRun.wordStyles ? serializeDocument(applyWordStyles(parseDocument(outputAST), this._options.styles ?? [])) : outputAST);
+                        }
+                    }));
+
+                    return pageFiles;
+                });
+
+                if (this._writerPipeRuns.some(writerPipeRun => writerPipeRun.searchIndexFile !== undefined)) {
+                    await this.stage(context, "search", async () => {
+                        this.writeSearchIndexes(ast);
+                    });
+                }
+
+                const diffRun = this._diffRun;
+
+                if (diffRun !== undefined) {
+                    await this.stage(context, "diff", async () => this.writeDiff(context, diffRun, ast));
                 }
 
-                const watchWait = options.watchWait ?? DEFAULT_WATCH_WAIT_MILLISECONDS;
+                if (this._pdfJobs.length !== 0) {
+                    await this.stage(context, "pdf", async () => this.printPDFs());
+                }
 
-                let abortController: AbortController | undefined = undefined;
-                // let timeout: NodeJS.Timeout | undefined = undefined;
+                const resourceFiles = this._outputDirectory !== this._inputDirectory ? await this.stage(context, "copy", async () => copyFiles(this._inputResourceFiles, this._inputDirectory, this._outputDirectory)) : [];
 
-                logger.info("Watching for changes...");
+                const linkCheck = this._options.linkCheck ?? "warn";
 
-                chokidar.watch(watchPaths, {
-                    ignoreInitial: true,
-                    ignored,
-                    awaitWriteFinish: {
-                        stabilityThreshold: 500,
-                        pollInterval: 100
-                    }
-                }).on("all", (eventName, path) => {
-                    logger.debug(`${eventName}: ${path}`);
+                const diffOutputFiles = diffRun !== undefined ? [diffRun.outputFile] : [];
 
-                    if (abortController !== undefined) {
-                        // Run Pandoc only after timeout after last event.
-                        abortController.abort();
-                    }
+                const htmlFiles = [...this._htmlOutputFiles.flatMap(htmlOutputFile => splitPageFiles.get(htmlOutputFile) ?? [htmlOutputFile]), ...diffOutputFiles];
+
+                // Link check runs after the copy, so that resource files are in place.
+                if (linkCheck !== "off" && htmlFiles.length !== 0) {
+                    await this.stage(context, "check", async () => {
+                        this.checkLinks(context, htmlFiles, linkCheck === "error");
+                    });
+                }
+
+                return {
+                    outputFiles: [...this._outputFiles.flatMap(outputFile => splitPageFiles.get(outputFile) ?? [outputFile]), ...diffOutputFiles],
+                    resourceFiles
+                };
+            }).then(({ outputFiles, resourceFiles }): BuildResult => ({
+                status: 0,
+                outputFiles,
+                resourceFiles,
+                warnings: context.warnings,
+                durations: context.durations
+            }), (e: unknown): BuildResult => ({
+                status: context.status ?? 1,
+                error: e instanceof Error ? e : new Error(String(e)),
+                outputFiles: [],
+                resourceFiles: [],
+                warnings: context.warnings,
+                durations: context.durations
+            }))
+        };
+    }
+
+    /**
+     * Build the outputs. Build failures are reported in the result rather than thrown.
+     *
+     * @returns
+     * Build result.
+     */
+    async build(): Promise<BuildResult> {
+        return this.startBuild().then(async pendingBuild => pendingBuild.complete());
+    }
+
+    /**
+     * Run the pipes.
+     *
+     * @throws Error
+     * If the build fails.
+     */
+    async runPipes(): Promise<void> {
+        const result = await this.build();
+
+        if (result.error !== undefined) {
+            throw result.error;
+        }
+    }
+
+    /**
+     * Run the pandoc-spec process.
+     */
+    async run(): Promise<void> {
+        await this.runPipes().then(async () => this.serveAndWatch());
+    }
+
+    /**
+     * Serve and watch, if so configured, after the initial build. Neither is done inside a GitHub Action.
+     */
+    async serveAndWatch(): Promise<void> {
+        const options = this._options;
+        const logger = this._logger;
+
+        // Ignore serve if running inside a GitHub Action.
+        if (options.serve !== undefined && !isGitHubAction()) {
+            const previewServer = new PreviewServer(logger, this._outputDirectory);
+
+            const url = await previewServer.listen(options.serve.host ?? DEFAULT_SERVE_HOST, options.serve.port ?? DEFAULT_SERVE_PORT);
+
+            logger.info(`Serving ${this._outputDirectory} at ${url}`);
+
+            this.on("rebuild", (result) => {
+                if (result.error === undefined) {
+                    previewServer.reload();
+                } else {
+                    // The error is shown in the browser.
+                    previewServer.error(result.error);
+                }
+            });
+        }
+
+        this.watch();
+    }
+
+    /**
+     * Watch, if so configured, and rebuild when a change is detected, emitting a "rebuild" event with the result of each
+     * rebuild. Not done inside a GitHub Action.
+     */
+    watch(): void {
+        const options = this._options;
+        const logger = this._logger;
+
+        // Ignore watch if running inside a GitHub Action.
+        if (options.watch === true && !isGitHubAction()) {
+            // Watch input directory and all input resource files; all paths are absolute.
+            const watchPaths = [this._inputDirectory, ...this._inputResourceFiles.map(inputResourceFile => path.resolve(this._inputDirectory, inputResourceFile))];
+
+            // Watch template files and reference documents.
+            watchPaths.push(...this._templateFiles, ...this._referenceDocuments);
+
+            // Watch module filters given by path; those in packages aren't expected to change.
+            watchPaths.push(...[...this._filterRuns, ...this._writerPipeRuns.flatMap(writerPipeRun => writerPipeRun.filterRuns)].flatMap(filterRun => filterRun.type === "module" ? filterRun.paths : []).filter(moduleFilterPath => moduleFilterPath.includes("/") || path.isAbsolute(moduleFilterPath)).map(moduleFilterPath => path.resolve(this._startingDirectory, moduleFilterPath)));
+
+            // Ignore output directory, in case it's in the input directory.
+            const ignored = [this._outputDirectory];
 
-                    abortController = new AbortController();
-
-                    setTimeout(watchWait, undefined, {
-                        signal: abortController.signal
-                    }).then(async () => {
-                        await this.run();
-                        logger.info("Watching for changes...");
-                    }).catch((e: unknown) => {
-                        // Ignore abort error.
-                        if (!(e instanceof Error) || e.name !== "AbortError") {
-                            logger.error("Timer failed", e);
+            // Ignore options file, in case it's in the input directory.
+            if (this._optionsFile !== undefined) {
+                ignored.push(this._optionsFile);
+            }
+
+            // Ignore cache directory, in case it's in the input directory.
+            if (this._cache !== undefined) {
+                ignored.push(this._cache.directory);
+            }
+
+            const watchWait = options.watchWait ?? DEFAULT_WATCH_WAIT_MILLISECONDS;
+
+            let abortController: AbortController | undefined = undefined;
+
+            logger.info("Watching for changes...");
+
+            chokidar.watch(watchPaths, {
+                ignoreInitial: true,
+                ignored,
+                awaitWriteFinish: {
+                    stabilityThreshold: 500,
+                    pollInterval: 100
+                }
+            }).on("all", (eventName, eventPath) => {
+                logger.debug(`${eventName}: ${eventPath}`);
+
+                // Any change other than to an input file may be to a file included by an input file.
+                if (!this._inputFiles.some(inputFile => path.resolve(this._inputDirectory, inputFile) === eventPath)) {
+                    this._invalidateReads = true;
+                }
+
+                if (abortController !== undefined) {
+                    // Run Pandoc only after timeout after last event.
+                    abortController.abort();
+                }
+
+                abortController = new AbortController();
+
+                setTimeout(watchWait, undefined, {
+                    signal: abortController.signal
+                }).then(async () => {
+                    await this.build().then((result) => {
+                        if (result.error !== undefined) {
+                            // Keep watching after a failed build.
+                            logger.error("Build failed", result.error);
                         }
+
+                        this.emit("rebuild", result);
                     });
+                    logger.info("Watching for changes...");
+                }).catch((e: unknown) => {
+                    // Ignore abort error.
+                    if (!(e instanceof Error) || e.name !== "AbortError") {
+                        logger.error("Timer failed", e);
+                    }
                 });
-            }
-        });
+            });
+        }
     }
 }
+
+/**
+ * Run pandoc-spec with options from the options file, overridden by parameter options.
+ *
+ * @param parameterOptions
+ * Parameter options.
+ */
+export async function pandocSpec(parameterOptions?: Partial<Options>): Promise<void> {
+    await PandocSpec.create(parameterOptions).then(async pandocSpec => pandocSpec.run());
+}
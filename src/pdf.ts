@@ -0,0 +1,136 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import puppeteer, { type LaunchOptions, type PDFOptions } from "puppeteer";
+import type { PDF, PDFMargins } from "./options.js";
+
+/**
+ * Default page margins, leaving room at the top and bottom for the header and footer.
+ */
+const DEFAULT_MARGINS: Required<PDFMargins> = {
+    top: "20mm",
+    right: "15mm",
+    bottom: "20mm",
+    left: "15mm"
+};
+
+/**
+ * Default header template: the document title.
+ */
+const DEFAULT_HEADER_TEMPLATE = "<div style=\"width: 100%; padding: 0 15mm; font-size: 8pt; text-align: center;\"><span class=\"title\"></span></div>";
+
+/**
+ * Default footer template: the page number and total pages.
+ */
+const DEFAULT_FOOTER_TEMPLATE = "<div style=\"width: 100%; padding: 0 15mm; font-size: 8pt; text-align: center;\">Page <span class=\"pageNumber\"></span> of <span class=\"totalPages\"></span></div>";
+
+/**
+ * Template that suppresses a header or footer; Chromium substitutes its own for an empty template.
+ */
+const EMPTY_TEMPLATE = "<span></span>";
+
+/**
+ * HTML file to be printed to a PDF file.
+ */
+export interface PDFJob {
+    /**
+     * Absolute path of the HTML file.
+     */
+    htmlFile: string;
+
+    /**
+     * Absolute path of the PDF file.
+     */
+    pdfFile: string;
+}
+
+/**
+ * Get the Puppeteer PDF options for a page layout.
+ *
+ * @param pdf
+ * Page layout.
+ *
+ * @returns
+ * PDF options.
+ */
+export function pdfOptions(pdf: PDF): PDFOptions {
+    const headerTemplate = pdf.headerTemplate ?? DEFAULT_HEADER_TEMPLATE;
+    const footerTemplate = pdf.footerTemplate ?? DEFAULT_FOOTER_TEMPLATE;
+
+    return {
+        format: pdf.pageSize ?? "Letter",
+        landscape: pdf.landscape ?? false,
+        margin: {
+            ...DEFAULT_MARGINS,
+            ...pdf.margins
+        },
+        printBackground: true,
+        displayHeaderFooter: headerTemplate !== "" || footerTemplate !== "",
+        headerTemplate: headerTemplate !== "" ? headerTemplate : EMPTY_TEMPLATE,
+        footerTemplate: footerTemplate !== "" ? footerTemplate : EMPTY_TEMPLATE
+    };
+}
+
+/**
+ * Print HTML files to PDF files with headless Chromium, using the print stylesheet. A single browser is launched for
+ * all files.
+ *
+ * @param jobs
+ * HTML files and the PDF files to which they are printed.
+ *
+ * @param launchOptions
+ * Puppeteer launch options.
+ *
+ * @param pdf
+ * Page layout.
+ */
+export async function printPDFs(jobs: readonly PDFJob[], launchOptions: LaunchOptions, pdf: PDF): Promise<void> {
+    const options = pdfOptions(pdf);
+
+    const browser = await puppeteer.launch({
+        ...launchOptions,
+        headless: true
+    });
+
+    try {
+        for (const job of jobs) {
+            const page = await browser.newPage();
+
+            try {
+                // Scripts in the template restructure the document once loaded.
+                await page.goto(pathToFileURL(job.htmlFile).href, {
+                    waitUntil: "networkidle0"
+                });
+
+                fs.mkdirSync(path.dirname(job.pdfFile), {
+                    recursive: true
+                });
+
+                await page.pdf({
+                    ...options,
+                    path: job.pdfFile
+                });
+            } finally {
+                await page.close();
+            }
+        }
+    } finally {
+        await browser.close();
+    }
+}
@@ -0,0 +1,329 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import type { Logger } from "./logger-helper.js";
+
+/**
+ * Default host name on which to listen.
+ */
+export const DEFAULT_SERVE_HOST = "localhost";
+
+/**
+ * Default port on which to listen.
+ */
+export const DEFAULT_SERVE_PORT = 8080;
+
+/**
+ * Path of server-sent events endpoint.
+ */
+const EVENTS_PATH = "/_pandoc-spec/events";
+
+/**
+ * Content types by file extension.
+ */
+const CONTENT_TYPES: Readonly<Record<string, string>> = {
+    ".html": "text/html; charset=utf-8",
+    ".css": "text/css; charset=utf-8",
+    ".js": "text/javascript; charset=utf-8",
+    ".json": "application/json; charset=utf-8",
+    ".map": "application/json; charset=utf-8",
+    ".svg": "image/svg+xml",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".webp": "image/webp",
+    ".ico": "image/x-icon",
+    ".pdf": "application/pdf",
+    ".woff": "font/woff",
+    ".woff2": "font/woff2",
+    ".txt": "text/plain; charset=utf-8"
+};
+
+/**
+ * Live-reload client, injected into HTML output. Reloads on "reload" event; shows an overlay on "build-error" event.
+ */
+const LIVE_RELOAD_CLIENT = `<script>
+(() => {
+    const eventSource = new EventSource("${EVENTS_PATH}");
+
+    eventSource.addEventListener("reload", () => {
+        location.reload();
+    });
+
+    eventSource.addEventListener("build-error", (e) => {
+        let overlayElement = document.getElementById("_pandoc-spec-error");
+
+        if (overlayElement === null) {
+            overlayElement = document.createElement("pre");
+            overlayElement.id = "_pandoc-spec-error";
+            overlayElement.style.cssText = "position: fixed; inset: 0; z-index: 2147483647; margin: 0; padding: 2em; overflow: auto; white-space: pre-wrap; background: rgba(32, 0, 0, 0.92); color: #ff8080; font: 14px monospace;";
+            overlayElement.title = "Click to dismiss";
+            overlayElement.addEventListener("click", () => {
+                overlayElement.remove();
+            });
+
+            document.body.appendChild(overlayElement);
+        }
+
+        overlayElement.textContent = "Build failed\\n\\n" + JSON.parse(e.data);
+    });
+})();
+</script>
+`;
+
+/**
+ * Preview server. Serves the output directory over HTTP, injects a live-reload client into HTML files, and pushes
+ * reload and error events to connected clients over server-sent events.
+ */
+export class PreviewServer {
+    /**
+     * Logger.
+     */
+    private readonly _logger: Logger;
+
+    /**
+     * Directory being served.
+     */
+    private readonly _directory: string;
+
+    /**
+     * HTTP server.
+     */
+    private readonly _server: http.Server;
+
+    /**
+     * Responses for connected event clients.
+     */
+    private readonly _eventResponses = new Set<http.ServerResponse>();
+
+    /**
+     * Constructor.
+     *
+     * @param logger
+     * Logger.
+     *
+     * @param directory
+     * Directory to serve.
+     */
+    constructor(logger: Logger, directory: string) {
+        this._logger = logger;
+        this._directory = directory;
+
+        this._server = http.createServer((request, response) => {
+            this.handle(request, response);
+        });
+    }
+
+    /**
+     * Start listening.
+     *
+     * @param host
+     * Host name or address.
+     *
+     * @param port
+     * Port.
+     *
+     * @returns
+     * URL at which the output directory is served.
+     */
+    async listen(host: string, port: number): Promise<string> {
+        // eslint-disable-next-line promise/avoid-new -- Promise required to wait for server to listen.
+        await new Promise<void>((resolve, reject) => {
+            this._server.once("error", reject);
+
+            this._server.listen(port, host, () => {
+                this._server.off("error", reject);
+                resolve();
+            });
+        });
+
+        return `http://${host}:${port}/`;
+    }
+
+    /**
+     * Close the server and all client connections.
+     */
+    async close(): Promise<void> {
+        for (const response of this._eventResponses) {
+            response.end();
+        }
+
+        this._eventResponses.clear();
+
+        // eslint-disable-next-line promise/avoid-new -- Promise required to wait for server to close.
+        await new Promise<void>((resolve, reject) => {
+            this._server.close((err) => {
+                if (err !== undefined) {
+                    reject(err);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * Push a reload event to all connected clients.
+     */
+    reload(): void {
+        this.push("reload", "");
+    }
+
+    /**
+     * Push a build error event to all connected clients.
+     *
+     * @param e
+     * Error.
+     */
+    error(e: unknown): void {
+        this.push("build-error", e instanceof Error ? e.message : String(e));
+    }
+
+    /**
+     * Push an event to all connected clients.
+     *
+     * @param eventName
+     * Event name.
+     *
+     * @param data
+     * Event data, sent as JSON.
+     */
+    private push(eventName: string, data: string): void {
+        this._logger.debug(() => `Pushing ${eventName} to ${this._eventResponses.size} clients`);
+
+        for (const response of this._eventResponses) {
+            response.write(`event: ${eventName}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+    }
+
+    /**
+     * Handle a request.
+     *
+     * @param request
+     * Request.
+     *
+     * @param response
+     * Response.
+     */
+    private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+        let pathname: string | undefined;
+
+        try {
+            pathname = decodeURIComponent(new URL(request.url ?? "/", "http://localhost").pathname);
+        } catch {
+            // Percent-encoding is malformed.
+            pathname = undefined;
+        }
+
+        if (pathname === undefined) {
+            response.writeHead(400).end();
+        } else if (pathname === EVENTS_PATH) {
+            response.writeHead(200, {
+                "Content-Type": "text/event-stream",
+                "Cache-Control": "no-cache",
+                "Connection": "keep-alive"
+            });
+
+            // Headers are otherwise held until the first event, leaving the client waiting for the connection to open.
+            response.flushHeaders();
+
+            this._eventResponses.add(response);
+
+            request.on("close", () => {
+                this._eventResponses.delete(response);
+            });
+        } else {
+            const filePath = path.join(this._directory, pathname);
+
+            if (filePath !== this._directory && !filePath.startsWith(`${this._directory}${path.sep}`)) {
+                // Path escapes the directory being served.
+                response.writeHead(403).end();
+            } else {
+                this.serveFile(filePath, response);
+            }
+        }
+    }
+
+    /**
+     * Serve a file, or the index of a directory. The file is read without checking for it first, as the output
+     * directory is rewritten on every build and the file may be deleted in between; a file that can't be read is
+     * answered with an error status rather than thrown from the request listener.
+     *
+     * @param filePath
+     * File path.
+     *
+     * @param response
+     * Response.
+     */
+    private serveFile(filePath: string, response: http.ServerResponse): void {
+        let resolvedFilePath = filePath;
+        let content: Buffer | undefined;
+        let status: number;
+
+        try {
+            if (fs.statSync(filePath).isDirectory()) {
+                resolvedFilePath = path.join(filePath, "index.html");
+            }
+
+            content = fs.readFileSync(resolvedFilePath);
+            status = 200;
+        } catch (e: unknown) {
+            const code = e instanceof Error && "code" in e ? e.code : undefined;
+
+            if (code === "ENOENT" || code === "ENOTDIR") {
+                status = 404;
+            } else {
+                this._logger.error(`Unable to serve ${resolvedFilePath}`, e);
+
+                status = 500;
+            }
+        }
+
+        if (content === undefined) {
+            response.writeHead(status).end();
+        } else {
+            const extension = path.extname(resolvedFilePath).toLowerCase();
+
+            if (extension === ".html") {
+                content = Buffer.from(PreviewServer.injectClient(content.toString()));
+            }
+
+            response.writeHead(status, {
+                "Content-Type": CONTENT_TYPES[extension] ?? "application/octet-stream",
+                "Cache-Control": "no-store"
+            }).end(content);
+        }
+    }
+
+    /**
+     * Inject the live-reload client into HTML.
+     *
+     * @param html
+     * HTML.
+     *
+     * @returns
+     * HTML with live-reload client before the closing body tag, or at the end if there is none.
+     */
+    private static injectClient(html: string): string {
+        const bodyEndIndex = html.toLowerCase().lastIndexOf("</body>");
+
+        return bodyEndIndex !== -1 ? `${html.substring(0, bodyEndIndex)}${LIVE_RELOAD_CLIENT}${html.substring(bodyEndIndex)}` : `${html}${LIVE_RELOAD_CLIENT}`;
+    }
+}
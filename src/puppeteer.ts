@@ -14,8 +14,9 @@
  * limitations under the License.
  */
 
-import fs from "fs";
+import fs from "node:fs";
 import path from "node:path";
+import type { LaunchOptions } from "puppeteer";
 
 /**
  * Configuration layout of .puppeteer.json (relevant attributes only).
@@ -28,64 +29,32 @@ interface Configuration {
 }
 
 /**
- * Configuration state.
- */
-enum State {
-    NotFound,
-    FromWorking,
-    FromInputComplete,
-    FromInputPartial
-}
-
-/**
- * Puppeteer configurator. Looks for Puppeteer configuration file in input directory, then in working directory, and
- * ensures that the --no-sandbox argument is set.
+ * Puppeteer configurator. Looks for Puppeteer configuration file in input directory, then in starting directory, and
+ * adds the --no-sandbox argument to the launch options built from it; neither directory is modified. The same launch
+ * options are used to launch Chromium for Mermaid diagrams and PDF outputs.
  */
 export class PuppeteerConfigurator {
     /**
-     * Configuration state; required to restore original Puppeteer configuration file in input directory.
+     * Configuration, serialized so that each copy of the launch options is independent.
      */
-    private readonly _state: State;
-
-    /**
-     * Input configuration file.
-     */
-    private readonly _inputConfigurationFile: string;
-
-    /**
-     * Configuration file content to be restored.
-     */
-    private readonly _configurationFileContent: string;
+    private readonly _configurationContent: string;
 
     /**
      * Constructor.
      *
      * @param inputDirectory
-     * Input directory in which Pandoc will be run.
+     * Input directory.
+     *
+     * @param startingDirectory
+     * Starting directory.
      */
-    constructor(inputDirectory: string) {
-        const configurationFile = ".puppeteer.json";
+    constructor(inputDirectory: string, startingDirectory: string) {
+        const configurationFileName = ".puppeteer.json";
 
-        this._inputConfigurationFile = path.resolve(inputDirectory, configurationFile);
-
-        if (fs.existsSync(this._inputConfigurationFile)) {
-            // Assume file is only partially complete.
-            this._state = State.FromInputPartial;
-
-            this._configurationFileContent = fs.readFileSync(this._inputConfigurationFile).toString();
-        } else if (fs.existsSync(configurationFile)) {
-            this._state = State.FromWorking;
-
-            this._configurationFileContent = fs.readFileSync(configurationFile).toString();
-        } else {
-            this._state = State.NotFound;
-
-            // Default to empty object.
-            this._configurationFileContent = "{}";
-        }
+        const sourceConfigurationFile = [path.resolve(inputDirectory, configurationFileName), path.resolve(startingDirectory, configurationFileName)].find(configurationFile => fs.existsSync(configurationFile));
 
         // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- Puppeteer configuration format is known.
-        const configuration: Configuration = JSON.parse(this._configurationFileContent);
+        const configuration: Configuration = JSON.parse(sourceConfigurationFile !== undefined ? fs.readFileSync(sourceConfigurationFile).toString() : "{}");
 
         // Force existence of args attribute.
         configuration.args ??= [];
@@ -96,43 +65,16 @@ export class PuppeteerConfigurator {
         // Check for existence of --no-sandbox argument.
         if (!configuration.args.includes(noSandboxArg)) {
             configuration.args.push(noSandboxArg);
-        } else if (this._state === State.FromInputPartial) {
-            // Configuration is from input directory and is complete.
-            this._state = State.FromInputComplete;
         }
 
-        // Skip if configuration file in input directory exists and already has the --no-sandbox argument.
-        if (this._state !== State.FromInputComplete) {
-            const newConfigurationFileContent = `${JSON.stringify(configuration, null, 2)}\n`;
-
-            if (newConfigurationFileContent !== this._configurationFileContent) {
-                fs.writeFileSync(this._inputConfigurationFile, newConfigurationFileContent);
-            } else {
-                // Configuration file is left over from prior run; delete.
-                this._state = State.NotFound;
-            }
-        }
+        this._configurationContent = JSON.stringify(configuration);
     }
 
     /**
-     * Finalize by restoring original Puppeteer configuration file in input directory.
+     * Get the launch options, to be passed to Puppeteer directly; a new copy on each call.
      */
-    finalize(): void {
-        switch (this._state) {
-            case State.NotFound:
-            case State.FromWorking:
-                // No original Puppeteer configuration file; delete.
-                fs.rmSync(this._inputConfigurationFile);
-                break;
-
-            case State.FromInputPartial:
-                // Restore original Puppeteer configuration file.
-                fs.writeFileSync(this._inputConfigurationFile, this._configurationFileContent);
-                break;
-
-            case State.FromInputComplete:
-                // Keep original Puppeteer configuration file.
-                break;
-        }
+    get launchOptions(): LaunchOptions {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Puppeteer configuration format is known.
+        return JSON.parse(this._configurationContent) as LaunchOptions;
     }
 }
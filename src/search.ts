@@ -0,0 +1,250 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from "node:path";
+import { type Document, type Element, elementAttributes, mapElements, stringify, visitElements } from "./ast.js";
+import { type AnchorIndex, anchorOf } from "./cross-reference.js";
+
+/**
+ * Classes of spans that define terms.
+ */
+const DEFINED_TERM_CLASSES = ["define", "definition", "defined-term"];
+
+/**
+ * Entry in a search index.
+ */
+export interface SearchEntry {
+    /**
+     * Kind: a section, identified by its heading, or a defined term.
+     */
+    kind: "section" | "term";
+
+    /**
+     * URL, relative to the directory of the search index.
+     */
+    href: string;
+
+    /**
+     * Section number of the section or, for a term, of the enclosing section; undefined if unnumbered.
+     */
+    number?: string;
+
+    /**
+     * Heading of the section or the term.
+     */
+    title: string;
+
+    /**
+     * Text of the section, excluding subsections, or, for a term, its definition or the heading of the enclosing
+     * section.
+     */
+    text: string;
+}
+
+/**
+ * Search index of an HTML output.
+ */
+export interface SearchIndex {
+    /**
+     * Specification title, if any.
+     */
+    title?: string;
+
+    /**
+     * Entries, in document order.
+     */
+    entries: SearchEntry[];
+}
+
+/**
+ * Determine if a value is a span.
+ *
+ * @param value
+ * Value.
+ *
+ * @returns
+ * True if the value is a span.
+ */
+function isSpan(value: unknown): value is Element {
+    return typeof value === "object" && value !== null && "t" in value && value.t === "Span";
+}
+
+/**
+ * Get the plain text of blocks. Code blocks and raw content are omitted.
+ *
+ * @param blocks
+ * Blocks.
+ *
+ * @returns
+ * Plain text, with whitespace collapsed.
+ */
+function blocksText(blocks: unknown): string {
+    const words: string[] = [];
+
+    // Terms of definition lists are bare inlines, so they're made plain blocks to be separated like any other block.
+    const plainTerms = (element: Element): Element | undefined => element.t === "DefinitionList" && Array.isArray(element.c) ?
+        {
+            t: element.t,
+            c: element.c.map((item: unknown) => Array.isArray(item) ?
+                [{
+                    t: "Plain",
+                    c: item[0]
+                }, mapElements<unknown>(item[1], plainTerms)] :
+                item)
+        } :
+        undefined;
+
+    visitElements(mapElements(blocks, plainTerms), (element) => {
+        switch (element.t) {
+            case "Str":
+                if (typeof element.c === "string") {
+                    words.push(element.c);
+                }
+                break;
+
+            case "Code":
+                words.push(stringify([element]));
+                break;
+
+            case "Space":
+            case "SoftBreak":
+            case "LineBreak":
+            case "Para":
+            case "Plain":
+            case "Header":
+                words.push(" ");
+                break;
+
+            default:
+                break;
+        }
+    });
+
+    return words.join("").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Build the search index of a document. Each heading with an identifier starts a section entry; defined terms,
+ * namely the terms of definition lists and spans with an identifier and a "define", "definition", or "defined-term"
+ * class, get entries of their own.
+ *
+ * @param document
+ * Document.
+ *
+ * @param anchorIndex
+ * Anchor index of the document, with URLs relative to the output directory.
+ *
+ * @param directory
+ * Directory of the search index, relative to the output directory, with "/" separators.
+ *
+ * @returns
+ * Search index.
+ */
+export function buildSearchIndex(document: Document, anchorIndex: AnchorIndex, directory: string): SearchIndex {
+    const entries: SearchEntry[] = [];
+
+    const relativeHref = (href: string): string => path.posix.relative(directory, href.replace(/#.*$/, "")) + href.replace(/^[^#]*/, "");
+
+    let section: SearchEntry | undefined = undefined;
+    let sectionBlocks: Element[] = [];
+
+    const endSection = (): void => {
+        if (section !== undefined) {
+            section.text = blocksText(sectionBlocks);
+        }
+
+        sectionBlocks = [];
+    };
+
+    const addTerm = (id: string, title: string, text: string): void => {
+        const anchor = id !== "" ? anchorOf(anchorIndex, id) : undefined;
+        const currentSection: SearchEntry | undefined = section;
+
+        const href = anchor !== undefined ? relativeHref(anchor.href) : currentSection?.href;
+
+        if (href !== undefined && title !== "") {
+            entries.push({
+                kind: "term",
+                href,
+                ...currentSection?.number !== undefined ?
+                    {
+                        number: currentSection.number
+                    } :
+                    {},
+                title,
+                text: text !== "" ? text : currentSection?.title ?? ""
+            });
+        }
+    };
+
+    for (const block of document.blocks) {
+        const attributes = elementAttributes(block);
+        const anchor = block.t === "Header" && attributes !== undefined && attributes[0] !== "" ? anchorOf(anchorIndex, attributes[0]) : undefined;
+
+        if (anchor !== undefined) {
+            endSection();
+
+            section = {
+                kind: "section",
+                href: relativeHref(anchor.href),
+                ...anchor.number !== undefined ?
+                    {
+                        number: anchor.number
+                    } :
+                    {},
+                title: anchor.title,
+                text: ""
+            };
+
+            entries.push(section);
+        } else {
+            sectionBlocks.push(block);
+        }
+
+        visitElements(block, (element) => {
+            const content = element.c;
+
+            if (element.t === "DefinitionList" && Array.isArray(content)) {
+                // Definition list content is an array of [term inlines, definitions as arrays of blocks].
+                for (const item of content) {
+                    if (Array.isArray(item)) {
+                        // Term is identified by the first span in it with an identifier.
+                        const termId = Array.isArray(item[0]) ? item[0].map(inline => isSpan(inline) ? elementAttributes(inline)?.[0] ?? "" : "").find(id => id !== "") ?? "" : "";
+
+                        addTerm(termId, stringify(item[0]).trim(), blocksText(item[1]));
+                    }
+                }
+            } else if (element.t === "Span") {
+                const spanAttributes = elementAttributes(element);
+
+                if (spanAttributes !== undefined && spanAttributes[0] !== "" && spanAttributes[1].some(className => DEFINED_TERM_CLASSES.includes(className))) {
+                    addTerm(spanAttributes[0], stringify([element]).trim(), "");
+                }
+            }
+        });
+    }
+
+    endSection();
+
+    return {
+        ...anchorIndex.title !== undefined ?
+            {
+                title: anchorIndex.title
+            } :
+            {},
+        entries
+    };
+}
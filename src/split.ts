@@ -0,0 +1,484 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from "node:path";
+import { type Document, type Element, elementAttributes, mapElements, stringify, visitElements } from "./ast.js";
+
+/**
+ * Maximum heading level in the table of contents, as for Pandoc's default.
+ */
+const TOC_DEPTH = 3;
+
+/**
+ * Local link target, `file#id` or `#id`.
+ */
+const LOCAL_FRAGMENT_REGEX = /^([^:#?]*)#(.+)$/;
+
+/**
+ * Heading in a split document.
+ */
+interface Heading {
+    /**
+     * Level.
+     */
+    level: number;
+
+    /**
+     * Identifier.
+     */
+    id: string;
+
+    /**
+     * Section number, if numbered.
+     */
+    number: string | undefined;
+
+    /**
+     * Inline elements.
+     */
+    inlines: Element[];
+
+    /**
+     * If true, the heading is excluded from the table of contents.
+     */
+    unlisted: boolean;
+
+    /**
+     * Page file.
+     */
+    file: string;
+}
+
+/**
+ * Node of the table of contents.
+ */
+interface TOCNode {
+    /**
+     * Heading.
+     */
+    heading: Heading;
+
+    /**
+     * Nodes of the headings within the heading's section.
+     */
+    children: TOCNode[];
+}
+
+/**
+ * Page of a split document.
+ */
+export interface Page {
+    /**
+     * File, relative to the output directory, with "/" separators.
+     */
+    file: string;
+
+    /**
+     * Title, for navigation.
+     */
+    title: Element[];
+
+    /**
+     * Blocks.
+     */
+    blocks: Element[];
+
+    /**
+     * Section counters before the first heading of the page, to be passed to Pandoc as the number offset.
+     */
+    numberOffset: number[];
+}
+
+/**
+ * Document split into pages.
+ */
+export interface SplitDocument {
+    /**
+     * Pages, in document order. The first page is the output file.
+     */
+    pages: Page[];
+
+    /**
+     * Page file of each identifier.
+     */
+    anchorPages: Map<string, string>;
+
+    /**
+     * Headings, in document order.
+     */
+    headings: Heading[];
+}
+
+/**
+ * Get the section number and title of a heading as inline elements, without notes or links.
+ *
+ * @param heading
+ * Heading.
+ *
+ * @returns
+ * Inline elements.
+ */
+function headingInlines(heading: Pick<Heading, "number" | "inlines">): Element[] {
+    const plainInlines = (inlines: Element[]): Element[] => inlines.filter(inline => inline.t !== "Note").map(inline => inline.t === "Link" && Array.isArray(inline.c) ?
+        {
+            t: "Span",
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Link content is [attributes, inlines, target].
+            c: [["", [], []], plainInlines(inline.c[1] as Element[])]
+        } :
+        inline);
+
+    return [...heading.number !== undefined ?
+        [{
+            t: "Span",
+            c: [["", ["toc-section-number"], []], [{
+                t: "Str",
+                c: heading.number
+            }]]
+        }, {
+            t: "Space"
+        }] :
+        [], ...plainInlines(heading.inlines)];
+}
+
+/**
+ * Split a document into pages, one per section at or above a heading level. Blocks before the second such section
+ * are on the first page, which is the output file; every other page is named for the identifier of the heading that
+ * starts it.
+ *
+ * @param document
+ * Document.
+ *
+ * @param outputFile
+ * Output file, relative to the output directory.
+ *
+ * @param level
+ * Heading level at which to split.
+ *
+ * @param numberSections
+ * If true, section numbers follow Pandoc's numbering, skipping headings with the "unnumbered" class.
+ *
+ * @returns
+ * Split document.
+ */
+export function splitDocument(document: Document, outputFile: string, level: number, numberSections: boolean): SplitDocument {
+    const firstFile = outputFile.split(path.sep).join("/");
+    const directory = path.posix.dirname(firstFile);
+
+    const pages: Page[] = [];
+    const files = new Set([firstFile]);
+
+    const anchorPages = new Map<string, string>();
+    const headings: Heading[] = [];
+
+    const counters: number[] = [];
+
+    let page: Page | undefined = undefined;
+    let isSplit = false;
+
+    for (const block of document.blocks) {
+        const isSplittingHeading = block.t === "Header" && Array.isArray(block.c) && typeof block.c[0] === "number" && block.c[0] <= level;
+
+        // First splitting heading is on the first page; each subsequent one starts a new page.
+        if (page === undefined || (isSplittingHeading && isSplit)) {
+            let file: string;
+
+            if (page === undefined) {
+                file = firstFile;
+            } else {
+                const blockAttributes = elementAttributes(block);
+                const baseName = blockAttributes !== undefined && blockAttributes[0] !== "" ? blockAttributes[0] : `section-${pages.length + 1}`;
+
+                file = path.posix.join(directory, `${baseName}.html`);
+
+                for (let suffix = 1; files.has(file); suffix++) {
+                    file = path.posix.join(directory, `${baseName}-${suffix}.html`);
+                }
+
+                files.add(file);
+            }
+
+            page = {
+                file,
+                title: [],
+                blocks: [],
+                numberOffset: [...counters]
+            };
+
+            pages.push(page);
+        }
+
+        if (isSplittingHeading) {
+            isSplit = true;
+        }
+
+        const currentPage = page;
+
+        currentPage.blocks.push(block);
+
+        visitElements(block, (element) => {
+            const attributes = elementAttributes(element);
+
+            if (element.t === "Header" && Array.isArray(element.c) && typeof element.c[0] === "number") {
+                const headingLevel = element.c[0];
+
+                let number: string | undefined = undefined;
+
+                if (numberSections && attributes?.[1].includes("unnumbered") !== true && headingLevel >= 1) {
+                    counters.splice(headingLevel);
+
+                    while (counters.length < headingLevel) {
+                        counters.push(0);
+                    }
+
+                    counters[headingLevel - 1]++;
+
+                    number = counters.join(".");
+                }
+
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Header content is [level, attributes, inlines].
+                const inlines = element.c[2] as Element[];
+
+                headings.push({
+                    level: headingLevel,
+                    id: attributes?.[0] ?? "",
+                    number,
+                    inlines,
+                    unlisted: attributes?.[1].includes("unlisted") === true,
+                    file: currentPage.file
+                });
+
+                // Page is titled by its first heading.
+                if (currentPage.title.length === 0) {
+                    currentPage.title = headingInlines({
+                        number,
+                        inlines
+                    });
+                }
+            }
+
+            if (attributes !== undefined && attributes[0] !== "" && !anchorPages.has(attributes[0])) {
+                anchorPages.set(attributes[0], currentPage.file);
+            }
+        });
+    }
+
+    return {
+        pages,
+        anchorPages,
+        headings
+    };
+}
+
+/**
+ * Get the URL of a file relative to a page.
+ *
+ * @param page
+ * Page.
+ *
+ * @param file
+ * File, relative to the output directory.
+ *
+ * @returns
+ * URL.
+ */
+function relativeURL(page: Page, file: string): string {
+    return path.posix.relative(path.posix.dirname(page.file), file);
+}
+
+/**
+ * Build the table of contents shared by all pages, as a bullet list.
+ *
+ * @param split
+ * Split document.
+ *
+ * @param page
+ * Page to which links are relative.
+ *
+ * @returns
+ * Bullet list or undefined if there are no headings to list.
+ */
+function tableOfContents(split: SplitDocument, page: Page): Element | undefined {
+    const root: TOCNode[] = [];
+    const stack: TOCNode[] = [];
+
+    for (const heading of split.headings) {
+        if (heading.level <= TOC_DEPTH && heading.id !== "" && !heading.unlisted) {
+            while (stack.length !== 0 && stack[stack.length - 1].heading.level >= heading.level) {
+                stack.pop();
+            }
+
+            const node: TOCNode = {
+                heading,
+                children: []
+            };
+
+            (stack.length !== 0 ? stack[stack.length - 1].children : root).push(node);
+            stack.push(node);
+        }
+    }
+
+    const bulletList = (nodes: TOCNode[]): Element => ({
+        t: "BulletList",
+        c: nodes.map(node => [{
+            t: "Plain",
+            c: [{
+                t: "Link",
+                c: [["", [], []], headingInlines(node.heading), [`${node.heading.file !== page.file ? relativeURL(page, node.heading.file) : ""}#${node.heading.id}`, ""]]
+            }]
+        }, ...node.children.length !== 0 ? [bulletList(node.children)] : []])
+    });
+
+    return root.length !== 0 ? bulletList(root) : undefined;
+}
+
+/**
+ * Get the navigation metadata of a page.
+ *
+ * @param page
+ * Page to which the navigation refers.
+ *
+ * @param fromPage
+ * Page to which the link is relative.
+ *
+ * @returns
+ * Navigation metadata.
+ */
+function navigationMeta(page: Page, fromPage: Page): Element {
+    return {
+        t: "MetaMap",
+        c: {
+            href: {
+                t: "MetaString",
+                c: relativeURL(fromPage, page.file)
+            },
+            title: {
+                t: "MetaInlines",
+                c: page.title.length !== 0 ?
+                    page.title :
+                    [{
+                        t: "Str",
+                        c: path.posix.basename(page.file)
+                    }]
+            }
+        }
+    };
+}
+
+/**
+ * Build the document of a page. Links to identifiers on other pages are rewritten to refer to those pages, and the
+ * shared table of contents and the previous and next pages are added to the metadata as the "toc" and
+ * "page-navigation" values.
+ *
+ * @param document
+ * Document from which the split document was built.
+ *
+ * @param split
+ * Split document.
+ *
+ * @param index
+ * Index of the page.
+ *
+ * @param generateTOC
+ * If true, the shared table of contents is added.
+ *
+ * @returns
+ * Page document.
+ */
+export function pageDocument(document: Document, split: SplitDocument, index: number, generateTOC: boolean): Document {
+    const page = split.pages[index];
+    const firstFile = split.pages[0].file;
+
+    const blocks = mapElements(page.blocks, (element) => {
+        let replacement: Element | undefined = undefined;
+
+        // Link content is [attributes, inlines, [url, title]].
+        const content = element.c;
+
+        if (element.t === "Link" && Array.isArray(content) && Array.isArray(content[2]) && typeof content[2][0] === "string") {
+            const match = LOCAL_FRAGMENT_REGEX.exec(content[2][0]);
+
+            if (match !== null) {
+                const [, urlPath, id] = match;
+
+                // Links within the document refer to the output file or to the page itself.
+                const linkedFile = urlPath !== "" ? path.posix.normalize(path.posix.join(path.posix.dirname(page.file), urlPath)) : page.file;
+                const targetFile = split.anchorPages.get(id);
+
+                if ((linkedFile === page.file || linkedFile === firstFile) && targetFile !== undefined && targetFile !== linkedFile) {
+                    replacement = {
+                        t: "Link",
+                        c: [content[0], content[1], [`${targetFile !== page.file ? relativeURL(page, targetFile) : ""}#${id}`, content[2][1]]]
+                    };
+                }
+            }
+        }
+
+        return replacement;
+    });
+
+    const meta: Record<string, Element> = {
+        ...document.meta
+    };
+
+    const toc = generateTOC ? tableOfContents(split, page) : undefined;
+
+    if (toc !== undefined) {
+        meta["toc"] = {
+            t: "MetaBlocks",
+            c: [toc]
+        };
+    }
+
+    const navigation: Record<string, Element> = {};
+
+    if (index !== 0) {
+        navigation["previous"] = navigationMeta(split.pages[index - 1], page);
+    }
+
+    if (index !== split.pages.length - 1) {
+        navigation["next"] = navigationMeta(split.pages[index + 1], page);
+    }
+
+    if (Object.keys(navigation).length !== 0) {
+        meta["page-navigation"] = {
+            t: "MetaMap",
+            c: navigation
+        };
+    }
+
+    // Pages after the first are titled by their section, prefixed by the document title.
+    if (index !== 0 && page.title.length !== 0) {
+        const title = meta["title"] as Element | undefined;
+
+        if (title !== undefined && !("title-prefix" in meta)) {
+            meta["title-prefix"] = {
+                t: "MetaString",
+                c: title.t === "MetaString" && typeof title.c === "string" ? title.c : stringify(title.c)
+            };
+        }
+
+        meta["pagetitle"] = {
+            t: "MetaString",
+            c: stringify(page.title)
+        };
+    }
+
+    return {
+        ...document,
+        meta,
+        blocks
+    };
+}
@@ -26,3 +26,44 @@
 export function isNonNullObject(value: unknown): value is NonNullable<object> {
     return typeof value === "object" && value !== null;
 }
+
+/**
+ * Run tasks with a limit on the number running at once.
+ *
+ * @param tasks
+ * Tasks, each a function returning a promise.
+ *
+ * @param limit
+ * Maximum number of tasks running at once.
+ *
+ * @returns
+ * Results, in the same order as the tasks.
+ */
+export async function runConcurrently<T>(tasks: ReadonlyArray<() => Promise<T>>, limit: number): Promise<T[]> {
+    const results = new Array<T>(tasks.length);
+
+    let nextIndex = 0;
+
+    // Each worker takes the next task as soon as its previous one completes.
+    await Promise.all(Array.from({
+        length: Math.max(1, Math.min(limit, tasks.length))
+    }, async () => {
+        while (nextIndex < tasks.length) {
+            const index = nextIndex++;
+
+            results[index] = await tasks[index]();
+        }
+    }));
+
+    return results;
+}
+
+/**
+ * Determine if running inside a GitHub Action, where neither serving nor watching is done.
+ *
+ * @returns
+ * True if running inside a GitHub Action.
+ */
+export function isGitHubAction(): boolean {
+    return process.env["GITHUB_ACTIONS"] === "true";
+}
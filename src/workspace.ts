@@ -0,0 +1,427 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { LogLevel } from "typescript-logging";
+import type { BuildResult } from "./build.js";
+import { DEFAULT_CACHE_DIRECTORY } from "./cache.js";
+import { AnchorRegistry } from "./cross-reference.js";
+import { getLogger, type Logger, updateLogger } from "./logger-helper.js";
+import { loadOptions, loadWorkspaceOptions, resolveOptions } from "./options-loader.js";
+import { mergePartialOptions, type Options, type Serve, type WorkspaceOptions } from "./options.js";
+import { PandocSpec } from "./pandoc-spec.js";
+import { DEFAULT_SERVE_HOST, DEFAULT_SERVE_PORT, PreviewServer } from "./preview-server.js";
+import { isGitHubAction, runConcurrently } from "./utility.js";
+
+/**
+ * Default landing page file name.
+ */
+const DEFAULT_INDEX_FILE = "index.html";
+
+/**
+ * Default landing page title.
+ */
+const DEFAULT_TITLE = "Specifications";
+
+/**
+ * Project in a workspace.
+ */
+export interface WorkspaceProjectBuilder {
+    /**
+     * Project name.
+     */
+    name: string;
+
+    /**
+     * Builder.
+     */
+    pandocSpec: PandocSpec;
+}
+
+/**
+ * Build result of a project in a workspace.
+ */
+export interface WorkspaceProjectResult {
+    /**
+     * Project name.
+     */
+    name: string;
+
+    /**
+     * Build result.
+     */
+    result: BuildResult;
+}
+
+/**
+ * Escape text for inclusion in HTML.
+ *
+ * @param text
+ * Text.
+ *
+ * @returns
+ * Escaped text.
+ */
+function escapeHTML(text: string): string {
+    return text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * Get the closest directory containing all directories.
+ *
+ * @param directories
+ * Absolute directories, at least one.
+ *
+ * @returns
+ * Absolute common directory.
+ */
+function commonDirectory(directories: readonly string[]): string {
+    const contains = (directory: string, subdirectory: string): boolean => {
+        const relativePath = path.relative(directory, subdirectory);
+
+        return relativePath !== ".." && !relativePath.startsWith(`..${path.sep}`) && !path.isAbsolute(relativePath);
+    };
+
+    return directories.reduce((common, directory) => {
+        let result = common;
+
+        // Root directory, which has itself as its parent, contains all directories on the same drive.
+        while (!contains(result, directory) && path.dirname(result) !== result) {
+            result = path.dirname(result);
+        }
+
+        return result;
+    });
+}
+
+/**
+ * Workspace of pandoc-spec projects, built together with a shared landing page.
+ */
+export class Workspace {
+    private readonly _logger: Logger;
+
+    private readonly _options: WorkspaceOptions;
+
+    private readonly _watch: boolean;
+
+    private readonly _serve: Serve | undefined;
+
+    private readonly _outputDirectory: string;
+
+    private readonly _projects: WorkspaceProjectBuilder[];
+
+    /**
+     * Constructor.
+     *
+     * @param options
+     * Workspace options.
+     *
+     * @param watch
+     * If true, projects are watched after the initial build.
+     *
+     * @param serve
+     * Serve options or undefined if not serving.
+     *
+     * @param outputDirectory
+     * Absolute directory to which the landing page is written.
+     *
+     * @param projects
+     * Projects.
+     */
+    private constructor(options: WorkspaceOptions, watch: boolean, serve: Serve | undefined, outputDirectory: string, projects: WorkspaceProjectBuilder[]) {
+        const logger = getLogger("workspace");
+        this._logger = logger;
+
+        if (options.logLevel !== undefined) {
+            const logLevel = LogLevel.toLogLevel(options.logLevel);
+            if (logLevel !== undefined) {
+                updateLogger(logger, {
+                    level: logLevel
+                });
+            }
+        }
+
+        this._options = options;
+        this._watch = watch;
+        this._serve = serve;
+        this._outputDirectory = outputDirectory;
+        this._projects = projects;
+
+        const names = new Set<string>();
+
+        for (const project of projects) {
+            if (names.has(project.name)) {
+                throw new Error(`Duplicate project name "${project.name}"`);
+            }
+
+            names.add(project.name);
+        }
+    }
+
+    /**
+     * Create a workspace from a workspace options file.
+     *
+     * @param workspaceFile
+     * Workspace options file, relative to the current working directory.
+     *
+     * @param parameterOptions
+     * Parameter options, applied to every project.
+     *
+     * @returns
+     * Workspace.
+     */
+    static async create(workspaceFile: string, parameterOptions?: Partial<Options>): Promise<Workspace> {
+        const resolvedWorkspaceFile = path.resolve(workspaceFile);
+        const workspaceDirectory = path.dirname(resolvedWorkspaceFile);
+
+        const options = await loadWorkspaceOptions(resolvedWorkspaceFile);
+
+        // Projects may reference each other's anchors.
+        const anchorRegistry = new AnchorRegistry();
+
+        const { serve: parameterServe, ...otherParameterOptions } = parameterOptions ?? {};
+
+        const watch = otherParameterOptions.watch ?? options.watch ?? false;
+
+        // Watch and serve apply to the workspace as a whole; a single server serves all projects.
+        const projectParameterOptions: Partial<Options> = {
+            ...otherParameterOptions,
+            watch
+        };
+
+        const projectConfigurations = await Promise.all(options.projects.map(async (project) => {
+            let projectOptions: Options;
+            let startingDirectory: string;
+            let name: string | undefined;
+
+            if (typeof project === "string") {
+                const optionsFile = path.resolve(workspaceDirectory, project);
+
+                startingDirectory = path.dirname(optionsFile);
+                projectOptions = await loadOptions({
+                    ...projectParameterOptions,
+                    optionsFile
+                }, startingDirectory);
+            } else {
+                const { name: projectName, optionsFile, ...inlineOptions } = project;
+
+                name = projectName;
+
+                if (optionsFile !== undefined) {
+                    const resolvedOptionsFile = path.resolve(workspaceDirectory, optionsFile);
+
+                    // Inline options override those in the options file.
+                    startingDirectory = path.dirname(resolvedOptionsFile);
+                    projectOptions = await loadOptions({
+                        ...mergePartialOptions(inlineOptions, projectParameterOptions),
+                        optionsFile: resolvedOptionsFile
+                    }, startingDirectory);
+                } else {
+                    startingDirectory = workspaceDirectory;
+                    projectOptions = resolveOptions(inlineOptions, projectParameterOptions);
+                }
+            }
+
+            return {
+                name,
+                projectOptions,
+                startingDirectory,
+                cacheDirectory: path.resolve(startingDirectory, projectOptions.cacheDirectory ?? DEFAULT_CACHE_DIRECTORY)
+            };
+        }));
+
+        const cacheDirectoryCounts = new Map<string, number>();
+
+        for (const { cacheDirectory } of projectConfigurations) {
+            cacheDirectoryCounts.set(cacheDirectory, (cacheDirectoryCounts.get(cacheDirectory) ?? 0) + 1);
+        }
+
+        const projects = projectConfigurations.map(({ name, projectOptions, startingDirectory, cacheDirectory }, index) => {
+            // Projects sharing a cache directory, such as inline projects, would prune each other's entries, so each is given its own subdirectory.
+            const pandocSpec = PandocSpec.fromOptions(cacheDirectoryCounts.get(cacheDirectory) !== 1 ?
+                {
+                    ...projectOptions,
+                    cacheDirectory: path.join(cacheDirectory, `project-${index}`)
+                } :
+                projectOptions, startingDirectory, anchorRegistry);
+
+            return {
+                name: name ?? pandocSpec.specName,
+                pandocSpec
+            };
+        });
+
+        return new Workspace(options, watch, parameterServe ?? options.serve, path.resolve(workspaceDirectory, options.outputDirectory ?? "."), projects);
+    }
+
+    /**
+     * Get the projects.
+     */
+    get projects(): readonly WorkspaceProjectBuilder[] {
+        return this._projects;
+    }
+
+    /**
+     * Build all projects and write the landing page. All projects complete their read phase before any completes its
+     * write phase, so that cross-document references between projects resolve against the current anchors. Never
+     * rejects on a project build failure; the failure is reported in the project's result.
+     *
+     * @returns
+     * Result of each project, in the order declared.
+     */
+    async build(): Promise<WorkspaceProjectResult[]> {
+        const logger = this._logger;
+
+        const concurrency = this._options.concurrency ?? os.availableParallelism();
+
+        const pendingBuilds = await runConcurrently(this._projects.map(project => async () => {
+            logger.info(`Building ${project.name}`);
+
+            return project.pandocSpec.startBuild();
+        }), concurrency);
+
+        const results = await runConcurrently(this._projects.map((project, index) => async () => pendingBuilds[index].complete().then(result => ({
+            name: project.name,
+            result
+        }))), concurrency);
+
+        this.writeIndex(results);
+
+        return results;
+    }
+
+    /**
+     * Get the absolute path of the landing page.
+     */
+    private get indexFile(): string {
+        return path.resolve(this._outputDirectory, this._options.indexFile ?? DEFAULT_INDEX_FILE);
+    }
+
+    /**
+     * Write the landing page, linking to the output files of each project.
+     *
+     * @param results
+     * Result of each project.
+     */
+    private writeIndex(results: readonly WorkspaceProjectResult[]): void {
+        const indexFile = this.indexFile;
+        const title = escapeHTML(this._options.title ?? DEFAULT_TITLE);
+
+        const items = results.map(({ name, result }) => {
+            const links = result.outputFiles.map((outputFile) => {
+                const href = path.relative(path.dirname(indexFile), outputFile).split(path.sep).join("/");
+
+                return `<li><a href="${escapeHTML(encodeURI(href))}">${escapeHTML(path.basename(outputFile))}</a></li>`;
+            });
+
+            return `<li>${escapeHTML(name)}${result.error !== undefined ? " (build failed)" : ""}${links.length !== 0 ? `<ul>${links.join("")}</ul>` : ""}</li>`;
+        });
+
+        fs.mkdirSync(path.dirname(indexFile), {
+            recursive: true
+        });
+
+        fs.writeFileSync(indexFile, `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+</head>
+<body>
+<h1>${title}</h1>
+<ul>
+${items.join("\n")}
+</ul>
+</body>
+</html>
+`);
+
+        this._logger.info(`Wrote ${indexFile}`);
+    }
+
+    /**
+     * Run the workspace: build all projects, then serve and watch, if so configured. A single server serves the landing
+     * page and the outputs of all projects; each project watches its own files and rebuilds only itself, after which the
+     * landing page is rewritten. Neither serving nor watching is done inside a GitHub Action.
+     *
+     * @throws Error
+     * If any project build fails and not watching.
+     */
+    async run(): Promise<void> {
+        const logger = this._logger;
+
+        const results = await this.build();
+
+        const failedResults = results.filter(({ result }) => result.error !== undefined);
+
+        for (const { name, result } of failedResults) {
+            logger.error(`Build of ${name} failed`, result.error);
+        }
+
+        if (!this._watch && failedResults.length !== 0) {
+            throw new Error(`Build failed for ${failedResults.map(({ name }) => name).join(", ")}`);
+        }
+
+        let previewServer: PreviewServer | undefined = undefined;
+
+        if (this._serve !== undefined && !isGitHubAction()) {
+            const indexFile = this.indexFile;
+
+            // Served directory contains the landing page and all outputs, so that the links on the landing page resolve.
+            const servedDirectory = commonDirectory([path.dirname(indexFile), ...this._projects.map(project => project.pandocSpec.outputDirectory)]);
+
+            previewServer = new PreviewServer(logger, servedDirectory);
+
+            const url = await previewServer.listen(this._serve.host ?? DEFAULT_SERVE_HOST, this._serve.port ?? DEFAULT_SERVE_PORT);
+
+            logger.info(`Serving ${servedDirectory} at ${url}${path.relative(servedDirectory, indexFile).split(path.sep).join("/")}`);
+        }
+
+        for (const [index, project] of this._projects.entries()) {
+            project.pandocSpec.on("rebuild", (result) => {
+                results[index] = {
+                    name: project.name,
+                    result
+                };
+
+                this.writeIndex(results);
+
+                if (result.error === undefined) {
+                    previewServer?.reload();
+                } else {
+                    previewServer?.error(result.error);
+                }
+            });
+
+            project.pandocSpec.watch();
+        }
+    }
+}
+
+/**
+ * Run pandoc-spec for every project in a workspace.
+ *
+ * @param workspaceFile
+ * Workspace options file.
+ *
+ * @param parameterOptions
+ * Parameter options, applied to every project.
+ */
+export async function pandocSpecWorkspace(workspaceFile: string, parameterOptions?: Partial<Options>): Promise<void> {
+    await Workspace.create(workspaceFile, parameterOptions).then(async workspace => workspace.run());
+}
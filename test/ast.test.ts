@@ -0,0 +1,211 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { codeBlockClasses, codeBlockText, type Element, elementAttributes, isElement, mapElements, metaValue, parseDocument, serializeDocument, stringify, visitElements } from "../src/ast.js";
+import { attributes, codeBlock, document, header, inlines, link, para, span } from "./document.js";
+
+describe("parseDocument and serializeDocument", () => {
+    it("round-trips a document", () => {
+        const original = document([header(1, "intro", "Introduction"), para("Text")], {
+            title: {
+                t: "MetaInlines",
+                c: inlines("Title")
+            }
+        });
+
+        assert.deepEqual(parseDocument(serializeDocument(original)), original);
+        assert.deepEqual(parseDocument(JSON.stringify(original)), original);
+    });
+
+    it("rejects JSON that isn't a document", () => {
+        for (const data of ["null", "[]", "{\"meta\": {}, \"blocks\": []}", "{\"pandoc-api-version\": [1, 23], \"meta\": {}, \"blocks\": {}}"]) {
+            assert.throws(() => parseDocument(data), /Invalid Pandoc JSON AST/);
+        }
+    });
+});
+
+describe("isElement", () => {
+    it("requires an object with a string type tag", () => {
+        assert.ok(isElement({
+            t: "Space"
+        }));
+        assert.ok(!isElement(null));
+        assert.ok(!isElement("Str"));
+        assert.ok(!isElement({
+            t: 1
+        }));
+        assert.ok(!isElement([attributes()]));
+    });
+});
+
+describe("mapElements", () => {
+    it("replaces elements without traversing the replacements and leaves the value unchanged", () => {
+        const blocks = [para([span("term", "Old"), ...inlines(" text")])];
+        const original = structuredClone(blocks);
+
+        const mapped = mapElements(blocks, element => element.t === "Span" ?
+            {
+                t: "Span",
+                c: [attributes("term"), [{
+                    t: "Str",
+                    c: "Old"
+                }]]
+            } :
+            element.t === "Str" ?
+                {
+                    t: "Str",
+                    c: String(element.c).toUpperCase()
+                } :
+                undefined);
+
+        assert.deepEqual(mapped, [para([span("term", "Old"), ...inlines(" TEXT")])]);
+        assert.deepEqual(blocks, original);
+    });
+});
+
+describe("visitElements", () => {
+    it("visits elements depth first in document order, each before its content", () => {
+        const types: string[] = [];
+
+        visitElements([header(1, "intro", "A"), para([link("#intro", "B")])], (element) => {
+            types.push(element.t === "Str" ? `Str ${String(element.c)}` : element.t);
+        });
+
+        assert.deepEqual(types, ["Header", "Str A", "Para", "Link", "Str B"]);
+    });
+});
+
+describe("stringify", () => {
+    it("converts inline elements to plain text", () => {
+        assert.equal(stringify([
+            ...inlines("Call"),
+            {
+                t: "Space"
+            },
+            {
+                t: "Code",
+                c: [attributes(), "run()"]
+            },
+            {
+                t: "SoftBreak"
+            },
+            {
+                t: "Emph",
+                c: inlines("now")
+            },
+            {
+                t: "Note",
+                c: [para("Ignored")]
+            },
+            {
+                t: "LineBreak"
+            },
+            span("", "in a span"),
+            {
+                t: "Space"
+            },
+            link("#x", "and a link"),
+            {
+                t: "Space"
+            },
+            {
+                t: "Math",
+                c: [{
+                    t: "InlineMath"
+                }, "x^2"]
+            }
+        ]), "Call run() now in a span and a link x^2");
+    });
+
+    it("returns an empty string for values that aren't inline elements", () => {
+        assert.equal(stringify(undefined), "");
+        assert.equal(stringify("text"), "");
+        assert.equal(stringify([]), "");
+    });
+});
+
+describe("codeBlockClasses and codeBlockText", () => {
+    it("get the classes and text of a code block", () => {
+        const element = codeBlock(["mermaid", "wide"], "graph TD");
+
+        assert.deepEqual(codeBlockClasses(element), ["mermaid", "wide"]);
+        assert.equal(codeBlockText(element), "graph TD");
+    });
+
+    it("return empty values for malformed content", () => {
+        const element: Element = {
+            t: "CodeBlock"
+        };
+
+        assert.deepEqual(codeBlockClasses(element), []);
+        assert.equal(codeBlockText(element), "");
+    });
+});
+
+describe("elementAttributes", () => {
+    it("gets the attributes of elements that have them", () => {
+        assert.deepEqual(elementAttributes(header(2, "scope", "Scope", ["unnumbered"])), attributes("scope", ["unnumbered"]));
+        assert.deepEqual(elementAttributes(span("term", "Term")), attributes("term"));
+        assert.deepEqual(elementAttributes(link("#x", "", "ref")), attributes("ref"));
+    });
+
+    it("returns undefined for elements that don't have them", () => {
+        assert.equal(elementAttributes(para("Text")), undefined);
+        assert.equal(elementAttributes({
+            t: "Header",
+            c: [1]
+        }), undefined);
+        assert.equal(elementAttributes({
+            t: "constructor",
+            c: [attributes("x")]
+        }), undefined);
+    });
+});
+
+describe("metaValue", () => {
+    it("converts values to metadata values", () => {
+        assert.deepEqual(metaValue({
+            title: "Title",
+            draft: true,
+            authors: ["A", "B"],
+            omitted: undefined
+        }), {
+            t: "MetaMap",
+            c: {
+                title: {
+                    t: "MetaString",
+                    c: "Title"
+                },
+                draft: {
+                    t: "MetaBool",
+                    c: true
+                },
+                authors: {
+                    t: "MetaList",
+                    c: [{
+                        t: "MetaString",
+                        c: "A"
+                    }, {
+                        t: "MetaString",
+                        c: "B"
+                    }]
+                }
+            }
+        });
+    });
+});
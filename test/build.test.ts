@@ -0,0 +1,42 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseStandardError } from "../src/build.js";
+
+describe("parseStandardError", () => {
+    it("separates warnings, with their continuation lines, from other lines", () => {
+        assert.deepEqual(parseStandardError("[INFO] Running filter\r\n[WARNING] Duplicate identifier 'intro'\n  at line 3\n\n[WARNING] Missing image\nDone\n"), {
+            warnings: ["Duplicate identifier 'intro'\nat line 3", "Missing image"],
+            otherLines: ["[INFO] Running filter", "Done"]
+        });
+    });
+
+    it("doesn't attach indented lines to a warning once it has ended", () => {
+        assert.deepEqual(parseStandardError("[WARNING] Missing image\nDone\n  indented"), {
+            warnings: ["Missing image"],
+            otherLines: ["Done", "  indented"]
+        });
+    });
+
+    it("parses empty output", () => {
+        assert.deepEqual(parseStandardError(""), {
+            warnings: [],
+            otherLines: []
+        });
+    });
+});
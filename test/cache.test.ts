@@ -0,0 +1,95 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Cache } from "../src/cache.js";
+
+describe("Cache", () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "pandoc-spec-cache-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, {
+            recursive: true,
+            force: true
+        });
+    });
+
+    it("creates its directory", () => {
+        const cacheDirectory = path.join(directory, "nested", "cache");
+
+        new Cache(cacheDirectory);
+
+        assert.ok(fs.statSync(cacheDirectory).isDirectory());
+    });
+
+    it("builds keys that depend on every component and its boundaries", () => {
+        assert.equal(Cache.key("a", "b"), Cache.key("a", "b"));
+        assert.notEqual(Cache.key("a", "b"), Cache.key("a", "c"));
+        assert.notEqual(Cache.key("ab", "c"), Cache.key("a", "bc"));
+        assert.equal(Cache.key("abc"), Cache.key(Buffer.from("abc")));
+    });
+
+    it("gets what was set and misses what wasn't", () => {
+        const cache = new Cache(directory);
+
+        cache.set("key", "data");
+
+        assert.equal(cache.get("key")?.toString(), "data");
+        assert.equal(cache.get("other"), undefined);
+    });
+
+    it("treats an entry deleted from outside as a miss", () => {
+        const cache = new Cache(directory);
+
+        cache.set("key", "data");
+        fs.rmSync(path.join(directory, "key"));
+
+        assert.equal(cache.get("key"), undefined);
+    });
+
+    it("prunes entries not used since the last prune", () => {
+        const cache = new Cache(directory);
+
+        cache.set("used", "data");
+        cache.set("unused", "data");
+        cache.prune();
+
+        assert.deepEqual(fs.readdirSync(directory).sort(), ["unused", "used"]);
+
+        cache.get("used");
+        cache.prune();
+
+        assert.deepEqual(fs.readdirSync(directory), ["used"]);
+    });
+
+    it("leaves subdirectories alone when pruning", () => {
+        const cache = new Cache(directory);
+        const projectCache = new Cache(path.join(directory, "project-0"));
+
+        projectCache.set("key", "data");
+        cache.prune();
+
+        assert.equal(projectCache.get("key")?.toString(), "data");
+    });
+});
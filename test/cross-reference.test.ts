@@ -0,0 +1,152 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { anchorOf, AnchorRegistry, buildAnchorIndex, readAnchorIndex, resolveReferences } from "../src/cross-reference.js";
+import { document, header, inlines, link, para, span } from "./document.js";
+
+const CORE_DOCUMENT = document([
+    header(1, "intro", "Introduction"),
+    para([span("term", "Term")]),
+    header(2, "scope", "Scope"),
+    header(1, "annex", "Annex", ["unnumbered"]),
+    header(1, "constructor", "Constructor"),
+    header(1, "__proto__", "Prototype"),
+    header(1, "intro", "Duplicate")
+], {
+    title: {
+        t: "MetaInlines",
+        c: inlines("Core Specification")
+    }
+});
+
+describe("buildAnchorIndex", () => {
+    it("indexes headings and other anchors with the number and title of their sections", () => {
+        const anchorIndex = buildAnchorIndex(CORE_DOCUMENT, "core", "index.html", true);
+
+        assert.equal(anchorIndex.name, "core");
+        assert.equal(anchorIndex.title, "Core Specification");
+        assert.equal(anchorIndex.href, "index.html");
+
+        assert.deepEqual(anchorOf(anchorIndex, "intro"), {
+            href: "index.html#intro",
+            number: "1",
+            title: "Introduction"
+        });
+
+        assert.deepEqual(anchorOf(anchorIndex, "term"), {
+            href: "index.html#term",
+            number: "1",
+            title: "Introduction"
+        });
+
+        assert.deepEqual(anchorOf(anchorIndex, "scope"), {
+            href: "index.html#scope",
+            number: "1.1",
+            title: "Scope"
+        });
+
+        assert.deepEqual(anchorOf(anchorIndex, "annex"), {
+            href: "index.html#annex",
+            title: "Annex"
+        });
+    });
+
+    it("omits section numbers if sections aren't numbered", () => {
+        assert.deepEqual(anchorOf(buildAnchorIndex(CORE_DOCUMENT, "core", "index.html", false), "scope"), {
+            href: "index.html#scope",
+            title: "Scope"
+        });
+    });
+
+    it("indexes identifiers that are also names of object properties as anchors", () => {
+        const anchorIndex = buildAnchorIndex(CORE_DOCUMENT, "core", "index.html", true);
+
+        assert.equal(anchorOf(anchorIndex, "constructor")?.title, "Constructor");
+        assert.equal(anchorOf(anchorIndex, "__proto__")?.title, "Prototype");
+        assert.equal(anchorOf(anchorIndex, "toString"), undefined);
+        assert.equal(Object.getPrototypeOf(anchorIndex.anchors), Object.prototype);
+    });
+});
+
+describe("readAnchorIndex", () => {
+    it("reads an anchor index as written", () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), "pandoc-spec-anchors-"));
+
+        try {
+            const indexFile = path.join(directory, "anchors.json");
+            const anchorIndex = buildAnchorIndex(CORE_DOCUMENT, "core", "index.html", true);
+
+            fs.writeFileSync(indexFile, JSON.stringify(anchorIndex));
+
+            const readIndex = readAnchorIndex(indexFile);
+
+            assert.deepEqual(readIndex, anchorIndex);
+            assert.equal(anchorOf(readIndex, "__proto__")?.title, "Prototype");
+
+            fs.writeFileSync(indexFile, JSON.stringify({
+                name: "core"
+            }));
+
+            assert.throws(() => readAnchorIndex(indexFile), {
+                message: `${indexFile} is not a valid anchor index`
+            });
+        } finally {
+            fs.rmSync(directory, {
+                recursive: true,
+                force: true
+            });
+        }
+    });
+});
+
+describe("resolveReferences", () => {
+    const registry = new AnchorRegistry();
+
+    registry.register(buildAnchorIndex(CORE_DOCUMENT, "core", "index.html", true), path.resolve("/site/core"));
+
+    const lookup = registry.get.bind(registry);
+
+    it("resolves references relative to the output directory, filling in empty link text", () => {
+        const resolvedDocument = resolveReferences(document([para([
+            link("spec:core#scope"),
+            link("spec:core", "the core"),
+            link("https://example.com/", "Example")
+        ])]), path.resolve("/site/annex"), lookup);
+
+        assert.deepEqual(resolvedDocument.blocks, [para([{
+            t: "Link",
+            c: [["", ["spec-reference"], []], inlines("§1.1 Scope"), ["../core/index.html#scope", "Core Specification"]]
+        }, {
+            t: "Link",
+            c: [["", ["spec-reference"], []], inlines("the core"), ["../core/index.html", "Core Specification"]]
+        }, link("https://example.com/", "Example")])]);
+    });
+
+    it("reports every unresolved reference once", () => {
+        assert.throws(() => resolveReferences(document([para([
+            link("spec:core#toString"),
+            link("spec:other#intro"),
+            link("spec:core#toString")
+        ])]), path.resolve("/site/annex"), lookup), {
+            message: "Unresolved cross-document references: spec:core#toString, spec:other#intro"
+        });
+    });
+});
@@ -0,0 +1,157 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import os from "node:os";
+import { describe, it } from "node:test";
+import type { Element } from "../src/ast.js";
+import { diagramTools, renderToolDiagrams } from "../src/diagram-tool.js";
+import type { DiagramTool } from "../src/options.js";
+import { codeBlock } from "./document.js";
+
+/**
+ * Script of a fake diagram tool. It writes its input as the text of an SVG image, except that input containing
+ * "status" exits with that status without output, and a line containing "ERROR" or "error" writes the rest of that
+ * line, with escaped newlines unescaped, to standard error and exits with status 1.
+ */
+const TOOL_SCRIPT = `
+let input = "";
+process.stdin.on("data", (chunk) => {
+    input += chunk;
+});
+process.stdin.on("end", () => {
+    const status = /status (\\d+)/.exec(input);
+    const error = /(ERROR|error).*/.exec(input);
+    if (status !== null) {
+        process.exit(Number(status[1]));
+    } else if (error !== null) {
+        process.stderr.write(error[0].replace(/\\\\n/g, "\\n"));
+        process.exit(1);
+    } else {
+        process.stdout.write("<svg>" + input + "</svg>");
+    }
+});
+`;
+
+/**
+ * Build a fake diagram tool for a language.
+ *
+ * @param language
+ * Language.
+ *
+ * @returns
+ * Diagram tool.
+ */
+function fakeTool(language: string): DiagramTool {
+    return {
+        language,
+        command: process.execPath,
+        args: ["-e", TOOL_SCRIPT]
+    };
+}
+
+/**
+ * Get the SVG of a rendered diagram.
+ *
+ * @param block
+ * Block replacing the diagram.
+ *
+ * @returns
+ * SVG.
+ */
+function renderedSVG(block: Element | undefined): string {
+    const url = JSON.stringify(block).match(/data:image\/svg\+xml;base64,([A-Za-z0-9+/=]*)/)?.[1];
+
+    assert.ok(url !== undefined);
+
+    return Buffer.from(url, "base64").toString();
+}
+
+describe("diagramTools", () => {
+    it("replaces default tools by configured tools for the same language", () => {
+        const tools = diagramTools([{
+            language: "dot",
+            command: "/opt/graphviz/bin/dot",
+            args: ["-Tsvg"]
+        }, {
+            language: "ditaa",
+            command: "ditaa"
+        }]);
+
+        assert.deepEqual(tools.map(tool => [tool.language, tool.command]), [["plantuml", "plantuml"], ["dot", "/opt/graphviz/bin/dot"], ["ditaa", "ditaa"]]);
+    });
+
+    it("has PlantUML and Graphviz by default", () => {
+        assert.deepEqual(diagramTools([]).map(tool => tool.language), ["plantuml", "dot"]);
+    });
+});
+
+describe("renderToolDiagrams", () => {
+    it("renders diagrams in order to embedded SVG images", async () => {
+        const blocks = await renderToolDiagrams([codeBlock(["dot"], "digraph { a }"), codeBlock(["dot"], "digraph { b }")], fakeTool("dot"), os.tmpdir(), () => {
+            assert.fail("No diagram should fail");
+        });
+
+        assert.deepEqual(blocks.map(renderedSVG), ["<svg>digraph { a }</svg>", "<svg>digraph { b }</svg>"]);
+    });
+
+    it("wraps PlantUML diagrams without start and end lines", async () => {
+        const blocks = await renderToolDiagrams([codeBlock(["plantuml"], "a -> b"), codeBlock(["plantuml"], "@startuml\na -> b\n@enduml")], fakeTool("plantuml"), os.tmpdir(), () => {
+            assert.fail("No diagram should fail");
+        });
+
+        assert.deepEqual(blocks.map(renderedSVG), ["<svg>@startuml\na -> b\n@enduml\n</svg>", "<svg>@startuml\na -> b\n@enduml</svg>"]);
+    });
+
+    it("reports failures with their lines and leaves them unrendered", async () => {
+        const errors: Array<[string, string, number | undefined]> = [];
+
+        const failingBlocks = [
+            codeBlock(["dot"], "syntax error in line 3"),
+            codeBlock(["dot"], "status 3")
+        ];
+
+        const blocks = await renderToolDiagrams(failingBlocks, fakeTool("dot"), os.tmpdir(), (element, message, line) => {
+            errors.push([element === failingBlocks[0] ? "first" : "second", message, line]);
+        });
+
+        assert.deepEqual(blocks, [undefined, undefined]);
+        assert.deepEqual(errors, [
+            ["first", "error in line 3", 3],
+            ["second", `${process.execPath} exited with status 3`, undefined]
+        ]);
+    });
+
+    it("maps PlantUML error lines to diagram lines", async () => {
+        const lines: Array<number | undefined> = [];
+
+        await renderToolDiagrams([codeBlock(["plantuml"], "ERROR\\n1\\nSyntax Error?"), codeBlock(["plantuml"], "@startuml\nERROR\\n1\\nSyntax Error?")], fakeTool("plantuml"), os.tmpdir(), (_element, message, line) => {
+            assert.equal(message, "Syntax Error?");
+            lines.push(line);
+        });
+
+        assert.deepEqual(lines, [1, 2]);
+    });
+
+    it("fails if the tool isn't installed", async () => {
+        await assert.rejects(renderToolDiagrams([codeBlock(["dot"], "digraph {}")], {
+            language: "dot",
+            command: "pandoc-spec-missing-tool"
+        }, os.tmpdir(), () => {
+            assert.fail("No diagram should fail");
+        }), /Diagram tool pandoc-spec-missing-tool for dot diagrams not found/);
+    });
+});
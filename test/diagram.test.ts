@@ -0,0 +1,158 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { codeBlockText, type Element } from "../src/ast.js";
+import { Cache } from "../src/cache.js";
+import { diagramBlock, type DiagramRenderer, locateDiagram, renderDiagrams } from "../src/diagram.js";
+import { attributes, codeBlock, document, inlines, para } from "./document.js";
+
+let directory: string;
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "pandoc-spec-diagram-"));
+});
+
+afterEach(() => {
+    fs.rmSync(directory, {
+        recursive: true,
+        force: true
+    });
+});
+
+/**
+ * Build a renderer that renders each diagram to a paragraph of its text and records what it was called with.
+ *
+ * @param calls
+ * Diagram texts of each call.
+ *
+ * @param failures
+ * Diagram texts that fail to render.
+ *
+ * @returns
+ * Renderer.
+ */
+function textRenderer(calls: string[][], failures: readonly string[] = []): DiagramRenderer {
+    return async (codeBlocks) => {
+        calls.push(codeBlocks.map(element => codeBlockText(element)));
+
+        return Promise.resolve(codeBlocks.map(element => !failures.includes(codeBlockText(element)) ? para(`Rendered ${codeBlockText(element)}`) : undefined));
+    };
+}
+
+describe("locateDiagram", () => {
+    it("finds the first occurrence of a diagram in the input files", () => {
+        fs.writeFileSync(path.join(directory, "Index.md"), "# Index\n");
+        fs.writeFileSync(path.join(directory, "Diagrams.md"), "# Diagrams\r\n\r\n```dot\r\ndigraph {\r\n  a -> b\r\n}\r\n```\r\n");
+
+        assert.deepEqual(locateDiagram("digraph {\n  a -> b\n}", ["Index.md", "Missing.md", "Diagrams.md"], directory), {
+            file: "Diagrams.md",
+            line: 4
+        });
+    });
+
+    it("doesn't find empty or absent diagrams", () => {
+        fs.writeFileSync(path.join(directory, "Index.md"), "# Index\n");
+
+        assert.equal(locateDiagram("", ["Index.md"], directory), undefined);
+        assert.equal(locateDiagram("graph TD", ["Index.md"], directory), undefined);
+    });
+});
+
+describe("diagramBlock", () => {
+    it("keeps the identifier, other classes, and attributes and uses the caption as alternative text", () => {
+        const element: Element = {
+            t: "CodeBlock",
+            c: [["flow", ["dot", "wide"], [["caption", "Data  flow"], ["width", "50%"]]], "digraph {}"]
+        };
+
+        assert.deepEqual(diagramBlock(element, "dot", "data:image/svg+xml;base64,"), para([{
+            t: "Image",
+            c: [["flow", ["wide"], [["width", "50%"]]], inlines("Data flow"), ["data:image/svg+xml;base64,", ""]]
+        }]));
+    });
+
+    it("has no alternative text without a caption", () => {
+        assert.deepEqual(diagramBlock(codeBlock(["dot"], "digraph {}"), "dot", "diagram.svg"), para([{
+            t: "Image",
+            c: [attributes(), [], ["diagram.svg", ""]]
+        }]));
+    });
+});
+
+describe("renderDiagrams", () => {
+    it("returns a document without diagrams as is", async () => {
+        const calls: string[][] = [];
+        const original = document([codeBlock(["js"], "code")]);
+
+        assert.equal(await renderDiagrams(original, "dot", undefined, [], textRenderer(calls)), original);
+        assert.deepEqual(calls, []);
+    });
+
+    it("renders each distinct diagram once, including nested ones, and leaves failures in place", async () => {
+        const calls: string[][] = [];
+
+        const rendered = await renderDiagrams(document([
+            codeBlock(["dot"], "a"),
+            {
+                t: "Div",
+                c: [attributes(), [codeBlock(["dot"], "b"), codeBlock(["dot"], "a")]]
+            },
+            codeBlock(["dot"], "bad"),
+            codeBlock(["mermaid"], "a")
+        ]), "dot", undefined, [], textRenderer(calls, ["bad"]));
+
+        assert.deepEqual(calls, [["a", "b", "bad"]]);
+        assert.deepEqual(rendered, document([
+            para("Rendered a"),
+            {
+                t: "Div",
+                c: [attributes(), [para("Rendered b"), para("Rendered a")]]
+            },
+            codeBlock(["dot"], "bad"),
+            codeBlock(["mermaid"], "a")
+        ]));
+    });
+
+    it("reuses cached renderings and renders failures and changed options again", async () => {
+        const original = document([codeBlock(["dot"], "a"), codeBlock(["dot"], "bad")]);
+
+        const firstCalls: string[][] = [];
+
+        await renderDiagrams(original, "dot", new Cache(directory), ["svg"], textRenderer(firstCalls, ["bad"]));
+
+        const secondCalls: string[][] = [];
+
+        const rendered = await renderDiagrams(original, "dot", new Cache(directory), ["svg"], textRenderer(secondCalls));
+
+        const thirdCalls: string[][] = [];
+
+        await renderDiagrams(original, "dot", new Cache(directory), ["png"], textRenderer(thirdCalls));
+
+        assert.deepEqual(firstCalls, [["a", "bad"]]);
+        assert.deepEqual(secondCalls, [["bad"]]);
+        assert.deepEqual(thirdCalls, [["a", "bad"]]);
+        assert.deepEqual(rendered, document([para("Rendered a"), para("Rendered bad")]));
+    });
+
+    it("fails if the renderer doesn't return a block for each diagram", async () => {
+        await assert.rejects(renderDiagrams(document([codeBlock(["dot"], "a")]), "dot", undefined, [], async () => Promise.resolve([])), /Diagram renderer returned 0 blocks for 1 dot diagrams/);
+    });
+});
@@ -0,0 +1,244 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Element } from "../src/ast.js";
+import { diffDocuments } from "../src/diff.js";
+import { attributes, document, header, inlines, para, span } from "./document.js";
+
+/**
+ * Build a string element.
+ *
+ * @param text
+ * Text.
+ *
+ * @returns
+ * String element.
+ */
+function str(text: string): Element {
+    return {
+        t: "Str",
+        c: text
+    };
+}
+
+/**
+ * Build a span with a class around inline elements.
+ *
+ * @param className
+ * Class name.
+ *
+ * @param content
+ * Inline elements.
+ *
+ * @returns
+ * Span.
+ */
+function classSpan(className: string, content: Element[]): Element {
+    return {
+        t: "Span",
+        c: [attributes("", [className]), content]
+    };
+}
+
+/**
+ * Build a div.
+ *
+ * @param classes
+ * Classes.
+ *
+ * @param blocks
+ * Blocks.
+ *
+ * @returns
+ * Div.
+ */
+function div(classes: string[], blocks: Element[]): Element {
+    return {
+        t: "Div",
+        c: [attributes("", classes), blocks]
+    };
+}
+
+/**
+ * Build the summary of changed sections.
+ *
+ * @param items
+ * Items, each a link to a section or a plain inline element, or undefined if there are no changes.
+ *
+ * @returns
+ * Summary div.
+ */
+function summary(items: Element[] | undefined): Element {
+    return div(["diff-summary"], [para([{
+        t: "Strong",
+        c: [str("Changes from v1.0")]
+    }]), items !== undefined ?
+        {
+            t: "BulletList",
+            c: items.map(item => [{
+                t: "Plain",
+                c: [item]
+            }])
+        } :
+        para([str("No changes.")])]);
+}
+
+/**
+ * Build a link to a section in the summary.
+ *
+ * @param id
+ * Section identifier.
+ *
+ * @param title
+ * Title, including the section number.
+ *
+ * @returns
+ * Link.
+ */
+function sectionLink(id: string, title: string): Element {
+    return {
+        t: "Link",
+        c: [attributes(), [str(title)], [`#${id}`, ""]]
+    };
+}
+
+describe("diffDocuments", () => {
+    it("reports no changes for identical documents and keeps the new metadata", () => {
+        const blocks = [header(1, "intro", "Introduction"), para("Text")];
+
+        const diff = diffDocuments(document(blocks, {
+            title: {
+                t: "MetaInlines",
+                c: inlines("Old")
+            }
+        }), document(blocks, {
+            title: {
+                t: "MetaInlines",
+                c: inlines("New")
+            }
+        }), "v1.0");
+
+        assert.deepEqual(diff, document([summary(undefined), ...blocks], {
+            title: {
+                t: "MetaInlines",
+                c: inlines("New")
+            }
+        }));
+    });
+
+    it("marks changed words in paragraphs and headings", () => {
+        const diff = diffDocuments(document([
+            header(1, "intro", "Introduction"),
+            para("The quick fox"),
+            header(1, "scope", "Old scope")
+        ]), document([
+            header(1, "intro", "Introduction"),
+            para("The slow fox"),
+            header(1, "scope", "New scope")
+        ]), "v1.0");
+
+        assert.deepEqual(diff.blocks, [
+            summary([sectionLink("intro", "1 Introduction"), sectionLink("scope", "2 New scope")]),
+            header(1, "intro", "Introduction"),
+            para([str("The"), {
+                t: "Space"
+            }, classSpan("diff-deleted", [str("quick")]), classSpan("diff-inserted", [str("slow")]), {
+                t: "Space"
+            }, str("fox")]),
+            {
+                t: "Header",
+                c: [1, attributes("scope"), [classSpan("diff-deleted", [str("Old")]), classSpan("diff-inserted", [str("New")]), {
+                    t: "Space"
+                }, str("scope")]]
+            }
+        ]);
+    });
+
+    it("wraps inserted and deleted blocks and keeps deleted sections together", () => {
+        const diff = diffDocuments(document([
+            header(1, "intro", "Introduction"),
+            para("Kept"),
+            header(1, "old", "Old section"),
+            para("Gone")
+        ]), document([
+            header(1, "intro", "Introduction"),
+            para("Kept"),
+            header(2, "new", "New section"),
+            {
+                t: "BulletList",
+                c: [[para("Added")]]
+            }
+        ]), "v1.0");
+
+        assert.deepEqual(diff.blocks, [
+            summary([classSpan("diff-deleted", [str("Old section")]), sectionLink("new", "1.1 New section")]),
+            header(1, "intro", "Introduction"),
+            para("Kept"),
+            {
+                t: "Header",
+                c: [1, attributes("", ["diff-deleted", "unnumbered", "unlisted"]), [classSpan("diff-deleted", inlines("Old section"))]]
+            },
+            div(["diff-deleted"], [para("Gone")]),
+            header(2, "new", "New section", ["diff-inserted"]),
+            div(["diff-inserted"], [{
+                t: "BulletList",
+                c: [[para("Added")]]
+            }])
+        ]);
+    });
+
+    it("removes identifiers from deleted content", () => {
+        const diff = diffDocuments(document([
+            para([span("term", "Term")]),
+            {
+                t: "BlockQuote",
+                c: [para([span("quote", "Quote")])]
+            }
+        ]), document([
+            para([span("other", "Other")])
+        ]), "v1.0");
+
+        assert.deepEqual(diff.blocks.slice(1), [
+            para([classSpan("diff-deleted", [span("", "Term")]), classSpan("diff-inserted", [span("other", "Other")])]),
+            div(["diff-deleted"], [{
+                t: "BlockQuote",
+                c: [para([span("", "Quote")])]
+            }])
+        ]);
+    });
+
+    it("lists changes before the first heading and doesn't compare headings of different levels", () => {
+        const diff = diffDocuments(document([
+            para("Preface"),
+            header(1, "intro", "Introduction")
+        ]), document([
+            para("Foreword"),
+            header(2, "intro", "Introduction")
+        ]), "v1.0");
+
+        assert.deepEqual(diff.blocks, [
+            summary([str("Content before the first section"), classSpan("diff-deleted", [str("Introduction")]), sectionLink("intro", "0.1 Introduction")]),
+            para([classSpan("diff-deleted", [str("Preface")]), classSpan("diff-inserted", [str("Foreword")])]),
+            {
+                t: "Header",
+                c: [1, attributes("", ["diff-deleted", "unnumbered", "unlisted"]), [classSpan("diff-deleted", [str("Introduction")])]]
+            },
+            header(2, "intro", "Introduction", ["diff-inserted"])
+        ]);
+    });
+});
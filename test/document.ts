@@ -0,0 +1,177 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Attributes, Document, Element } from "../src/ast.js";
+
+/**
+ * Build a document.
+ *
+ * @param blocks
+ * Blocks.
+ *
+ * @param meta
+ * Metadata.
+ *
+ * @returns
+ * Document.
+ */
+export function document(blocks: Element[], meta: Record<string, Element> = {}): Document {
+    return {
+        "pandoc-api-version": [1, 23, 1],
+        meta,
+        blocks
+    };
+}
+
+/**
+ * Build inline elements from plain text, with words separated by spaces.
+ *
+ * @param text
+ * Plain text.
+ *
+ * @returns
+ * Inline elements.
+ */
+export function inlines(text: string): Element[] {
+    return text.split(" ").flatMap((word, index) => [...index !== 0 ?
+        [{
+            t: "Space"
+        }] :
+        [], {
+        t: "Str",
+        c: word
+    }]);
+}
+
+/**
+ * Build attributes.
+ *
+ * @param id
+ * Identifier.
+ *
+ * @param classes
+ * Classes.
+ *
+ * @returns
+ * Attributes.
+ */
+export function attributes(id = "", classes: string[] = []): Attributes {
+    return [id, classes, []];
+}
+
+/**
+ * Build a heading.
+ *
+ * @param level
+ * Level.
+ *
+ * @param id
+ * Identifier.
+ *
+ * @param text
+ * Plain text.
+ *
+ * @param classes
+ * Classes.
+ *
+ * @returns
+ * Heading.
+ */
+export function header(level: number, id: string, text: string, classes: string[] = []): Element {
+    return {
+        t: "Header",
+        c: [level, attributes(id, classes), inlines(text)]
+    };
+}
+
+/**
+ * Build a paragraph.
+ *
+ * @param content
+ * Plain text or inline elements.
+ *
+ * @returns
+ * Paragraph.
+ */
+export function para(content: string | Element[]): Element {
+    return {
+        t: "Para",
+        c: typeof content === "string" ? inlines(content) : content
+    };
+}
+
+/**
+ * Build a link.
+ *
+ * @param url
+ * URL.
+ *
+ * @param text
+ * Plain text.
+ *
+ * @param id
+ * Identifier.
+ *
+ * @returns
+ * Link.
+ */
+export function link(url: string, text = "", id = ""): Element {
+    return {
+        t: "Link",
+        c: [attributes(id), text !== "" ? inlines(text) : [], [url, ""]]
+    };
+}
+
+/**
+ * Build a span.
+ *
+ * @param id
+ * Identifier.
+ *
+ * @param text
+ * Plain text.
+ *
+ * @param classes
+ * Classes.
+ *
+ * @returns
+ * Span.
+ */
+export function span(id: string, text: string, classes: string[] = []): Element {
+    return {
+        t: "Span",
+        c: [attributes(id, classes), inlines(text)]
+    };
+}
+
+/**
+ * Build a code block.
+ *
+ * @param classes
+ * Classes.
+ *
+ * @param text
+ * Text.
+ *
+ * @returns
+ * Code block.
+ */
+export function codeBlock(classes: string[], text: string): Element {
+    return {
+        t: "CodeBlock",
+        c: [attributes("", classes), text]
+    };
+}
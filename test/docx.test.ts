@@ -0,0 +1,85 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Element } from "../src/ast.js";
+import { applyWordStyles } from "../src/docx.js";
+import { document, inlines, para, span } from "./document.js";
+
+/**
+ * Build a div.
+ *
+ * @param classes
+ * Classes.
+ *
+ * @param blocks
+ * Blocks.
+ *
+ * @param keyValuePairs
+ * Key-value pairs.
+ *
+ * @returns
+ * Div.
+ */
+function div(classes: string[], blocks: Element[], keyValuePairs: Array<[string, string]> = []): Element {
+    return {
+        t: "Div",
+        c: [["", classes, keyValuePairs], blocks]
+    };
+}
+
+describe("applyWordStyles", () => {
+    it("gives divs and spans with a class matching a style the custom style of that style", () => {
+        const styledDocument = applyWordStyles(document([
+            div(["note"], [para([span("", "Important", ["term"])])]),
+            div(["other"], [para("Unstyled")])
+        ]), [{
+            name: "note",
+            className: "  Note   Text "
+        }, {
+            name: "term",
+            className: "Term"
+        }]);
+
+        assert.deepEqual(styledDocument.blocks, [
+            div(["note"], [para([{
+                t: "Span",
+                c: [["", ["term"], [["custom-style", "Term"]]], inlines("Important")]
+            }])], [["custom-style", "Note Text"]]),
+            div(["other"], [para("Unstyled")])
+        ]);
+    });
+
+    it("leaves an existing custom style in place", () => {
+        const block = div(["note"], [para("Styled")], [["custom-style", "Existing"]]);
+
+        assert.deepEqual(applyWordStyles(document([block]), [{
+            name: "note",
+            className: "Note"
+        }]).blocks, [block]);
+    });
+
+    it("gives the document content the style of the innermost content component", () => {
+        assert.deepEqual(applyWordStyles(document([para("Text")]), [{
+            name: "container",
+            className: "Container"
+        }, {
+            name: "body",
+            className: "Body"
+        }]).blocks, [div([], [para("Text")], [["custom-style", "Body"]])]);
+    });
+});
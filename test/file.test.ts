@@ -0,0 +1,77 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { copyFiles, workingPath } from "../src/file.js";
+
+let directory: string;
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "pandoc-spec-file-"));
+});
+
+afterEach(() => {
+    fs.rmSync(directory, {
+        recursive: true,
+        force: true
+    });
+});
+
+describe("workingPath", () => {
+    it("resolves against the working directory given", () => {
+        assert.equal(workingPath("images/logo.png", directory), path.join(directory, "images", "logo.png"));
+        assert.equal(workingPath(undefined, directory), undefined);
+    });
+
+    it("resolves against the current working directory by default", () => {
+        assert.equal(workingPath("index.css"), path.join(process.cwd(), "index.css"));
+    });
+});
+
+describe("copyFiles", () => {
+    it("copies files matched in the source directory, keeping their relative paths", () => {
+        const fromDirectory = path.join(directory, "input");
+        const toDirectory = path.join(directory, "output");
+
+        fs.mkdirSync(path.join(fromDirectory, "images"), {
+            recursive: true
+        });
+
+        fs.writeFileSync(path.join(fromDirectory, "images", "logo.png"), "PNG");
+        fs.writeFileSync(path.join(fromDirectory, "index.css"), "CSS");
+        fs.writeFileSync(path.join(fromDirectory, "Index.md"), "# Index");
+
+        const destinationFiles = copyFiles(["images/*.png", "*.css"], fromDirectory, toDirectory);
+
+        assert.deepEqual(destinationFiles.sort(), [path.join(toDirectory, "images", "logo.png"), path.join(toDirectory, "index.css")]);
+        assert.equal(fs.readFileSync(path.join(toDirectory, "images", "logo.png"), {
+            encoding: "utf-8"
+        }), "PNG");
+        assert.equal(fs.existsSync(path.join(toDirectory, "Index.md")), false);
+    });
+
+    it("refuses to copy a file to itself", () => {
+        fs.writeFileSync(path.join(directory, "index.css"), "CSS");
+
+        assert.throws(() => copyFiles(["index.css"], directory, directory), {
+            message: "File index.css cannot be copied to itself."
+        });
+    });
+});
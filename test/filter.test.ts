@@ -0,0 +1,167 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import type { Document } from "../src/ast.js";
+import { type FilterContext, loadModuleFilter, type ModuleFilter, resolveModuleFilter, runModuleFilters } from "../src/filter.js";
+import { document, para } from "./document.js";
+
+const CONTEXT: FilterContext = {
+    outputFormat: "html",
+    inputDirectory: "/input"
+};
+
+let directory: string;
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "pandoc-spec-filter-"));
+});
+
+afterEach(() => {
+    fs.rmSync(directory, {
+        recursive: true,
+        force: true
+    });
+});
+
+/**
+ * Write files to the test directory.
+ *
+ * @param files
+ * File content by path relative to the test directory.
+ */
+function writeFiles(files: Record<string, string>): void {
+    for (const [file, content] of Object.entries(files)) {
+        const absoluteFile = path.join(directory, file);
+
+        fs.mkdirSync(path.dirname(absoluteFile), {
+            recursive: true
+        });
+
+        fs.writeFileSync(absoluteFile, content);
+    }
+}
+
+/**
+ * Build a module filter that appends a paragraph.
+ *
+ * @param text
+ * Paragraph text.
+ *
+ * @returns
+ * Module filter.
+ */
+function appendFilter(text: string): ModuleFilter {
+    return {
+        path: text,
+        filter: (filterDocument, context) => ({
+            ...filterDocument,
+            blocks: [...filterDocument.blocks, para(`${text} ${context.outputFormat}`)]
+        })
+    };
+}
+
+describe("resolveModuleFilter", () => {
+    it("resolves module paths from the starting directory", () => {
+        writeFiles({
+            "filters/filter.mjs": ""
+        });
+
+        assert.equal(resolveModuleFilter("./filters/filter.mjs", directory), path.join(directory, "filters/filter.mjs"));
+        assert.equal(resolveModuleFilter(path.join(directory, "filters/filter.mjs"), "/"), path.join(directory, "filters/filter.mjs"));
+        assert.throws(() => resolveModuleFilter("./filters/missing.mjs", directory), /Module filter \.\/filters\/missing\.mjs not found/);
+    });
+
+    it("resolves package specifiers from the starting directory", () => {
+        writeFiles({
+            "node_modules/spec-filter/package.json": JSON.stringify({
+                name: "spec-filter",
+                main: "index.mjs"
+            }),
+            "node_modules/spec-filter/index.mjs": ""
+        });
+
+        assert.equal(fs.realpathSync(resolveModuleFilter("spec-filter", directory)), fs.realpathSync(path.join(directory, "node_modules/spec-filter/index.mjs")));
+        assert.throws(() => resolveModuleFilter("missing-filter", directory), /Module filter package missing-filter not found/);
+    });
+});
+
+describe("loadModuleFilter", () => {
+    it("loads the default or \"filter\" export", async () => {
+        writeFiles({
+            "default.mjs": "export default (document) => ({...document, blocks: []});\n",
+            "named.mjs": "export const filter = (document) => ({...document, blocks: []});\n",
+            "common.cjs": "exports.filter = (document) => ({...document, blocks: []});\n"
+        });
+
+        for (const specifier of ["./default.mjs", "./named.mjs", "./common.cjs"]) {
+            const moduleFilter = await loadModuleFilter(specifier, directory);
+
+            assert.equal(moduleFilter.path, specifier);
+            assert.deepEqual(await moduleFilter.filter(document([para("Text")]), CONTEXT), document([]));
+        }
+    });
+
+    it("fails if the module doesn't export a filter function", async () => {
+        writeFiles({
+            "none.mjs": "export const other = () => undefined;\n"
+        });
+
+        await assert.rejects(loadModuleFilter("./none.mjs", directory), /Module filter \.\/none\.mjs doesn't export a filter function/);
+    });
+
+    it("loads the module again after it changes", async () => {
+        writeFiles({
+            "filter.mjs": "export default (document) => ({...document, blocks: []});\n"
+        });
+
+        const first = await loadModuleFilter("./filter.mjs", directory);
+
+        writeFiles({
+            "filter.mjs": "export default (document) => document;\n"
+        });
+
+        // Modification time is set explicitly, as it may not change within the file system's resolution.
+        const modified = new Date(Date.now() + 10000);
+
+        fs.utimesSync(path.join(directory, "filter.mjs"), modified, modified);
+
+        const second = await loadModuleFilter("./filter.mjs", directory);
+
+        const original = document([para("Text")]);
+
+        assert.deepEqual(await first.filter(original, CONTEXT), document([]));
+        assert.equal(await second.filter(original, CONTEXT), original);
+    });
+});
+
+describe("runModuleFilters", () => {
+    it("runs module filters in order with the context", async () => {
+        assert.deepEqual(await runModuleFilters(document([]), [appendFilter("First"), appendFilter("Second")], CONTEXT), document([para("First html"), para("Second html")]));
+    });
+
+    it("fails if a module filter doesn't return a document", async () => {
+        await assert.rejects(runModuleFilters(document([]), [{
+            path: "./broken.mjs",
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Filter is deliberately broken.
+            filter: async () => await Promise.resolve(undefined as unknown as Document)
+        }], CONTEXT), /Module filter \.\/broken\.mjs didn't return a document/);
+    });
+});
@@ -0,0 +1,204 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import child_process from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { gitMetadata, withRevision } from "../src/git.js";
+
+let directory: string;
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "pandoc-spec-git-"));
+});
+
+afterEach(() => {
+    fs.rmSync(directory, {
+        recursive: true,
+        force: true
+    });
+});
+
+/**
+ * Run a git command in the test directory.
+ *
+ * @param args
+ * Arguments.
+ *
+ * @param date
+ * Author and committer date.
+ */
+function git(args: readonly string[], date = "2025-01-02T12:00:00Z"): void {
+    child_process.execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", "-c", "init.defaultBranch=main", "-c", "tag.gpgSign=false", "-c", "commit.gpgSign=false", ...args], {
+        cwd: directory,
+        env: {
+            ...process.env,
+            GIT_AUTHOR_DATE: date,
+            GIT_COMMITTER_DATE: date
+        },
+        stdio: "ignore"
+    });
+}
+
+describe("gitMetadata", () => {
+    it("returns undefined outside a git checkout", async () => {
+        assert.equal(await gitMetadata(directory, []), undefined);
+    });
+
+    it("returns undefined in a git checkout without commits", async () => {
+        git(["init"]);
+
+        assert.equal(await gitMetadata(directory, []), undefined);
+    });
+
+    it("describes the commit, tag, branch, state, and file dates", async () => {
+        git(["init"]);
+
+        fs.writeFileSync(path.join(directory, "Index.md"), "# Index\n");
+        git(["add", "Index.md"]);
+        git(["commit", "-m", "First"]);
+        git(["tag", "v1.0"]);
+
+        fs.writeFileSync(path.join(directory, "Other.md"), "# Other\n");
+        git(["add", "Other.md"]);
+        git(["commit", "-m", "Second"], "2025-02-03T12:00:00Z");
+
+        const metadata = await gitMetadata(directory, ["Index.md", "Other.md", "New.md"]);
+
+        assert.ok(metadata !== undefined);
+        assert.match(metadata.commit, /^[0-9a-f]{40}$/);
+        assert.ok(metadata.commit.startsWith(metadata["short-commit"]));
+        assert.equal(metadata.date, "2025-02-03");
+        assert.equal(metadata.tag, "v1.0");
+        assert.equal(metadata.branch, "main");
+        assert.equal(metadata.dirty, false);
+        assert.deepEqual(metadata.files, [{
+            path: "Index.md",
+            date: "2025-01-02"
+        }, {
+            path: "Other.md",
+            date: "2025-02-03"
+        }, {
+            path: "New.md",
+            date: undefined
+        }]);
+    });
+
+    it("is dirty with uncommitted changes to tracked files only", async () => {
+        git(["init"]);
+
+        fs.writeFileSync(path.join(directory, "Index.md"), "# Index\n");
+        git(["add", "Index.md"]);
+        git(["commit", "-m", "First"]);
+
+        fs.writeFileSync(path.join(directory, "index.html"), "<html></html>");
+
+        assert.equal((await gitMetadata(directory, []))?.dirty, false);
+
+        fs.writeFileSync(path.join(directory, "Index.md"), "# Changed\n");
+
+        assert.equal((await gitMetadata(directory, []))?.dirty, true);
+    });
+
+    it("has no tag or branch when none applies", async () => {
+        git(["init"]);
+
+        fs.writeFileSync(path.join(directory, "Index.md"), "# Index\n");
+        git(["add", "Index.md"]);
+        git(["commit", "-m", "First"]);
+        git(["checkout", "--detach"]);
+
+        const metadata = await gitMetadata(directory, []);
+
+        assert.ok(metadata !== undefined);
+        assert.equal(metadata.tag, undefined);
+        assert.equal(metadata.branch, undefined);
+    });
+});
+
+describe("withRevision", () => {
+    it("fails outside a git checkout", async () => {
+        await assert.rejects(withRevision(directory, "HEAD", async () => {
+            await Promise.resolve();
+        }), /is not in a git checkout/);
+    });
+
+    it("fails for a ref that doesn't exist", async () => {
+        git(["init"]);
+
+        fs.writeFileSync(path.join(directory, "Index.md"), "# Index\n");
+        git(["add", "Index.md"]);
+        git(["commit", "-m", "First"]);
+
+        await assert.rejects(withRevision(directory, "v9.9", async () => {
+            await Promise.resolve();
+        }), /Git ref v9\.9 not found/);
+    });
+
+    it("checks out the revision at the same relative directory and removes it afterward", async () => {
+        git(["init"]);
+
+        fs.mkdirSync(path.join(directory, "docs"));
+        fs.writeFileSync(path.join(directory, "docs/Index.md"), "# First\n");
+        git(["add", "docs/Index.md"]);
+        git(["commit", "-m", "First"]);
+        git(["tag", "v1.0"]);
+
+        fs.writeFileSync(path.join(directory, "docs/Index.md"), "# Second\n");
+        git(["commit", "-am", "Second"]);
+
+        let revisionDirectory = "";
+
+        const content = await withRevision(path.join(directory, "docs"), "v1.0", async (callbackDirectory) => {
+            revisionDirectory = callbackDirectory;
+
+            return fs.promises.readFile(path.join(callbackDirectory, "Index.md"), "utf-8");
+        });
+
+        assert.equal(content, "# First\n");
+        assert.equal(path.basename(revisionDirectory), "docs");
+        assert.ok(!fs.existsSync(revisionDirectory));
+        assert.equal(fs.readFileSync(path.join(directory, "docs/Index.md"), "utf-8"), "# Second\n");
+        assert.equal(child_process.execFileSync("git", ["worktree", "list"], {
+            cwd: directory,
+            encoding: "utf-8"
+        }).trim().split("\n").length, 1);
+    });
+
+    it("removes the revision when the callback fails", async () => {
+        git(["init"]);
+
+        fs.writeFileSync(path.join(directory, "Index.md"), "# Index\n");
+        git(["add", "Index.md"]);
+        git(["commit", "-m", "First"]);
+
+        let revisionDirectory = "";
+
+        await assert.rejects(withRevision(directory, "HEAD", async (callbackDirectory) => {
+            revisionDirectory = callbackDirectory;
+
+            await Promise.resolve();
+
+            throw new Error("Callback failed");
+        }), /Callback failed/);
+
+        assert.notEqual(revisionDirectory, "");
+        assert.ok(!fs.existsSync(revisionDirectory));
+    });
+});
@@ -0,0 +1,163 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { compareNatural, includedFiles, resolveInputFiles } from "../src/input-files.js";
+
+let directory: string;
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "pandoc-spec-input-files-"));
+});
+
+afterEach(() => {
+    fs.rmSync(directory, {
+        recursive: true,
+        force: true
+    });
+});
+
+/**
+ * Write files to the test directory.
+ *
+ * @param files
+ * File content by path relative to the test directory.
+ */
+function writeFiles(files: Record<string, string>): void {
+    for (const [file, content] of Object.entries(files)) {
+        const absoluteFile = path.join(directory, file);
+
+        fs.mkdirSync(path.dirname(absoluteFile), {
+            recursive: true
+        });
+
+        fs.writeFileSync(absoluteFile, content);
+    }
+}
+
+describe("includedFiles", () => {
+    it("finds files listed in include blocks and named by include attributes", () => {
+        writeFiles({
+            "Index.md": "# Index\n\n```include\n// Comment\nchapters/One.md\nMissing.md\n```\n\n```{.json include=\"example.json\"}\n```\n",
+            "chapters/One.md": "# One\n",
+            "example.json": "{}"
+        });
+
+        assert.deepEqual(includedFiles(["Index.md"], directory), [
+            path.join(directory, "chapters/One.md"),
+            path.join(directory, "example.json")
+        ]);
+    });
+
+    it("searches included Markdown files relative to their own directory", () => {
+        writeFiles({
+            "Index.md": "~~~ {.include}\nchapters/One.md\n~~~\n",
+            "chapters/One.md": "```include\nTwo.md\n```\n",
+            "chapters/Two.md": "```include\nchapters/One.md\n```\n"
+        });
+
+        assert.deepEqual(includedFiles(["Index.md"], directory), [
+            path.join(directory, "chapters/One.md"),
+            path.join(directory, "chapters/Two.md")
+        ]);
+    });
+
+    it("ignores other code blocks", () => {
+        writeFiles({
+            "Index.md": "```text\nOther.md\n```\n\n    ```include\n    Other.md\n    ```\n",
+            "Other.md": "# Other\n"
+        });
+
+        assert.deepEqual(includedFiles(["Index.md"], directory), []);
+    });
+});
+
+describe("compareNatural", () => {
+    it("compares digit sequences by value and letters without regard to case", () => {
+        assert.deepEqual(["10-annex.md", "b.md", "02-scope.md", "A.md", "a.md"].sort(compareNatural), ["02-scope.md", "10-annex.md", "A.md", "a.md", "b.md"]);
+    });
+});
+
+describe("resolveInputFiles", () => {
+    it("keeps entries that aren't glob patterns in place", () => {
+        assert.deepEqual(resolveInputFiles(["Index.md", "Missing.md"], directory), {
+            inputFiles: ["Index.md", "Missing.md"],
+            warnings: []
+        });
+    });
+
+    it("orders files matched by a glob pattern by manifest, then front matter, then natural order", () => {
+        writeFiles({
+            "chapters/10-annex.md": "# Annex\n",
+            "chapters/02-scope.md": "# Scope\n",
+            "chapters/intro.md": "---\ntitle: Introduction\norder: 1\n---\n# Introduction\n",
+            "chapters/terms.md": "---\norder: 2\n...\n# Terms\n",
+            "chapters/summary.md": "# Summary\n",
+            "order.txt": "# Manifest\n\nchapters/summary.md\nchapters/removed.md\n"
+        });
+
+        assert.deepEqual(resolveInputFiles(["chapters/*.md"], directory, {
+            orderFile: "order.txt"
+        }), {
+            inputFiles: ["chapters/summary.md", "chapters/intro.md", "chapters/terms.md", "chapters/02-scope.md", "chapters/10-annex.md"],
+            warnings: ["File chapters/removed.md in input order file is not an input file"]
+        });
+    });
+
+    it("reads a file matched by more than one entry once, at its first position", () => {
+        writeFiles({
+            "chapters/a.md": "# A\n",
+            "chapters/b.md": "# B\n"
+        });
+
+        assert.deepEqual(resolveInputFiles(["chapters/b.md", "chapters/*.md"], directory).inputFiles, ["chapters/b.md", "chapters/a.md"]);
+    });
+
+    it("excludes files matching exclude patterns", () => {
+        writeFiles({
+            "chapters/a.md": "# A\n",
+            "chapters/includes/part.md": "# Part\n"
+        });
+
+        assert.deepEqual(resolveInputFiles(["chapters/**/*.md"], directory, {
+            excludePatterns: ["chapters/includes/**"]
+        }), {
+            inputFiles: ["chapters/a.md"],
+            warnings: []
+        });
+    });
+
+    it("warns about patterns matching no files", () => {
+        assert.deepEqual(resolveInputFiles(["chapters/*.md"], directory).warnings, ["Input file pattern chapters/*.md matches no files"]);
+    });
+
+    it("warns about unmatched Markdown files only alongside files matched by glob patterns", () => {
+        writeFiles({
+            "README.md": "# Read Me\n",
+            "Index.md": "# Index\n",
+            "chapters/a.md": "# A\n",
+            "chapters/draft.md": "# Draft\n",
+            "chapters/notes/b.md": "# B\n"
+        });
+
+        assert.deepEqual(resolveInputFiles(["Index.md", "chapters/a.md"], directory).warnings, []);
+        assert.deepEqual(resolveInputFiles(["Index.md", "chapters/a*.md"], directory).warnings, ["Markdown file chapters/draft.md is not matched by any input file entry"]);
+    });
+});
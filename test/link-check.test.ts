@@ -0,0 +1,101 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { checkLinks } from "../src/link-check.js";
+
+let directory: string;
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "pandoc-spec-link-check-"));
+});
+
+afterEach(() => {
+    fs.rmSync(directory, {
+        recursive: true,
+        force: true
+    });
+});
+
+/**
+ * Write HTML files to the test directory.
+ *
+ * @param files
+ * Body content by path relative to the test directory.
+ *
+ * @returns
+ * Absolute paths of the HTML files.
+ */
+function writeHTMLFiles(files: Record<string, string>): string[] {
+    return Object.entries(files).map(([file, body]) => {
+        const htmlFile = path.join(directory, file);
+
+        fs.mkdirSync(path.dirname(htmlFile), {
+            recursive: true
+        });
+
+        fs.writeFileSync(htmlFile, `<!DOCTYPE html>\n<html><body>${body}</body></html>\n`);
+
+        return htmlFile;
+    });
+}
+
+describe("checkLinks", () => {
+    it("accepts links to existing targets and fragments", () => {
+        fs.writeFileSync(path.join(directory, "logo.png"), "PNG");
+
+        const htmlFiles = writeHTMLFiles({
+            "index.html": "<h1 id=\"intro\">Intro</h1><a href=\"#intro\">Intro</a><a href=\"pages/one.html#first%20term\">One</a><img src=\"/logo.png\"><a href=\"pages/\">Pages</a><a href=\"https://example.com/#missing\">Example</a><a href=\"mailto:someone@example.com\">Mail</a>",
+            "pages/one.html": "<a name=\"first term\"></a><a href=\"../index.html?view=full#intro\">Back</a>",
+            "pages/index.html": "<p>Pages</p>"
+        });
+
+        assert.deepEqual(checkLinks(directory, htmlFiles), []);
+    });
+
+    it("reports missing targets, dangling fragments, and duplicate ids", () => {
+        const htmlFiles = writeHTMLFiles({
+            "index.html": "<h1 id=\"intro\">Intro</h1><p id=\"intro\">Again</p><a href=\"#scope\">Scope</a><a href=\"#scope\">Scope again</a><a href=\"missing.html\">Missing</a><a href=\"other.html#intro\">Other</a>",
+            "other.html": "<p>Other</p>"
+        });
+
+        assert.deepEqual(checkLinks(directory, htmlFiles), [{
+            file: "index.html",
+            message: "Duplicate id \"intro\""
+        }, {
+            file: "index.html",
+            message: "Dangling fragment link \"#scope\""
+        }, {
+            file: "index.html",
+            message: "Missing target \"missing.html\""
+        }, {
+            file: "index.html",
+            message: "Dangling fragment link \"other.html#intro\""
+        }]);
+    });
+
+    it("ignores elements named after object properties", () => {
+        const htmlFiles = writeHTMLFiles({
+            "index.html": "<constructor href=\"missing.html\"></constructor>"
+        });
+
+        assert.deepEqual(checkLinks(directory, htmlFiles), []);
+    });
+});
@@ -0,0 +1,91 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import puppeteer, { type LaunchOptions } from "puppeteer";
+import { mermaidError, renderMermaidDiagrams } from "../src/mermaid.js";
+import { codeBlock } from "./document.js";
+
+/**
+ * Launch options for the browser used by Puppeteer.
+ */
+const LAUNCH_OPTIONS: LaunchOptions = {
+    args: ["--no-sandbox"]
+};
+
+/**
+ * True if the browser used by Puppeteer can be launched; it may not be installed or may be missing system libraries.
+ */
+const BROWSER_AVAILABLE = await puppeteer.launch({
+    ...LAUNCH_OPTIONS,
+    headless: true
+}).then(async (browser) => {
+    await browser.close();
+
+    return true;
+}, () => false);
+
+describe("mermaidError", () => {
+    it("omits the quoted line and the pointer of a parse error and maps its line", () => {
+        assert.deepEqual(mermaidError("Parse error on line 3:\n...A --> B    C -->\n----------------------^\nExpecting 'AMP', 'ALPHA', got 'EOF'"), {
+            message: "Parse error on line 3: Expecting 'AMP', 'ALPHA', got 'EOF'",
+            line: 3
+        });
+    });
+
+    it("omits the quoted line and the pointer of a lexical error and maps its line", () => {
+        assert.deepEqual(mermaidError("Lexical error on line 2. Unrecognized text.\ngraph TD    A -- B\n-------------^"), {
+            message: "Lexical error on line 2. Unrecognized text.",
+            line: 2
+        });
+    });
+
+    it("joins the lines of other errors and maps a line if identified", () => {
+        assert.deepEqual(mermaidError("Invalid arrow\n  at line: 4"), {
+            message: "Invalid arrow at line: 4",
+            line: 4
+        });
+    });
+
+    it("leaves the line undefined if not identified", () => {
+        assert.deepEqual(mermaidError("No diagram type detected matching given configuration for text: flow"), {
+            message: "No diagram type detected matching given configuration for text: flow",
+            line: undefined
+        });
+    });
+});
+
+describe("renderMermaidDiagrams", () => {
+    it("renders diagrams to embedded SVG images and reports those that fail to render", {
+        skip: !BROWSER_AVAILABLE ? "browser not available" : false
+    }, async () => {
+        const errors: Array<[string, number | undefined]> = [];
+
+        const blocks = await renderMermaidDiagrams([
+            codeBlock(["mermaid"], "graph TD\n    A --> B\n"),
+            codeBlock(["mermaid"], "graph TD\n    A --> B\n    C -->\n")
+        ], LAUNCH_OPTIONS, {}, process.cwd(), (_codeBlock, message, line) => {
+            errors.push([message, line]);
+        });
+
+        assert.equal(blocks.length, 2);
+        assert.ok(JSON.stringify(blocks[0]).includes("data:image/svg+xml;base64,"));
+        assert.equal(blocks[1], undefined);
+        assert.equal(errors.length, 1);
+        assert.match(errors[0][0], /error/i);
+    });
+});
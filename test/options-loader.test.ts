@@ -0,0 +1,312 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { loadOptions, loadOptionsSync } from "../src/options-loader.js";
+
+let directory: string;
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "pandoc-spec-options-"));
+});
+
+afterEach(() => {
+    fs.rmSync(directory, {
+        recursive: true,
+        force: true
+    });
+});
+
+/**
+ * Write files to the test directory.
+ *
+ * @param files
+ * File content by path relative to the test directory.
+ */
+function writeFiles(files: Record<string, string>): void {
+    for (const [file, content] of Object.entries(files)) {
+        const absoluteFile = path.join(directory, file);
+
+        fs.mkdirSync(path.dirname(absoluteFile), {
+            recursive: true
+        });
+
+        fs.writeFileSync(absoluteFile, content);
+    }
+}
+
+describe("Options files", () => {
+    it("finds the default options file in the starting directory", async () => {
+        writeFiles({
+            "pandoc-spec.options.yaml": "inputFiles:\n  - Index.md\noutputFile: index.html\n"
+        });
+
+        const options = await loadOptions(undefined, directory);
+
+        assert.deepEqual(options.inputFiles, ["Index.md"]);
+        assert.equal(options.outputFile, "index.html");
+        assert.equal(options.optionsFile, path.join(directory, "pandoc-spec.options.yaml"));
+    });
+
+    it("loads options returned by the default export of a JavaScript options file", async () => {
+        writeFiles({
+            "pandoc-spec.config.mjs": "export default async () => ({ inputFiles: [\"Index.md\"], outputFile: \"index.html\" });\n"
+        });
+
+        const options = await loadOptions(undefined, directory);
+
+        assert.equal(options.outputFile, "index.html");
+    });
+
+    it("overrides file options with parameter options", async () => {
+        writeFiles({
+            "options.json": JSON.stringify({
+                inputFiles: ["Index.md"],
+                outputFile: "index.html"
+            })
+        });
+
+        const options = await loadOptions({
+            optionsFile: "options.json",
+            outputFile: "other.html"
+        }, directory);
+
+        assert.equal(options.outputFile, "other.html");
+    });
+
+    it("rejects an explicit options file that doesn't exist", async () => {
+        await assert.rejects(loadOptions({
+            optionsFile: "missing.json"
+        }, directory), {
+            message: `Options file ${path.join(directory, "missing.json")} not found`
+        });
+    });
+
+    it("loads JSON and YAML options files synchronously", () => {
+        writeFiles({
+            "base.yaml": "inputFiles:\n  - Base.md\n",
+            "pandoc-spec.options.json": JSON.stringify({
+                extends: "./base.yaml",
+                inputFiles: ["Index.md"],
+                outputFile: "index.html"
+            })
+        });
+
+        const options = loadOptionsSync(undefined, directory);
+
+        assert.deepEqual(options.inputFiles, ["Base.md", "Index.md"]);
+        assert.equal(options.outputFile, "index.html");
+        assert.equal(options.optionsFile, path.join(directory, "pandoc-spec.options.json"));
+    });
+
+    it("rejects a JavaScript options file when loading synchronously", () => {
+        writeFiles({
+            "pandoc-spec.config.mjs": "export default { inputFiles: [\"Index.md\"], outputFile: \"index.html\" };\n"
+        });
+
+        assert.throws(() => loadOptionsSync(undefined, directory), {
+            message: `Options file ${path.join(directory, "pandoc-spec.config.mjs")} is JavaScript or TypeScript and can only be loaded asynchronously; use PandocSpec.create()`
+        });
+    });
+});
+
+describe("extends", () => {
+    it("merges extended options under the options file and rebases their paths", async () => {
+        writeFiles({
+            "base/base.yaml": "templateFile: template.html\ninputFiles:\n  - Base.md\noutputFile: base.html\n",
+            "pandoc-spec.options.json": JSON.stringify({
+                extends: "./base/base.yaml",
+                inputFiles: ["Index.md"],
+                outputFile: "index.html"
+            })
+        });
+
+        const options = await loadOptions(undefined, directory);
+
+        assert.equal(options.templateFile, path.join(directory, "base", "template.html"));
+        assert.deepEqual(options.inputFiles, ["Base.md", "Index.md"]);
+        assert.equal(options.outputFile, "index.html");
+    });
+
+    it("rebases the input, output, and cache directories of extended options", async () => {
+        writeFiles({
+            "base/base.json": JSON.stringify({
+                inputDirectory: "spec",
+                outputDirectory: "../site",
+                cacheDirectory: ".cache"
+            }),
+            "pandoc-spec.options.json": JSON.stringify({
+                extends: "./base/base.json",
+                inputFiles: ["Index.md"],
+                outputFile: "index.html"
+            })
+        });
+
+        const options = await loadOptions(undefined, directory);
+
+        assert.equal(options.inputDirectory, path.join(directory, "base", "spec"));
+        assert.equal(options.outputDirectory, path.join(directory, "site"));
+        assert.equal(options.cacheDirectory, path.join(directory, "base", ".cache"));
+    });
+
+    it("applies later extended options over earlier ones", async () => {
+        writeFiles({
+            "first.json": JSON.stringify({
+                outputFile: "first.html"
+            }),
+            "second.json": JSON.stringify({
+                outputFile: "second.html"
+            }),
+            "pandoc-spec.options.json": JSON.stringify({
+                extends: ["./first.json", "./second.json"],
+                inputFiles: ["Index.md"]
+            })
+        });
+
+        const options = await loadOptions(undefined, directory);
+
+        assert.equal(options.outputFile, "second.html");
+    });
+
+    it("rejects circular extends", async () => {
+        writeFiles({
+            "first.json": JSON.stringify({
+                extends: "./second.json"
+            }),
+            "second.json": JSON.stringify({
+                extends: "./first.json"
+            })
+        });
+
+        const firstFile = path.join(directory, "first.json");
+        const secondFile = path.join(directory, "second.json");
+
+        await assert.rejects(loadOptions({
+            optionsFile: "first.json"
+        }, directory), {
+            message: `Circular extends: ${firstFile} -> ${secondFile} -> ${firstFile}`
+        });
+    });
+
+    it("rejects extends in parameter options", async () => {
+        await assert.rejects(loadOptions({
+            extends: "./base.json"
+        }, directory), {
+            message: "Invalid options in parameter options: \"extends\" applies only to options files"
+        });
+    });
+});
+
+describe("profiles", () => {
+    beforeEach(() => {
+        writeFiles({
+            "pandoc-spec.options.json": JSON.stringify({
+                inputFiles: ["Index.md"],
+                outputFile: "index.html",
+                profile: "draft",
+                profiles: {
+                    draft: {
+                        outputFile: "draft.html"
+                    },
+                    release: {
+                        inputFiles: ["Annex.md"],
+                        outputFile: "release.html"
+                    }
+                }
+            })
+        });
+    });
+
+    it("applies the default profile set in the options file", async () => {
+        const options = await loadOptions(undefined, directory);
+
+        assert.equal(options.outputFile, "draft.html");
+    });
+
+    it("applies the profile selected by parameter options over the file options", async () => {
+        const options = await loadOptions({
+            profile: "release"
+        }, directory);
+
+        assert.deepEqual(options.inputFiles, ["Index.md", "Annex.md"]);
+        assert.equal(options.outputFile, "release.html");
+    });
+
+    it("lists the available profiles when the profile isn't found", async () => {
+        for (const profile of ["final", "constructor"]) {
+            await assert.rejects(loadOptions({
+                profile
+            }, directory), {
+                message: `Profile "${profile}" not found; available profiles are "draft", "release"`
+            });
+        }
+    });
+});
+
+describe("Environment variables", () => {
+    afterEach(() => {
+        delete process.env["PANDOC_SPEC_TEST_VERSION"];
+        delete process.env["PANDOC_SPEC_OUTPUT_FILE"];
+    });
+
+    it("interpolates references in string values", async () => {
+        process.env["PANDOC_SPEC_TEST_VERSION"] = "1.2";
+
+        writeFiles({
+            "pandoc-spec.options.json": JSON.stringify({
+                inputFiles: ["Index.md"],
+                outputFile: "spec-${env:PANDOC_SPEC_TEST_VERSION}-${env:PANDOC_SPEC_TEST_MISSING:-draft}.html"
+            })
+        });
+
+        const options = await loadOptions(undefined, directory);
+
+        assert.equal(options.outputFile, "spec-1.2-draft.html");
+    });
+
+    it("rejects a reference to an unset variable without a default", async () => {
+        writeFiles({
+            "pandoc-spec.options.json": JSON.stringify({
+                inputFiles: ["Index.md"],
+                outputFile: "${env:PANDOC_SPEC_TEST_VERSION}.html"
+            })
+        });
+
+        await assert.rejects(loadOptions(undefined, directory), {
+            message: `Environment variable PANDOC_SPEC_TEST_VERSION referenced in ${path.join(directory, "pandoc-spec.options.json")} is not set and has no default`
+        });
+    });
+
+    it("overrides file options with PANDOC_SPEC_* variables and is overridden by parameter options", async () => {
+        process.env["PANDOC_SPEC_OUTPUT_FILE"] = "environment.html";
+
+        writeFiles({
+            "pandoc-spec.options.json": JSON.stringify({
+                inputFiles: ["Index.md"],
+                outputFile: "index.html"
+            })
+        });
+
+        assert.equal((await loadOptions(undefined, directory)).outputFile, "environment.html");
+        assert.equal((await loadOptions({
+            outputFile: "parameter.html"
+        }, directory)).outputFile, "parameter.html");
+    });
+});
@@ -0,0 +1,201 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { environmentOptions, environmentVariableName, validateOptions, validateWorkspaceOptions } from "../src/options-schema.js";
+
+describe("validateOptions", () => {
+    it("accepts valid options as is", () => {
+        const options = {
+            inputFiles: ["Index.md"],
+            outputFile: "index.html",
+            filters: [{
+                type: "lua",
+                path: "filter.lua"
+            }]
+        };
+
+        assert.equal(validateOptions(options, "options.json"), options);
+    });
+
+    it("suggests the closest match for an unknown property", () => {
+        assert.throws(() => validateOptions({
+            outputfile: "index.html"
+        }, "options.json"), {
+            message: "Invalid options in options.json:\n  $.outputfile: unknown property; did you mean \"outputFile\"?"
+        });
+    });
+
+    it("doesn't suggest a match for an unknown property unlike any other", () => {
+        assert.throws(() => validateOptions({
+            somethingElse: true
+        }, "options.json"), {
+            message: "Invalid options in options.json:\n  $.somethingElse: unknown property"
+        });
+    });
+
+    it("lists the allowed values of an enumeration", () => {
+        assert.throws(() => validateOptions({
+            filters: [{
+                type: "perl",
+                path: "filter.pl"
+            }]
+        }, "options.json"), {
+            message: "Invalid options in options.json:\n  $.filters[0].type: \"perl\" is not one of \"lua\", \"json\", \"module\", \"builtin\""
+        });
+    });
+
+    it("validates filter enablement", () => {
+        const options = {
+            filters: [{
+                type: "builtin",
+                path: "mermaid",
+                disabled: true
+            }, {
+                type: "json",
+                path: "pandoc-filter",
+                formats: ["html", "docx"]
+            }]
+        };
+
+        assert.equal(validateOptions(options, "options.json"), options);
+
+        assert.throws(() => validateOptions({
+            filters: [{
+                type: "builtin",
+                path: "mermaid",
+                disabled: "yes",
+                formats: "html"
+            }]
+        }, "options.json"), {
+            message: "Invalid options in options.json:\n  $.filters[0].disabled: must be boolean\n  $.filters[0].formats: must be array"
+        });
+    });
+
+    it("validates filter arguments and environment and Mermaid rendering", () => {
+        const options = {
+            filters: [{
+                type: "json",
+                path: "pandoc-filter",
+                args: ["--strict"],
+                env: {
+                    FILTER_MODE: "strict"
+                }
+            }],
+            mermaid: {
+                format: "png",
+                theme: "dark",
+                width: 800,
+                scale: 2
+            }
+        };
+
+        assert.equal(validateOptions(options, "options.json"), options);
+
+        assert.throws(() => validateOptions({
+            filters: [{
+                type: "json",
+                path: "pandoc-filter",
+                args: [1],
+                env: {
+                    FILTER_MODE: 1
+                }
+            }],
+            mermaid: {
+                format: "pdf",
+                width: "800"
+            }
+        }, "options.json"), {
+            message: "Invalid options in options.json:\n  $.filters[0].args[0]: must be string\n  $.filters[0].env.FILTER_MODE: must be string\n  $.mermaid.format: \"pdf\" is not one of \"svg\", \"png\"\n  $.mermaid.width: must be number"
+        });
+    });
+
+    it("reports every problem", () => {
+        assert.throws(() => validateOptions({
+            inputFiles: "Index.md",
+            watchWait: "500"
+        }, "options.json"), {
+            message: "Invalid options in options.json:\n  $.inputFiles: must be array\n  $.watchWait: must be number"
+        });
+    });
+});
+
+describe("environmentOptions", () => {
+    it("names variables after properties", () => {
+        assert.equal(environmentVariableName("inputFiles"), "PANDOC_SPEC_INPUT_FILES");
+    });
+
+    it("takes strings as is and parses other values as JSON", () => {
+        assert.deepEqual(environmentOptions({
+            PANDOC_SPEC_OUTPUT_FILE: "index.html",
+            PANDOC_SPEC_INPUT_FILES: "[\"Index.md\"]",
+            PANDOC_SPEC_WATCH: "true",
+            PATH: "/usr/bin"
+        }), {
+            inputFiles: ["Index.md"],
+            outputFile: "index.html",
+            watch: true
+        });
+    });
+
+    it("ignores properties that apply only to options files", () => {
+        assert.deepEqual(environmentOptions({
+            PANDOC_SPEC_EXTENDS: "./base.json"
+        }), {});
+    });
+
+    it("reports invalid values against the variable", () => {
+        assert.throws(() => environmentOptions({
+            PANDOC_SPEC_WATCH: "yes"
+        }), {
+            message: "Invalid options in environment variable PANDOC_SPEC_WATCH: \"yes\" is not valid JSON"
+        });
+
+        assert.throws(() => environmentOptions({
+            PANDOC_SPEC_WATCH: "1"
+        }), {
+            message: "Invalid options in environment variable PANDOC_SPEC_WATCH:\n  $.watch: must be boolean"
+        });
+    });
+});
+
+describe("validateWorkspaceOptions", () => {
+    it("accepts projects by options file and inline", () => {
+        const workspaceOptions = {
+            projects: ["core/pandoc-spec.options.json", {
+                name: "annex",
+                inputFiles: ["Annex.md"],
+                outputFile: "annex.html"
+            }]
+        };
+
+        assert.equal(validateWorkspaceOptions(workspaceOptions, "workspace.json"), workspaceOptions);
+    });
+
+    it("rejects unknown properties of the workspace and of inline projects", () => {
+        assert.throws(() => validateWorkspaceOptions({
+            projects: [{
+                name: "annex",
+                outputfile: "annex.html"
+            }],
+            title: "Specifications",
+            titel: "Specifications"
+        }, "workspace.json"), {
+            message: "Invalid options in workspace.json:\n  $.titel: unknown property; did you mean \"title\"?\n  $.projects[0]: must be string\n  $.projects[0].outputfile: unknown property; did you mean \"outputFile\"?\n  $.projects[0]: must match a schema in anyOf"
+        });
+    });
+});
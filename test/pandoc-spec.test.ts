@@ -0,0 +1,537 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import child_process from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import type { BuildStage, BuildWarning } from "../src/build.js";
+import type { Options } from "../src/options.js";
+import { PandocSpec } from "../src/pandoc-spec.js";
+
+/**
+ * Directory of the fake Pandoc and pandoc-defref commands.
+ */
+const FAKE_BIN_DIRECTORY = decodeURI(new URL("bin", import.meta.url).pathname);
+
+/**
+ * Parameter options common to all builds.
+ */
+const PARAMETER_OPTIONS: Partial<Options> = {
+    logLevel: "error"
+};
+
+let originalPath: string | undefined;
+
+let directory: string;
+
+before(() => {
+    originalPath = process.env["PATH"];
+
+    process.env["PATH"] = [FAKE_BIN_DIRECTORY, originalPath].join(path.delimiter);
+});
+
+after(() => {
+    process.env["PATH"] = originalPath;
+});
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "pandoc-spec-builder-"));
+
+    process.env["FAKE_PANDOC_LOG"] = path.join(directory, "pandoc.log");
+});
+
+afterEach(() => {
+    delete process.env["FAKE_PANDOC_LOG"];
+
+    fs.rmSync(directory, {
+        recursive: true,
+        force: true
+    });
+});
+
+/**
+ * Write files to the test directory.
+ *
+ * @param files
+ * File content by path relative to the test directory.
+ */
+function writeFiles(files: Record<string, string>): void {
+    for (const [file, content] of Object.entries(files)) {
+        const absoluteFile = path.join(directory, file);
+
+        fs.mkdirSync(path.dirname(absoluteFile), {
+            recursive: true
+        });
+
+        fs.writeFileSync(absoluteFile, content);
+    }
+}
+
+/**
+ * Read a file in the test directory.
+ *
+ * @param file
+ * File path relative to the test directory.
+ *
+ * @returns
+ * Content.
+ */
+function readFile(file: string): string {
+    return fs.readFileSync(path.join(directory, file)).toString();
+}
+
+/**
+ * Get the arguments of the Pandoc runs logged so far.
+ *
+ * @returns
+ * Arguments of each run.
+ */
+function pandocRuns(): string[][] {
+    const logFile = path.join(directory, "pandoc.log");
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Log is written by the fake Pandoc.
+    return fs.existsSync(logFile) ? fs.readFileSync(logFile).toString().split("\n").filter(line => line !== "").map(line => JSON.parse(line) as string[]) : [];
+}
+
+/**
+ * Get the Pandoc runs logged so far that read Markdown.
+ *
+ * @returns
+ * Arguments of each reader run.
+ */
+function readerRuns(): string[][] {
+    return pandocRuns().filter(args => args.includes("--from=markdown"));
+}
+
+/**
+ * Create a builder in the test directory.
+ *
+ * @param parameterOptions
+ * Parameter options.
+ *
+ * @returns
+ * Builder.
+ */
+async function builder(parameterOptions: Partial<Options>): Promise<PandocSpec> {
+    return PandocSpec.create({
+        ...PARAMETER_OPTIONS,
+        ...parameterOptions
+    }, directory);
+}
+
+/**
+ * Run a git command in the test directory.
+ *
+ * @param args
+ * Arguments.
+ */
+function git(args: readonly string[]): void {
+    child_process.execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", "-c", "init.defaultBranch=main", "-c", "tag.gpgSign=false", "-c", "commit.gpgSign=false", ...args], {
+        cwd: directory,
+        stdio: "ignore"
+    });
+}
+
+/**
+ * Build event, as recorded by {@link recordEvents}.
+ */
+type RecordedEvent = ["stageStart", BuildStage] | ["stageEnd", BuildStage, number] | ["warning", BuildWarning];
+
+/**
+ * Record the events emitted by a builder.
+ *
+ * @param pandocSpec
+ * Builder.
+ *
+ * @returns
+ * Events, in the order emitted, added to as they're emitted.
+ */
+function recordEvents(pandocSpec: PandocSpec): RecordedEvent[] {
+    const events: RecordedEvent[] = [];
+
+    pandocSpec.on("stageStart", (stage) => {
+        events.push(["stageStart", stage]);
+    });
+
+    pandocSpec.on("stageEnd", (stage, duration) => {
+        events.push(["stageEnd", stage, duration]);
+    });
+
+    pandocSpec.on("warning", (warning) => {
+        events.push(["warning", warning]);
+    });
+
+    return events;
+}
+
+describe("Build", () => {
+    it("reports the outputs, warnings, and stage durations of a successful build and emits an event for each", async () => {
+        writeFiles({
+            "Index.md": "# Introduction\n\n!warning Something odd\n\nText\n"
+        });
+
+        const pandocSpec = await builder({
+            inputFiles: ["Index.md"],
+            outputFile: "index.html"
+        });
+
+        const events = recordEvents(pandocSpec);
+
+        const result = await pandocSpec.build();
+
+        const warning: BuildWarning = {
+            command: "pandoc",
+            message: "Something odd"
+        };
+
+        assert.equal(result.status, 0);
+        assert.equal(result.error, undefined);
+        assert.deepEqual(result.outputFiles, [path.join(directory, "index.html")]);
+        assert.deepEqual(result.warnings, [warning]);
+
+        // Warning is reported while the reader is running.
+        assert.deepEqual(events.slice(0, 3).map(event => event.slice(0, 2)), [["stageStart", "read"], ["warning", warning], ["stageEnd", "read"]]);
+
+        const stageEvents = events.filter(event => event[0] !== "warning");
+
+        // Each stage ends before the next starts.
+        stageEvents.forEach((event, index) => {
+            assert.equal(event[0], index % 2 === 0 ? "stageStart" : "stageEnd");
+            assert.equal(event[1], stageEvents[index - index % 2][1]);
+        });
+
+        const stages = [...new Set(stageEvents.map(event => event[1]))];
+
+        assert.deepEqual(stages, ["read", "diagrams", "filter", "index", "references", "write", "check"]);
+        assert.deepEqual(Object.keys(result.durations), stages);
+
+        for (const stage of stages) {
+            assert.ok((result.durations[stage] ?? -1) >= 0);
+        }
+    });
+
+    it("reports the status and error of the failed command and emits no events after the failed stage", async () => {
+        writeFiles({
+            "Index.md": "# Introduction\n\n!fail\n"
+        });
+
+        const pandocSpec = await builder({
+            inputFiles: ["Index.md"],
+            outputFile: "index.html"
+        });
+
+        const events = recordEvents(pandocSpec);
+
+        const result = await pandocSpec.build();
+
+        assert.equal(result.status, 3);
+        assert.match(result.error?.message ?? "", /pandoc failed with status 3/);
+        assert.deepEqual(result.outputFiles, []);
+        assert.deepEqual(result.resourceFiles, []);
+        assert.deepEqual(Object.keys(result.durations), ["read"]);
+        assert.deepEqual(events.map(event => event.slice(0, 2)), [["stageStart", "read"], ["stageEnd", "read"]]);
+        assert.equal(fs.existsSync(path.join(directory, "index.html")), false);
+    });
+});
+
+describe("Options", () => {
+    it("loads the options file in the constructor, overridden by parameter options", async () => {
+        writeFiles({
+            "Index.md": "# Introduction\n\nText\n",
+            "pandoc-spec.options.json": JSON.stringify({
+                inputFiles: ["Index.md"],
+                outputFile: "spec.html"
+            })
+        });
+
+        const pandocSpec = new PandocSpec({
+            ...PARAMETER_OPTIONS,
+            outputFile: "index.html"
+        }, directory);
+
+        const result = await pandocSpec.build();
+
+        assert.equal(result.error, undefined);
+        assert.deepEqual(result.outputFiles, [path.join(directory, "index.html")]);
+    });
+});
+
+describe("Outputs", () => {
+    it("writes outputs of different formats from a single read with per-output options", async () => {
+        writeFiles({
+            "Index.md": "# Introduction\n\nText\n",
+            "custom.html": "$body$\n"
+        });
+
+        const result = await (await builder({
+            inputFiles: ["Index.md"],
+            outputs: [{
+                outputFile: "index.html",
+                templateFile: "custom.html"
+            }, {
+                outputFile: "spec.docx",
+                outputFormat: "docx"
+            }]
+        })).build();
+
+        assert.equal(result.error, undefined);
+        assert.deepEqual(result.outputFiles, [path.join(directory, "index.html"), path.join(directory, "spec.docx")]);
+        assert.equal(readerRuns().length, 1);
+
+        const html = readFile("index.html");
+        const docx = readFile("spec.docx");
+
+        assert.match(html, /<p>Text<\/p>/);
+        assert.match(html, /--to=html /);
+        assert.ok(html.includes(`--template=${path.join(directory, "custom.html")}`));
+        assert.doesNotMatch(html, /--reference-doc=/);
+
+        assert.match(docx, /<p>Text<\/p>/);
+        assert.match(docx, /--to=docx /);
+        assert.match(docx, /--reference-doc=\S*reference\.docx/);
+        assert.doesNotMatch(docx, /--template=/);
+    });
+
+    it("takes the DOCX reference document from the output over the options", async () => {
+        writeFiles({
+            "Index.md": "# Introduction\n\nText\n"
+        });
+
+        const result = await (await builder({
+            inputFiles: ["Index.md"],
+            referenceDocument: "house.docx",
+            outputs: [{
+                outputFile: "spec.docx",
+                outputFormat: "docx"
+            }, {
+                outputFile: "custom.docx",
+                outputFormat: "docx",
+                referenceDocument: "styles/custom.docx"
+            }]
+        })).build();
+
+        assert.equal(result.error, undefined);
+        assert.ok(readFile("spec.docx").includes(`--reference-doc=${path.join(directory, "house.docx")} `));
+        assert.ok(readFile("custom.docx").includes(`--reference-doc=${path.join(directory, "styles", "custom.docx")} `));
+    });
+
+    it("embeds resources in a self-contained output from vendored assets and copies no resource files", async () => {
+        writeFiles({
+            "Index.md": "# Introduction\n\nText\n"
+        });
+
+        const result = await (await builder({
+            inputFiles: ["Index.md"],
+            outputs: [{
+                outputFile: "index.html",
+                selfContained: true
+            }]
+        })).build();
+
+        assert.equal(result.error, undefined);
+        assert.deepEqual(result.resourceFiles, []);
+
+        const html = readFile("index.html");
+
+        assert.match(html, /--embed-resources /);
+        assert.match(html, /--variable=offline /);
+        assert.match(html, new RegExp(`--resource-path=\\.${path.delimiter}\\S*pandoc${path.delimiter}\\S*pandoc/vendor `));
+    });
+
+    it("runs filters for the formats of only some outputs on those outputs' copies of the document", async () => {
+        writeFiles({
+            "Index.md": "# Introduction\n\nText\n",
+            "shared.lua": "-- Shared\n",
+            "html.lua": "-- HTML only\n",
+            "docx.lua": "-- DOCX only\n",
+            "format.mjs": "export default (document, context) => ({ ...document, blocks: [...document.blocks, { t: \"Para\", c: [{ t: \"Str\", c: `Format:${context.outputFormat}` }] }] });\n"
+        });
+
+        const result = await (await builder({
+            inputFiles: ["Index.md"],
+            filters: [{
+                path: "html.lua",
+                formats: ["html"]
+            }, {
+                path: "shared.lua",
+                formats: ["html", "docx"]
+            }, {
+                path: "docx.lua",
+                formats: ["docx"]
+            }, {
+                type: "module",
+                path: "./format.mjs",
+                formats: ["docx"]
+            }],
+            outputs: [{
+                outputFile: "index.html"
+            }, {
+                outputFile: "spec.docx",
+                outputFormat: "docx"
+            }]
+        })).build();
+
+        assert.equal(result.error, undefined);
+        assert.equal(readerRuns().length, 1);
+        assert.ok(readerRuns()[0].some(arg => arg.endsWith("shared.lua")));
+
+        const html = readFile("index.html");
+        const docx = readFile("spec.docx");
+
+        assert.match(html, /<p>shared\.lua: -- Shared<\/p>\n<p>html\.lua: -- HTML only<\/p>/);
+        assert.doesNotMatch(html, /docx\.lua|Format:/);
+
+        assert.match(docx, /<p>shared\.lua: -- Shared<\/p>\n<p>docx\.lua: -- DOCX only<\/p>\n<p>Format:docx<\/p>/);
+        assert.doesNotMatch(docx, /html\.lua/);
+    });
+});
+
+describe("Cache", () => {
+    it("reads the input files again only when they, a Lua filter, or a reader option file change", async () => {
+        writeFiles({
+            "Index.md": "# Introduction\n\nText\n",
+            "filter.lua": "-- First filter\n",
+            "meta.yaml": "title: First\n"
+        });
+
+        const options: Partial<Options> = {
+            inputFiles: ["Index.md"],
+            outputFile: "index.html",
+            cache: true,
+            filters: [{
+                path: "filter.lua"
+            }],
+            additionalReaderOptions: [{
+                option: "--metadata-file",
+                value: "meta.yaml"
+            }]
+        };
+
+        const build = async (): Promise<void> => {
+            const result = await (await builder(options)).build();
+
+            assert.equal(result.error, undefined);
+        };
+
+        await build();
+        await build();
+
+        assert.equal(readerRuns().length, 1);
+        assert.match(readFile("index.html"), /<p>filter\.lua: -- First filter<\/p>/);
+
+        writeFiles({
+            "filter.lua": "-- Second filter\n"
+        });
+
+        await build();
+
+        assert.equal(readerRuns().length, 2);
+        assert.match(readFile("index.html"), /<p>filter\.lua: -- Second filter<\/p>/);
+
+        writeFiles({
+            "meta.yaml": "title: Second\n"
+        });
+
+        await build();
+
+        assert.equal(readerRuns().length, 3);
+    });
+});
+
+describe("Diff", () => {
+    beforeEach(() => {
+        writeFiles({
+            "Index.md": "# Introduction\n\nRevision text\n"
+        });
+
+        git(["init"]);
+        git(["add", "Index.md"]);
+        git(["commit", "-m", "First"]);
+        git(["tag", "v1.0"]);
+
+        // Previous output with the same name as the tag.
+        writeFiles({
+            "Index.md": "# Introduction\n\nCurrent text\n",
+            "v1.0": "# Introduction\n\nFile text\n"
+        });
+    });
+
+    it("reads the base version from a git ref even if a file has the same name", async () => {
+        const result = await (await builder({
+            inputFiles: ["Index.md"],
+            outputFile: "index.html",
+            diff: {
+                baseRef: "v1.0"
+            }
+        })).build();
+
+        assert.equal(result.error, undefined);
+
+        const diff = readFile("diff.html");
+
+        assert.match(diff, /Revision/);
+        assert.match(diff, /Current/);
+        assert.doesNotMatch(diff, /File/);
+    });
+
+    it("reads the base version from a previous output even if a git ref has the same name", async () => {
+        const result = await (await builder({
+            inputFiles: ["Index.md"],
+            outputFile: "index.html",
+            diff: {
+                baseFile: "v1.0"
+            }
+        })).build();
+
+        assert.equal(result.error, undefined);
+
+        const diff = readFile("diff.html");
+
+        assert.match(diff, /File/);
+        assert.match(diff, /Current/);
+        assert.doesNotMatch(diff, /Revision/);
+    });
+
+    it("fails if the previous output doesn't exist", async () => {
+        const result = await (await builder({
+            inputFiles: ["Index.md"],
+            outputFile: "index.html",
+            diff: {
+                baseFile: "v2.0"
+            }
+        })).build();
+
+        assert.equal(result.error?.message, `Diff base file ${path.join(directory, "v2.0")} not found`);
+    });
+
+    it("requires exactly one of a git ref and a previous output", async () => {
+        for (const diff of [{}, {
+            baseRef: "v1.0",
+            baseFile: "v1.0"
+        }]) {
+            await assert.rejects(builder({
+                inputFiles: ["Index.md"],
+                outputFile: "index.html",
+                diff
+            }), {
+                message: "Invalid options: exactly one of \"diff.baseRef\" or \"diff.baseFile\" is required"
+            });
+        }
+    });
+});
@@ -0,0 +1,83 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { pdfOptions } from "../src/pdf.js";
+
+describe("pdfOptions", () => {
+    it("prints Letter portrait pages with the default margins, header, and footer by default", () => {
+        const options = pdfOptions({});
+
+        assert.equal(options.format, "Letter");
+        assert.equal(options.landscape, false);
+        assert.deepEqual(options.margin, {
+            top: "20mm",
+            right: "15mm",
+            bottom: "20mm",
+            left: "15mm"
+        });
+        assert.equal(options.printBackground, true);
+        assert.equal(options.displayHeaderFooter, true);
+        assert.match(options.headerTemplate ?? "", /<span class="title"><\/span>/);
+        assert.match(options.footerTemplate ?? "", /<span class="pageNumber"><\/span> of <span class="totalPages"><\/span>/);
+    });
+
+    it("applies the page size, orientation, and templates and merges the margins over the defaults", () => {
+        const options = pdfOptions({
+            pageSize: "A4",
+            landscape: true,
+            margins: {
+                top: "1in",
+                left: "2cm"
+            },
+            headerTemplate: "<div>Draft</div>",
+            footerTemplate: "<div><span class=\"pageNumber\"></span></div>"
+        });
+
+        assert.equal(options.format, "A4");
+        assert.equal(options.landscape, true);
+        assert.deepEqual(options.margin, {
+            top: "1in",
+            right: "15mm",
+            bottom: "20mm",
+            left: "2cm"
+        });
+        assert.equal(options.headerTemplate, "<div>Draft</div>");
+        assert.equal(options.footerTemplate, "<div><span class=\"pageNumber\"></span></div>");
+    });
+
+    it("suppresses an empty header or footer with a placeholder template", () => {
+        const options = pdfOptions({
+            headerTemplate: ""
+        });
+
+        assert.equal(options.displayHeaderFooter, true);
+        assert.equal(options.headerTemplate, "<span></span>");
+        assert.match(options.footerTemplate ?? "", /pageNumber/);
+    });
+
+    it("displays no header or footer if both are empty", () => {
+        const options = pdfOptions({
+            headerTemplate: "",
+            footerTemplate: ""
+        });
+
+        assert.equal(options.displayHeaderFooter, false);
+        assert.equal(options.headerTemplate, "<span></span>");
+        assert.equal(options.footerTemplate, "<span></span>");
+    });
+});
@@ -0,0 +1,165 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { LogLevel } from "typescript-logging";
+import { getLogger, updateLogger } from "../src/logger-helper.js";
+import { PreviewServer } from "../src/preview-server.js";
+
+/**
+ * Find a free port on the loopback interface.
+ *
+ * @returns
+ * Port.
+ */
+async function freePort(): Promise<number> {
+    const server = net.createServer();
+
+    // eslint-disable-next-line promise/avoid-new -- Promise required to wait for server to listen.
+    await new Promise<void>((resolve) => {
+        server.listen(0, "127.0.0.1", resolve);
+    });
+
+    const address = server.address();
+
+    // eslint-disable-next-line promise/avoid-new -- Promise required to wait for server to close.
+    await new Promise<void>((resolve) => {
+        server.close(() => {
+            resolve();
+        });
+    });
+
+    assert.ok(address !== null && typeof address === "object");
+
+    return address.port;
+}
+
+describe("PreviewServer", () => {
+    let directory: string;
+    let previewServer: PreviewServer;
+    let url: string;
+
+    before(async () => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "pandoc-spec-preview-"));
+
+        fs.mkdirSync(path.join(directory, "site"));
+        fs.writeFileSync(path.join(directory, "site", "index.html"), "<html><body><p>Index</p></body></html>");
+        fs.writeFileSync(path.join(directory, "site", "style.css"), "p {}");
+        fs.writeFileSync(path.join(directory, "secret.txt"), "Secret");
+
+        // Index of this directory is itself a directory, so it can't be read.
+        fs.mkdirSync(path.join(directory, "site", "broken", "index.html"), {
+            recursive: true
+        });
+
+        const logger = getLogger("preview-server-test");
+
+        updateLogger(logger, {
+            level: LogLevel.Off
+        });
+
+        previewServer = new PreviewServer(logger, path.join(directory, "site"));
+        url = await previewServer.listen("127.0.0.1", await freePort());
+    });
+
+    after(async () => {
+        await previewServer.close();
+
+        fs.rmSync(directory, {
+            recursive: true,
+            force: true
+        });
+    });
+
+    it("serves the index of a directory with the live-reload client injected", async () => {
+        const response = await fetch(url);
+        const html = await response.text();
+
+        assert.equal(response.status, 200);
+        assert.equal(response.headers.get("content-type"), "text/html; charset=utf-8");
+        assert.match(html, /^<html><body><p>Index<\/p><script>[\s\S]*EventSource[\s\S]*<\/script>\n<\/body><\/html>$/);
+    });
+
+    it("serves other files as is", async () => {
+        const response = await fetch(new URL("style.css", url));
+
+        assert.equal(response.status, 200);
+        assert.equal(response.headers.get("content-type"), "text/css; charset=utf-8");
+        assert.equal(await response.text(), "p {}");
+    });
+
+    it("responds 404 to a missing file", async () => {
+        const response = await fetch(new URL("missing.html", url));
+
+        assert.equal(response.status, 404);
+    });
+
+    it("responds 404 to a path under a file", async () => {
+        const response = await fetch(new URL("style.css/index.html", url));
+
+        assert.equal(response.status, 404);
+    });
+
+    it("responds 500 to a file that can't be read and keeps serving", async () => {
+        const response = await fetch(new URL("broken/", url));
+
+        assert.equal(response.status, 500);
+        assert.equal((await fetch(new URL("style.css", url))).status, 200);
+    });
+
+    it("responds 403 to a path outside the directory", async () => {
+        const response = await fetch(new URL("%2E%2E%2Fsecret.txt", url));
+
+        assert.equal(response.status, 403);
+    });
+
+    it("responds 400 to malformed percent-encoding", async () => {
+        const response = await fetch(new URL("%E0%A4%A", url));
+
+        assert.equal(response.status, 400);
+    });
+
+    it("pushes reload and error events", async () => {
+        const response = await fetch(new URL("_pandoc-spec/events", url));
+
+        assert.equal(response.headers.get("content-type"), "text/event-stream");
+        assert.ok(response.body !== null);
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+
+        previewServer.reload();
+        previewServer.error(new Error("Broken"));
+
+        let events = "";
+
+        while (!events.endsWith("event: build-error\ndata: \"Broken\"\n\n")) {
+            const result = await reader.read();
+
+            assert.ok(!result.done);
+
+            events += result.value;
+        }
+
+        assert.equal(events, "event: reload\ndata: \"\"\n\nevent: build-error\ndata: \"Broken\"\n\n");
+
+        await reader.cancel();
+    });
+});
@@ -0,0 +1,108 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildAnchorIndex } from "../src/cross-reference.js";
+import { buildSearchIndex } from "../src/search.js";
+import { codeBlock, document, header, inlines, para, span } from "./document.js";
+
+const DOCUMENT = document([
+    header(1, "intro", "Introduction"),
+    para([...inlines("A"), {
+        t: "Space"
+    }, span("widget", "widget", ["define"]), {
+        t: "Space"
+    }, ...inlines("is a thing.")]),
+    codeBlock(["js"], "ignored();"),
+    header(2, "scope", "Scope"),
+    {
+        t: "DefinitionList",
+        c: [[[span("gadget", "Gadget")], [[para("A small device.")]]]]
+    },
+    {
+        t: "DefinitionList",
+        c: [[inlines("Gizmo"), [[para("Another device.")]]]]
+    }
+], {
+    title: {
+        t: "MetaString",
+        c: "Specification"
+    }
+});
+
+describe("buildSearchIndex", () => {
+    it("indexes sections and defined terms with URLs relative to the search index", () => {
+        const anchorIndex = buildAnchorIndex(DOCUMENT, "core", "pages/index.html", true);
+
+        assert.deepEqual(buildSearchIndex(DOCUMENT, anchorIndex, "pages"), {
+            title: "Specification",
+            entries: [{
+                kind: "section",
+                href: "index.html#intro",
+                number: "1",
+                title: "Introduction",
+                text: "A widget is a thing."
+            }, {
+                kind: "term",
+                href: "index.html#widget",
+                number: "1",
+                title: "widget",
+                text: "Introduction"
+            }, {
+                kind: "section",
+                href: "index.html#scope",
+                number: "1.1",
+                title: "Scope",
+                text: "Gadget A small device. Gizmo Another device."
+            }, {
+                kind: "term",
+                href: "index.html#gadget",
+                number: "1.1",
+                title: "Gadget",
+                text: "A small device."
+            }, {
+                kind: "term",
+                href: "index.html#scope",
+                number: "1.1",
+                title: "Gizmo",
+                text: "Another device."
+            }]
+        });
+    });
+
+    it("doesn't start sections at headings missing from the anchor index", () => {
+        const anchorIndex = buildAnchorIndex(document([header(1, "intro", "Introduction")]), "core", "index.html", false);
+
+        assert.deepEqual(buildSearchIndex(document([
+            header(1, "intro", "Introduction"),
+            header(1, "toString", "Conversion"),
+            para([span("constructor", "Constructor", ["definition"])])
+        ]), anchorIndex, "."), {
+            entries: [{
+                kind: "section",
+                href: "index.html#intro",
+                title: "Introduction",
+                text: "Conversion Constructor"
+            }, {
+                kind: "term",
+                href: "index.html#intro",
+                title: "Constructor",
+                text: "Introduction"
+            }]
+        });
+    });
+});
@@ -0,0 +1,144 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { type Element, stringify, visitElements } from "../src/ast.js";
+import { pageDocument, splitDocument } from "../src/split.js";
+import { document, header, link, para } from "./document.js";
+
+const DOCUMENT = document([
+    para("Preamble"),
+    header(1, "intro", "Introduction"),
+    para([link("#scope", "see scope")]),
+    header(2, "details", "Details"),
+    header(1, "scope", "Scope"),
+    para([link("index.html#details", "back")]),
+    header(1, "", "Untitled"),
+    header(1, "index", "Index", ["unnumbered"])
+], {
+    title: {
+        t: "MetaString",
+        c: "Specification"
+    }
+});
+
+/**
+ * Get the URLs of the links in a value.
+ *
+ * @param value
+ * Value.
+ *
+ * @returns
+ * URLs, in document order.
+ */
+function linkURLs(value: unknown): string[] {
+    const urls: string[] = [];
+
+    visitElements(value, (element) => {
+        if (element.t === "Link" && Array.isArray(element.c) && Array.isArray(element.c[2]) && typeof element.c[2][0] === "string") {
+            urls.push(element.c[2][0]);
+        }
+    });
+
+    return urls;
+}
+
+/**
+ * Get the URLs of the previous and next pages in the metadata of a page.
+ *
+ * @param meta
+ * Metadata.
+ *
+ * @returns
+ * URLs by direction.
+ */
+function navigationURLs(meta: Record<string, Element>): Record<string, string> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion -- Navigation metadata format is known.
+    const navigation = (meta["page-navigation"]?.c ?? {}) as Record<string, { c: { href: { c: string } } }>;
+
+    return Object.fromEntries(Object.entries(navigation).map(([direction, page]) => [direction, page.c.href.c]));
+}
+
+describe("splitDocument", () => {
+    const split = splitDocument(DOCUMENT, "out/index.html", 1, true);
+
+    it("starts a page at each splitting heading after the first", () => {
+        assert.deepEqual(split.pages.map(page => page.file), ["out/index.html", "out/scope.html", "out/section-3.html", "out/index-1.html"]);
+        assert.deepEqual(split.pages.map(page => page.blocks.length), [4, 2, 1, 1]);
+        assert.deepEqual(split.pages.map(page => stringify(page.title)), ["1 Introduction", "2 Scope", "3 Untitled", "Index"]);
+    });
+
+    it("records the section counters before each page", () => {
+        assert.deepEqual(split.pages.map(page => page.numberOffset), [[], [1, 1], [2], [3]]);
+    });
+
+    it("maps identifiers to their pages", () => {
+        assert.deepEqual([...split.anchorPages], [["intro", "out/index.html"], ["details", "out/index.html"], ["scope", "out/scope.html"], ["index", "out/index-1.html"]]);
+    });
+
+    it("numbers headings as Pandoc does", () => {
+        assert.deepEqual(split.headings.map(heading => heading.number), ["1", "1.1", "2", "3", undefined]);
+        assert.deepEqual(splitDocument(DOCUMENT, "out/index.html", 1, false).headings.map(heading => heading.number), [undefined, undefined, undefined, undefined, undefined]);
+    });
+});
+
+describe("pageDocument", () => {
+    const split = splitDocument(DOCUMENT, "out/index.html", 1, true);
+
+    it("rewrites links to identifiers on other pages", () => {
+        assert.deepEqual(linkURLs(pageDocument(DOCUMENT, split, 0, false).blocks), ["scope.html#scope"]);
+        assert.deepEqual(linkURLs(pageDocument(DOCUMENT, split, 1, false).blocks), ["index.html#details"]);
+    });
+
+    it("adds the shared table of contents, relative to the page", () => {
+        const toc = pageDocument(DOCUMENT, split, 1, true).meta["toc"];
+
+        assert.ok(toc !== undefined);
+        assert.deepEqual(linkURLs(toc), ["index.html#intro", "index.html#details", "#scope", "index-1.html#index"]);
+        assert.equal(pageDocument(DOCUMENT, split, 1, false).meta["toc"], undefined);
+    });
+
+    it("links to the previous and next pages", () => {
+        assert.deepEqual(navigationURLs(pageDocument(DOCUMENT, split, 0, false).meta), {
+            next: "scope.html"
+        });
+
+        assert.deepEqual(navigationURLs(pageDocument(DOCUMENT, split, 1, false).meta), {
+            previous: "index.html",
+            next: "section-3.html"
+        });
+
+        assert.deepEqual(navigationURLs(pageDocument(DOCUMENT, split, 3, false).meta), {
+            previous: "section-3.html"
+        });
+    });
+
+    it("titles pages after the first by their section", () => {
+        const firstMeta = pageDocument(DOCUMENT, split, 0, false).meta;
+        const meta = pageDocument(DOCUMENT, split, 1, false).meta;
+
+        assert.equal(firstMeta["pagetitle"], undefined);
+        assert.deepEqual(meta["title-prefix"], {
+            t: "MetaString",
+            c: "Specification"
+        });
+        assert.deepEqual(meta["pagetitle"], {
+            t: "MetaString",
+            c: "2 Scope"
+        });
+    });
+});
@@ -0,0 +1,120 @@
+/*!
+ * Copyright © 2025 Legendary Requirements
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Workspace } from "../src/workspace.js";
+
+let directory: string;
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "pandoc-spec-workspace-"));
+});
+
+afterEach(() => {
+    fs.rmSync(directory, {
+        recursive: true,
+        force: true
+    });
+});
+
+/**
+ * Parameter options applied to every project, to keep the test output clean.
+ */
+const PARAMETER_OPTIONS = {
+    logLevel: "error"
+};
+
+/**
+ * Write a workspace options file to the test directory.
+ *
+ * @param workspaceOptions
+ * Workspace options.
+ *
+ * @returns
+ * Path of the workspace options file.
+ */
+function writeWorkspaceFile(workspaceOptions: object): string {
+    const workspaceFile = path.join(directory, "pandoc-spec.workspace.json");
+
+    fs.writeFileSync(workspaceFile, JSON.stringify(workspaceOptions));
+
+    return workspaceFile;
+}
+
+describe("Workspace", () => {
+    it("creates a builder for each project, named as configured", async () => {
+        fs.mkdirSync(path.join(directory, "core"));
+        fs.writeFileSync(path.join(directory, "core", "pandoc-spec.options.json"), JSON.stringify({
+            specName: "core",
+            inputDirectory: "spec",
+            inputFiles: ["Index.md"],
+            outputDirectory: "_site",
+            outputFile: "index.html"
+        }));
+
+        const workspace = await Workspace.create(writeWorkspaceFile({
+            projects: ["core/pandoc-spec.options.json", {
+                name: "annex",
+                inputFiles: ["Annex.md"],
+                outputDirectory: "_site/annex",
+                outputFile: "index.html"
+            }]
+        }), PARAMETER_OPTIONS);
+
+        assert.deepEqual(workspace.projects.map(project => project.name), ["core", "annex"]);
+        assert.equal(workspace.projects[0].pandocSpec.inputDirectory, path.join(directory, "core", "spec"));
+        assert.equal(workspace.projects[0].pandocSpec.outputDirectory, path.join(directory, "core", "_site"));
+        assert.equal(workspace.projects[1].pandocSpec.outputDirectory, path.join(directory, "_site", "annex"));
+    });
+
+    it("gives projects sharing a cache directory their own subdirectories", async () => {
+        await Workspace.create(writeWorkspaceFile({
+            projects: [{
+                name: "first",
+                inputFiles: ["First.md"],
+                outputFile: "first.html",
+                cache: true
+            }, {
+                name: "second",
+                inputFiles: ["Second.md"],
+                outputFile: "second.html",
+                cache: true
+            }]
+        }), PARAMETER_OPTIONS);
+
+        assert.deepEqual(fs.readdirSync(path.join(directory, ".pandoc-spec-cache")).sort(), ["project-0", "project-1"]);
+    });
+
+    it("rejects duplicate project names", async () => {
+        await assert.rejects(Workspace.create(writeWorkspaceFile({
+            projects: [{
+                name: "spec",
+                inputFiles: ["First.md"],
+                outputFile: "first.html"
+            }, {
+                name: "spec",
+                inputFiles: ["Second.md"],
+                outputFile: "second.html"
+            }]
+        }), PARAMETER_OPTIONS), {
+            message: "Duplicate project name \"spec\""
+        });
+    });
+});